@@ -5,6 +5,7 @@
  * Domain convention:
  *   harness/gemini  → consult Gemini harness
  *   harness/codex   → consult Codex harness
+ *   harness/<id>    → any leaf declared in harnesses.json (harness-registry.ts)
  *
  * Body contract (req.body):
  *   { question: string; model?: string; from?: string }
@@ -18,8 +19,8 @@
  */
 
 import {
+  listAvailableHarnesses,
   runHarnessConsult,
-  SUPPORTED_HARNESSES,
   type HarnessId,
 } from '../consult/harness-adapter.js';
 import type { BackyardCapabilityRequest, BackyardResult } from './backyard-cli-adapter.js';
@@ -56,19 +57,21 @@ export class HarnessCapabilityAdapter implements CapabilityAdapter {
     const segments = req.domain.split('/');
     const harnessSegment = segments[1];
 
+    const availableHarnesses = listAvailableHarnesses();
+
     if (!harnessSegment) {
       return makeFailure<T>(
         'INVALID_INPUT',
         'Missing harness identifier in domain — expected "harness/<id>".',
-        `Provide a valid domain: harness/${SUPPORTED_HARNESSES.join(' | harness/')}.`,
+        `Provide a valid domain: harness/${availableHarnesses.join(' | harness/')}.`,
       );
     }
 
-    if (!(SUPPORTED_HARNESSES as readonly string[]).includes(harnessSegment)) {
+    if (!availableHarnesses.includes(harnessSegment)) {
       return makeFailure<T>(
         'NOT_FOUND',
         `Harness "${harnessSegment}" is not supported in this build.`,
-        `Supported harnesses: ${SUPPORTED_HARNESSES.join(', ')}.`,
+        `Supported harnesses: ${availableHarnesses.join(', ')}.`,
       );
     }
 
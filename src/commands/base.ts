@@ -6,7 +6,7 @@ import { performance } from 'perf_hooks';
 import { fileURLToPath } from 'url';
 
 type ProviderPreference = 'claude_code' | 'codex' | 'gemini';
-type SessionMode = 'ask' | 'plan-first' | 'code';
+export type SessionMode = 'ask' | 'plan-first' | 'code';
 
 type BaseErrorCode =
   | 'AUTH_FILE_MISSING'
@@ -18,7 +18,7 @@ type BaseErrorCode =
   | 'BASE_QUERY_FAILED'
   | 'INVALID_INPUT';
 
-interface BaseFailureEnvelope {
+export interface BaseFailureEnvelope {
   ok: false;
   stage: 'base';
   error: {
@@ -30,7 +30,7 @@ interface BaseFailureEnvelope {
   timestamp: string;
 }
 
-interface BaseDocResult {
+export interface BaseDocResult {
   path: string;
   snippet: string;
   score: number;
@@ -47,7 +47,7 @@ interface BaseAgentResult {
   relevance_score: number;
 }
 
-interface BaseSuccessEnvelope {
+export interface BaseSuccessEnvelope {
   query: string;
   org: string;
   took_ms: number;
@@ -167,11 +167,9 @@ function createFailure(
   };
 }
 
-function emitFailure(code: BaseErrorCode, details?: Record<string, unknown>): void {
-  console.log(JSON.stringify(createFailure(code, details), null, 2));
-}
-
-function toTokenList(rawQuery: string): string[] {
+/** A command line is split on whitespace; an argv is taken as given, so a token may hold spaces. */
+function toTokenList(rawQuery: string | string[]): string[] {
+  if (Array.isArray(rawQuery)) return rawQuery.filter(Boolean);
   return rawQuery
     .trim()
     .split(/\s+/)
@@ -193,7 +191,7 @@ function parseThreshold(value: string | undefined): number | null {
   return parsed;
 }
 
-function parseBaseInput(rawQuery: string): ParsedBaseInput | null {
+function parseBaseInput(rawQuery: string | string[]): ParsedBaseInput | null {
   const tokens = toTokenList(rawQuery);
   if (tokens.length === 0 || tokens[0] !== 'base') {
     return null;
@@ -438,12 +436,18 @@ function resolveCommandFromPath(command: string): string | null {
   return null;
 }
 
-function executeJsonCommand(binary: string, args: string[]): Promise<unknown> {
+function executeJsonCommand(binary: string, args: string[], timeoutMs?: number): Promise<unknown> {
   return new Promise((resolve, reject) => {
     const child = spawn(binary, args, { shell: false, stdio: ['ignore', 'pipe', 'pipe'] });
 
     let stdout = '';
     let stderr = '';
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          child.kill('SIGKILL');
+          reject(new Error(`Command timed out after ${timeoutMs}ms.`));
+        }, timeoutMs)
+      : undefined;
 
     child.stdout.on('data', chunk => {
       stdout += chunk.toString();
@@ -454,10 +458,12 @@ function executeJsonCommand(binary: string, args: string[]): Promise<unknown> {
     });
 
     child.on('error', error => {
+      clearTimeout(timer);
       reject(error);
     });
 
     child.on('close', code => {
+      clearTimeout(timer);
       if (code !== 0) {
         reject(
           new Error(
@@ -592,38 +598,67 @@ function toSuggestedName(task: string): string {
   return slug.slice(0, 64);
 }
 
-export async function runBaseCommand(rawQuery: string): Promise<void> {
-  const parsed = parseBaseInput(rawQuery);
-  if (!parsed) {
-    emitFailure('INVALID_INPUT', { rawQuery });
-    process.exitCode = 1;
-    return;
+export type BaseDocSearchResult =
+  | { ok: true; binary: string; docs: BaseDocResult[] }
+  | { ok: false; code: 'BASE_BINARY_NOT_FOUND' | 'BASE_QUERY_FAILED'; reason: string };
+
+/**
+ * Doc-only search against the local base binary — the same `search` call
+ * `graphyn base` makes, for callers that attach knowledge to another command
+ * (consult stage 3). Never throws; a missing or failing binary is reported
+ * so the caller can degrade instead of failing.
+ */
+export async function searchBaseDocs(
+  task: string,
+  limit: number,
+  timeoutMs = 15_000,
+): Promise<BaseDocSearchResult> {
+  const binary = resolveBaseBinary();
+  if (!binary) {
+    return { ok: false, code: 'BASE_BINARY_NOT_FOUND', reason: ERROR_DETAILS.BASE_BINARY_NOT_FOUND.message };
   }
+  try {
+    const raw = await executeJsonCommand(binary, ['search', task, '--limit', String(limit), '--json'], timeoutMs);
+    return { ok: true, binary, docs: mapDocs(raw).slice(0, limit) };
+  } catch (error) {
+    return { ok: false, code: 'BASE_QUERY_FAILED', reason: error instanceof Error ? error.message : String(error) };
+  }
+}
 
-  if (parsed.help) {
-    showBaseHelp();
-    return;
+export interface BaseCommandResult {
+  envelope: BaseSuccessEnvelope | BaseFailureEnvelope;
+  exitCode: number;
+}
+
+/**
+ * `graphyn base` without the printing: the envelope the CLI would print and
+ * its exit code. `graphyn serve` answers `/v1/base` with it, passing the
+ * argv (`['base', ...args]`) rather than a line to re-split.
+ */
+export async function executeBaseQuery(rawQuery: string | string[]): Promise<BaseCommandResult> {
+  const failure = (code: BaseErrorCode, details?: Record<string, unknown>): BaseCommandResult => ({
+    envelope: createFailure(code, details),
+    exitCode: 1,
+  });
+
+  const parsed = parseBaseInput(rawQuery);
+  if (!parsed) {
+    return failure('INVALID_INPUT', { rawQuery });
   }
 
   if (!parsed.task) {
-    emitFailure('INVALID_INPUT', { reason: 'Missing task query.' });
-    process.exitCode = 1;
-    return;
+    return failure('INVALID_INPUT', { reason: 'Missing task query.' });
   }
 
   const authResult = readAuthFileForBase();
   if ('ok' in authResult) {
-    console.log(JSON.stringify(authResult, null, 2));
-    process.exitCode = 1;
-    return;
+    return { envelope: authResult, exitCode: 1 };
   }
   const auth = authResult;
 
   const binary = resolveBaseBinary();
   if (!binary) {
-    emitFailure('BASE_BINARY_NOT_FOUND');
-    process.exitCode = 1;
-    return;
+    return failure('BASE_BINARY_NOT_FOUND');
   }
 
   const start = performance.now();
@@ -677,12 +712,22 @@ export async function runBaseCommand(rawQuery: string): Promise<void> {
         "No specialist above threshold. Create one via Graphyn Desktop's System Designer mode, or author a .af file directly.";
     }
 
-    console.log(JSON.stringify(envelope, null, 2));
+    return { envelope, exitCode: 0 };
   } catch (error) {
-    emitFailure('BASE_QUERY_FAILED', {
+    return failure('BASE_QUERY_FAILED', {
       reason: error instanceof Error ? error.message : String(error),
       binary,
     });
-    process.exitCode = 1;
   }
 }
+
+export async function runBaseCommand(rawQuery: string): Promise<void> {
+  if (parseBaseInput(rawQuery)?.help) {
+    showBaseHelp();
+    return;
+  }
+
+  const result = await executeBaseQuery(rawQuery);
+  console.log(JSON.stringify(result.envelope, null, 2));
+  if (result.exitCode !== 0) process.exitCode = result.exitCode;
+}
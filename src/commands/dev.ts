@@ -0,0 +1,55 @@
+/**
+ * graphyn dev — contributor tooling
+ *
+ * Subcommands:
+ *   graphyn dev fake-harness install <dir> [--to a,b]   Write gemini/codex/claude shims backed by the fake
+ *   graphyn dev fake-harness --as <harness> [argv...]   Run the fake directly with harness argv
+ *
+ * See consult/fake-harness.ts for the scenarios (GRAPHYN_FAKE_SCENARIO) and
+ * the argv/env recording (GRAPHYN_FAKE_RECORD).
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { FAKE_HARNESS_IDS, installFakeHarnesses, isFakeHarnessId, runFakeHarness, type FakeHarnessId } from '../consult/fake-harness.js';
+
+const DEV_HELP = `Usage:
+  graphyn dev fake-harness install <dir> [--to gemini,codex,claude]
+  graphyn dev fake-harness --as <gemini|codex|claude> [harness argv...]
+
+Scenario env: GRAPHYN_FAKE_SCENARIO=latency=<ms>,malformed,exit=<code>,writes,hang,empty
+Other env:    GRAPHYN_FAKE_RESPONSE, GRAPHYN_FAKE_MODEL, GRAPHYN_FAKE_RECORD=<file>`;
+
+/** `queryArgs` as parsed by index.ts: tokens[0] is "dev". Harness argv is passed through untouched. */
+export async function runDevCommand(tokens: string[]): Promise<void> {
+  if (tokens[1] !== 'fake-harness') {
+    console.log(DEV_HELP);
+    if (tokens[1] && tokens[1] !== 'help') process.exitCode = 1;
+    return;
+  }
+
+  if (tokens[2] === 'install') {
+    const dir = tokens[3];
+    if (!dir || dir.startsWith('-')) {
+      console.error(chalk.red('Usage: graphyn dev fake-harness install <dir> [--to a,b]'));
+      process.exitCode = 1;
+      return;
+    }
+    const toIndex = tokens.indexOf('--to');
+    const requested = toIndex >= 0 ? (tokens[toIndex + 1] ?? '').split(',').filter(Boolean) : [...FAKE_HARNESS_IDS];
+    const unknown = requested.filter(id => !isFakeHarnessId(id));
+    if (unknown.length > 0 || requested.length === 0) {
+      console.error(chalk.red(`--to takes a comma-separated list of ${FAKE_HARNESS_IDS.join(', ')}${unknown.length ? ` (got ${unknown.join(', ')})` : ''}`));
+      process.exitCode = 1;
+      return;
+    }
+    const binDir = path.resolve(dir);
+    for (const shim of installFakeHarnesses(binDir, { harnesses: requested as FakeHarnessId[] })) {
+      console.log(chalk.green(`✓ ${shim}`));
+    }
+    console.log(chalk.gray(`Put it first on PATH: export PATH="${binDir}:$PATH"`));
+    return;
+  }
+
+  process.exitCode = await runFakeHarness(tokens.slice(2), process.env, '');
+}
@@ -7,6 +7,24 @@ interface ParsedFsInput {
   args: string[];
 }
 
+const DEFAULT_SUBJECT = 'local-operator';
+
+/**
+ * VFS identity from the environment alone — what `graphyn fs` uses when no
+ * flags are given. Other commands that read through the VFS (consult
+ * `--attach`) use this so they are bound by the same runtime grant.
+ */
+export function fsOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): FsGlobalOptions {
+  return {
+    grantId: env.GRAPHYN_VFS_GRANT_ID,
+    workspaceId: env.GRAPHYN_WORKSPACE_ID || 'local',
+    threadId: env.GRAPHYN_THREAD_ID || 'thread_local',
+    sessionId: env.GRAPHYN_SESSION_ID || 'session_local',
+    agentId: env.GRAPHYN_AGENT_ID || 'agent_local',
+    subjectHash: subjectHashFromInput(env.GRAPHYN_SUBJECT || DEFAULT_SUBJECT),
+  };
+}
+
 export async function runFsCommand(rawInput: string | string[]): Promise<void> {
   const parsed = parseFsInput(rawInput);
   const result = await executeFsCommand(parsed.args, parsed.options);
@@ -23,49 +41,34 @@ function parseFsInput(rawInput: string | string[]): ParsedFsInput {
   }
 
   const args: string[] = [];
-  let grantId = process.env.GRAPHYN_VFS_GRANT_ID;
-  let workspaceId = process.env.GRAPHYN_WORKSPACE_ID || 'local';
-  let threadId = process.env.GRAPHYN_THREAD_ID || 'thread_local';
-  let sessionId = process.env.GRAPHYN_SESSION_ID || 'session_local';
-  let agentId = process.env.GRAPHYN_AGENT_ID || 'agent_local';
-  let subject = process.env.GRAPHYN_SUBJECT || 'local-operator';
+  const options = fsOptionsFromEnv();
 
   for (let i = 1; i < tokens.length; i++) {
     const token = tokens[i];
     if (token === '--grant-id') {
-      grantId = requireValue(tokens, i, token);
+      options.grantId = requireValue(tokens, i, token);
       i += 1;
     } else if (token === '--workspace-id') {
-      workspaceId = requireValue(tokens, i, token);
+      options.workspaceId = requireValue(tokens, i, token);
       i += 1;
     } else if (token === '--thread-id') {
-      threadId = requireValue(tokens, i, token);
+      options.threadId = requireValue(tokens, i, token);
       i += 1;
     } else if (token === '--session-id') {
-      sessionId = requireValue(tokens, i, token);
+      options.sessionId = requireValue(tokens, i, token);
       i += 1;
     } else if (token === '--agent-id') {
-      agentId = requireValue(tokens, i, token);
+      options.agentId = requireValue(tokens, i, token);
       i += 1;
     } else if (token === '--subject') {
-      subject = requireValue(tokens, i, token);
+      options.subjectHash = subjectHashFromInput(requireValue(tokens, i, token));
       i += 1;
     } else {
       args.push(token);
     }
   }
 
-  return {
-    args,
-    options: {
-      grantId,
-      workspaceId,
-      threadId,
-      sessionId,
-      agentId,
-      subjectHash: subjectHashFromInput(subject),
-    },
-  };
+  return { args, options };
 }
 
 function requireValue(tokens: string[], index: number, flag: string): string {
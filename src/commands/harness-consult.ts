@@ -0,0 +1,380 @@
+#!/usr/bin/env node
+
+import chalk from 'chalk';
+import {
+  findConsultReceipt,
+  listConsultReceipts,
+  verifyConsultReceipts,
+} from '../consult/receipt-log.js';
+import { closeConsultSession, isValidSessionName, listConsultSessions } from '../consult/consult-sessions.js';
+import { isValidHarnessId } from '../consult/harness-registry.js';
+import { consultCacheDir, consultCacheStats, pruneConsultCache } from '../consult/response-cache.js';
+import { runHarnessDoctor } from '../consult/harness-doctor.js';
+import { replayConsult } from '../consult/replay.js';
+
+const colors = {
+  success: chalk.green,
+  error: chalk.red,
+  warning: chalk.yellow,
+  info: chalk.gray,
+  highlight: chalk.cyan,
+  bold: chalk.bold,
+  dim: chalk.dim,
+};
+
+/** Consult subcommands handled here rather than as a question to a harness. */
+export const CONSULT_SUBCOMMANDS = ['receipts', 'sessions', 'cache', 'doctor', 'replay'] as const;
+
+function hasFlag(tokens: string[], flag: string): boolean {
+  return tokens.includes(flag);
+}
+
+function flagValue(tokens: string[], flag: string): string | undefined {
+  const index = tokens.indexOf(flag);
+  if (index === -1) return undefined;
+  return tokens[index + 1];
+}
+
+function asJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function receiptsListCommand(tokens: string[], json: boolean): void {
+  const traceId = flagValue(tokens, '--trace');
+  const limit = Number(flagValue(tokens, '--limit') ?? 20);
+  const all = listConsultReceipts({ traceId });
+  const receipts = Number.isFinite(limit) && limit > 0 ? all.slice(-limit) : all;
+
+  if (json) {
+    asJson({ ok: true, total: all.length, receipts });
+    return;
+  }
+  if (receipts.length === 0) {
+    console.log(colors.info('No consult receipts recorded.'));
+    return;
+  }
+  for (const receipt of receipts) {
+    const status = receipt.ok ? colors.success('ok  ') : colors.error(receipt.errorCode ?? 'fail');
+    console.log(
+      `${receipt.timestamp}  ${receipt.id}  ${receipt.fromHarness} → ${receipt.toHarness}  ${status}  ${colors.dim(receipt.junctionTraceId)}`,
+    );
+  }
+}
+
+function receiptsShowCommand(tokens: string[]): void {
+  const id = tokens[3];
+  const receipt = id ? findConsultReceipt(id) : null;
+  if (!receipt) {
+    asJson({ ok: false, error: id ? `Receipt not found: ${id}` : 'Missing receipt id' });
+    process.exitCode = 1;
+    return;
+  }
+  asJson({ ok: true, receipt });
+}
+
+function receiptsVerifyCommand(json: boolean): void {
+  const result = verifyConsultReceipts();
+  if (json) {
+    asJson(result);
+  } else if (result.ok) {
+    console.log(colors.success(`✓ consult receipt chain intact (${result.checked} receipts)`));
+  } else {
+    const broken = result.broken!;
+    console.log(colors.error(`✗ consult receipt chain broken at ${broken.file}:${broken.line} (${broken.reason})`));
+    if (broken.id) console.log(colors.info(`  receipt ${broken.id}`));
+  }
+  if (!result.ok) process.exitCode = 1;
+}
+
+function sessionsListCommand(json: boolean): void {
+  const sessions = listConsultSessions();
+  if (json) {
+    asJson({ ok: true, sessions });
+    return;
+  }
+  if (sessions.length === 0) {
+    console.log(colors.info('No consult sessions.'));
+    return;
+  }
+  for (const session of sessions) {
+    const state = session.expired ? colors.warning('expired') : colors.success('active ');
+    console.log(
+      `${session.name}  ${session.toHarness} (${session.tier})  ${state}  ${session.turns} turn(s)  ${colors.dim(`last used ${session.lastUsedAt}`)}`,
+    );
+  }
+}
+
+async function sessionsCloseCommand(tokens: string[], json: boolean): Promise<void> {
+  const name = tokens[3];
+  if (!name || name.startsWith('--')) {
+    asJson({ ok: false, error: 'Missing session name' });
+    process.exitCode = 1;
+    return;
+  }
+  const toHarness = flagValue(tokens, '--to');
+  if (!isValidSessionName(name) || (toHarness !== undefined && !isValidHarnessId(toHarness))) {
+    asJson({ ok: false, error: `Invalid session name or harness: ${name}${toHarness ? ` --to ${toHarness}` : ''}` });
+    process.exitCode = 1;
+    return;
+  }
+  const closed = await closeConsultSession(name, toHarness);
+  if (json) {
+    asJson({ ok: closed > 0, name, closed });
+  } else if (closed > 0) {
+    console.log(colors.success(`✓ closed session ${name} (${closed} harness record(s))`));
+  } else {
+    console.log(colors.warning(`No session named ${name}`));
+  }
+  if (closed === 0) process.exitCode = 1;
+}
+
+function cacheStatsCommand(json: boolean): void {
+  const stats = consultCacheStats();
+  if (json) {
+    asJson({ ok: true, dir: consultCacheDir(), ...stats });
+    return;
+  }
+  if (stats.entries === 0) {
+    console.log(colors.info('Consult response cache is empty.'));
+    return;
+  }
+  console.log(`${stats.entries} cached answer(s), ${stats.expired} expired, ${stats.hits} hit(s), ${stats.bytes} bytes`);
+  console.log(colors.dim(`oldest ${stats.oldestAt}  newest ${stats.newestAt}  in ${consultCacheDir()}`));
+}
+
+function cachePruneCommand(tokens: string[], json: boolean): void {
+  const result = pruneConsultCache({ all: hasFlag(tokens, '--all') });
+  if (json) {
+    asJson({ ok: true, ...result });
+    return;
+  }
+  console.log(colors.success(`✓ removed ${result.removed} cached answer(s), kept ${result.kept}`));
+}
+
+/**
+ * Exit 1 when a harness named with --to is not ready, or (without --to) when
+ * none is: one installed leaf is enough to consult.
+ */
+async function doctorCommand(tokens: string[], json: boolean): Promise<void> {
+  const to = flagValue(tokens, '--to');
+  const harnesses = to ? to.split(',').map(id => id.trim()).filter(Boolean) : undefined;
+  const reports = await runHarnessDoctor({ harnesses, canary: hasFlag(tokens, '--canary') });
+  const healthy = harnesses
+    ? harnesses.every(id => reports.some(report => report.harness === id && report.readiness === 'ready'))
+    : reports.some(report => report.readiness === 'ready');
+  if (!healthy) process.exitCode = 1;
+
+  if (json) {
+    asJson({ ok: healthy, harnesses: reports });
+    return;
+  }
+  if (reports.length === 0) {
+    console.log(colors.error(`No harness named ${to}`));
+    return;
+  }
+  for (const report of reports) {
+    const state =
+      report.readiness === 'ready'
+        ? colors.success('ready      ')
+        : report.readiness === 'degraded'
+          ? colors.warning('degraded   ')
+          : colors.error('unavailable');
+    const version = report.version ?? '?';
+    const canary = report.canary
+      ? report.canary.ok
+        ? colors.success(`  canary ok (${report.canary.durationMs}ms)`)
+        : colors.error(`  canary ${report.canary.errorCode}`)
+      : '';
+    console.log(`${report.harness.padEnd(10)} ${state}  ${version.padEnd(8)} ${colors.dim(report.resolvedPath ?? 'not on PATH')}${canary}`);
+    for (const issue of report.issues) {
+      const mark = issue.severity === 'error' ? colors.error('  ✗') : colors.warning('  ⚠');
+      console.log(`${mark} ${issue.message}`);
+      console.log(colors.info(`    ${issue.actionable}`));
+    }
+  }
+}
+
+/** Re-send a stored consult input to another harness/model and print the diff. */
+async function replayCommand(tokens: string[], json: boolean): Promise<void> {
+  const receiptId = tokens[2];
+  if (!receiptId || receiptId.startsWith('--')) {
+    asJson({ ok: false, error: 'Missing receipt id' });
+    process.exitCode = 1;
+    return;
+  }
+  const tier = flagValue(tokens, '--tier') ?? (hasFlag(tokens, '--acp') ? 'acp' : undefined);
+  if (tier !== undefined && tier !== 'acp' && tier !== 'subprocess') {
+    asJson({ ok: false, error: `Unknown tier "${tier}"` });
+    process.exitCode = 1;
+    return;
+  }
+  const timeout = Number(flagValue(tokens, '--timeout'));
+  const report = await replayConsult({
+    receiptId,
+    toHarness: flagValue(tokens, '--to'),
+    model: flagValue(tokens, '--model'),
+    tier,
+    ...(Number.isInteger(timeout) && timeout > 0 ? { timeoutMs: timeout } : {}),
+    storeContent: hasFlag(tokens, '--store-content'),
+  });
+  if (!report.ok || !report.result.ok) process.exitCode = 1;
+
+  if (json) {
+    asJson(report);
+    return;
+  }
+  if (!report.ok) {
+    console.log(colors.error(`✗ ${report.error}`));
+    console.log(colors.info(`  ${report.actionable}`));
+    return;
+  }
+  const { original, replay, diff } = report;
+  const describe = (side: typeof original): string =>
+    `${side.toHarness}${side.model ? ` (${side.model})` : ''}  ${side.ok ? colors.success('ok') : colors.error(side.errorCode ?? 'fail')}` +
+    `  ${side.durationMs ?? '?'}ms  ${side.answerLength ?? '?'} chars  ${colors.dim(side.receiptId ?? '')}`;
+  const signed = (value: number | undefined, unit: string): string =>
+    value === undefined ? 'n/a' : `${value > 0 ? '+' : ''}${value}${unit}`;
+  console.log(colors.dim(`input ${report.inputHash}`));
+  console.log(`original  ${describe(original)}`);
+  console.log(`replay    ${describe(replay)}`);
+  console.log(
+    `similarity ${diff.similarity ?? 'n/a'}  length ${signed(diff.lengthDelta, ' chars')}  latency ${signed(diff.latencyDeltaMs, 'ms')}` +
+      `  model ${diff.modelChanged ? colors.warning('changed') : 'same'}  redaction ${diff.redactionParity ? 'same' : colors.warning('differs')}`,
+  );
+  if (report.result.ok) {
+    console.log('');
+    console.log(report.result.response);
+  } else {
+    console.log(colors.error(`✗ ${report.result.error}`));
+  }
+}
+
+function showHelp(): void {
+  console.log(`
+${colors.bold('Graphyn Consult — audit log, sessions, cache, harness doctor, and replay')}
+
+${colors.highlight('Usage:')}
+  graphyn consult receipts <command> [options]
+  graphyn consult sessions <command> [options]
+  graphyn consult cache <command> [options]
+  graphyn consult doctor [options]
+  graphyn consult replay <receipt-id> [options]
+
+${colors.highlight('Commands:')}
+  receipts list [--trace ID] [--limit N] [--json]   Recent consults, oldest first
+  receipts show <receipt-id>                         One receipt as JSON
+  receipts verify [--json]                           Recompute hashes and check the chain
+  sessions ls [--json]                               Named sessions, per harness
+  sessions close <name> [--to HARNESS] [--json]      Forget a session (all harnesses by default)
+  cache stats [--json]                               Entries, hits, and size of the response cache
+  cache prune [--all] [--json]                       Drop expired answers (or every answer with --all)
+  doctor [--to H[,H]] [--canary] [--json]            Harness PATH, version, and login checks; --canary asks each a one-word question
+  replay <receipt-id> [--to H] [--model M] [--acp] [--json]
+                                                     Re-send a stored consult input to H and diff the answers
+
+${colors.highlight('Security:')}
+  Receipts store hashes of the question and answer. Plain content is kept only
+  with --store-content or GRAPHYN_CONSULT_STORE_CONTENT=1, and is always the
+  redacted text handed to the leaf, never the raw question. The response cache
+  (opt-in, --cache) stores answers in plain text; prune it with --all to wipe it.
+  The doctor only checks that harness credential files exist; it never reads them.
+  Replay needs the stored input, so it only works on --store-content receipts.
+`);
+}
+
+/**
+ * Run a consult subcommand. tokens[0] is the literal "consult" token and
+ * tokens[1] one of CONSULT_SUBCOMMANDS.
+ */
+export async function runHarnessConsultCommand(tokens: string[]): Promise<void> {
+  const json = hasFlag(tokens, '--json');
+
+  if (tokens[1] === 'sessions') {
+    await runSessionsCommand(tokens, json);
+    return;
+  }
+  if (tokens[1] === 'cache') {
+    runCacheCommand(tokens, json);
+    return;
+  }
+  if (tokens[1] === 'replay') {
+    await replayCommand(tokens, json);
+    return;
+  }
+  if (tokens[1] === 'doctor') {
+    if (['help', '--help', '-h'].includes(tokens[2])) showHelp();
+    else await doctorCommand(tokens, json);
+    return;
+  }
+  if (tokens[1] !== 'receipts') {
+    showHelp();
+    process.exitCode = 1;
+    return;
+  }
+
+  switch (tokens[2] || '') {
+    case 'list':
+    case 'ls':
+      receiptsListCommand(tokens, json);
+      break;
+    case 'show':
+      receiptsShowCommand(tokens);
+      break;
+    case 'verify':
+      receiptsVerifyCommand(json);
+      break;
+    case 'help':
+    case '--help':
+    case '-h':
+    case '':
+      showHelp();
+      break;
+    default:
+      console.log(colors.error(`Unknown subcommand: ${tokens[2]}`));
+      showHelp();
+      process.exitCode = 1;
+  }
+}
+
+async function runSessionsCommand(tokens: string[], json: boolean): Promise<void> {
+  switch (tokens[2] || '') {
+    case 'ls':
+    case 'list':
+      sessionsListCommand(json);
+      break;
+    case 'close':
+      await sessionsCloseCommand(tokens, json);
+      break;
+    case 'help':
+    case '--help':
+    case '-h':
+    case '':
+      showHelp();
+      break;
+    default:
+      console.log(colors.error(`Unknown subcommand: ${tokens[2]}`));
+      showHelp();
+      process.exitCode = 1;
+  }
+}
+
+function runCacheCommand(tokens: string[], json: boolean): void {
+  switch (tokens[2] || '') {
+    case 'stats':
+      cacheStatsCommand(json);
+      break;
+    case 'prune':
+      cachePruneCommand(tokens, json);
+      break;
+    case 'help':
+    case '--help':
+    case '-h':
+    case '':
+      showHelp();
+      break;
+    default:
+      console.log(colors.error(`Unknown subcommand: ${tokens[2]}`));
+      showHelp();
+      process.exitCode = 1;
+  }
+}
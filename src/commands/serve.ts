@@ -0,0 +1,85 @@
+/**
+ * graphyn serve — long-lived local junction (see serve/junction-server.ts)
+ *
+ *   graphyn serve [--socket <path>] [--port <n>] [--drain-timeout <ms>]
+ *
+ * Listens on a Unix socket; `--port` adds HTTP on 127.0.0.1 behind a bearer
+ * token (GRAPHYN_SERVE_TOKEN, or a generated one written to a 0600 file —
+ * never a flag, so it stays out of `ps`). Runs until SIGINT/SIGTERM, then
+ * drains in-flight requests and exits.
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+
+import { startJunctionServer } from '../serve/junction-server.js';
+
+const SERVE_HELP = `Usage:
+  graphyn serve [--socket <path>] [--port <n>] [--drain-timeout <ms>]
+
+  --socket <path>       Unix socket to listen on (default ~/.graphyn/serve/junction.sock)
+  --port <n>            Also listen on http://127.0.0.1:<n> (0 = any free port); requires a bearer token
+  --drain-timeout <ms>  On shutdown, wait this long for in-flight requests before cancelling them (default 10000)
+
+Routes: GET /v1/health; POST /v1/consult, /v1/base, /v1/fs, /v1/invoke (JSON bodies).
+Token:  GRAPHYN_SERVE_TOKEN, or generated into ~/.graphyn/serve/token for the life of the server.`;
+
+function flagValue(tokens: string[], flag: string): string | undefined {
+  const index = tokens.indexOf(flag);
+  return index >= 0 ? tokens[index + 1] : undefined;
+}
+
+function nonNegativeInteger(raw: string | undefined): number | undefined {
+  if (raw === undefined || !/^\d+$/.test(raw)) return undefined;
+  return Number(raw);
+}
+
+/** `queryArgs` as parsed by index.ts: tokens[0] is "serve". */
+export async function runServeCommand(tokens: string[]): Promise<void> {
+  if (tokens.includes('--help') || tokens.includes('-h') || tokens[1] === 'help') {
+    console.log(SERVE_HELP);
+    return;
+  }
+
+  const socket = flagValue(tokens, '--socket');
+  const port = nonNegativeInteger(flagValue(tokens, '--port'));
+  const drainTimeoutMs = nonNegativeInteger(flagValue(tokens, '--drain-timeout'));
+  if ((tokens.includes('--port') && (port === undefined || port > 65_535)) || (tokens.includes('--drain-timeout') && drainTimeoutMs === undefined)) {
+    console.error(chalk.red('--port takes 0-65535 and --drain-timeout a number of milliseconds.'));
+    console.error(SERVE_HELP);
+    process.exitCode = 1;
+    return;
+  }
+
+  let server;
+  try {
+    server = await startJunctionServer({
+      ...(socket ? { socketPath: path.resolve(socket) } : {}),
+      ...(port !== undefined ? { httpPort: port } : {}),
+      ...(drainTimeoutMs !== undefined ? { drainTimeoutMs } : {}),
+      log: line => console.error(chalk.gray(line)),
+    });
+  } catch (err) {
+    console.error(chalk.red(`❌ graphyn serve could not start: ${err instanceof Error ? err.message : String(err)}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(chalk.green(`✓ graphyn junction listening on unix:${server.socketPath}`));
+  if (server.httpPort !== undefined) {
+    const tokenSource = server.tokenFile ? `token in ${server.tokenFile}` : 'token from GRAPHYN_SERVE_TOKEN';
+    console.log(chalk.green(`✓ http://127.0.0.1:${server.httpPort} (bearer ${tokenSource})`));
+  }
+
+  await new Promise<void>(resolve => {
+    const stop = (signal: NodeJS.Signals): void => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      console.error(chalk.gray(`${signal}: draining in-flight requests…`));
+      void server.close().then(resolve);
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+  console.error(chalk.gray('graphyn serve stopped'));
+}
@@ -14,6 +14,12 @@ import path from 'path';
 import os from 'os';
 import { fileURLToPath } from 'url';
 
+import {
+  DEFAULT_REDACTION_PACKS,
+  findSecretRuleIds,
+  type RedactionOptions,
+} from '../utils/secret-redaction.js';
+
 export type RepoKey = 'WORKSPACE' | 'COMPOUND';
 export type BillingTierKey = 'free' | 'pro' | 'pro_plus' | 'max';
 export type StripeMode = 'test' | 'live';
@@ -74,14 +80,13 @@ export interface ResolvedEnvTarget extends EnvTarget {
 }
 
 const CONFIG_RELATIVE_PATH = path.join('scripts', 'graphyn.config.json');
-const SECRET_VALUE_PATTERNS = [
-  /\bsk_(?:live|test)_[A-Za-z0-9_]+/,
-  /\bpk_(?:live|test)_[A-Za-z0-9_]+/,
-  /\bwhsec_[A-Za-z0-9_]+/,
-  /\bgh[pousr]_[A-Za-z0-9_]+/,
-  /\bxox[baprs]-[A-Za-z0-9-]+/,
-  /-----BEGIN [A-Z ]+PRIVATE KEY-----/,
-];
+// The registry holds Stripe product/price ids and secret *names*, so the
+// entropy pack and the `token: value` keyword rule would flag legitimate
+// entries; every other pack applies.
+const SECRET_VALUE_REDACTION: RedactionOptions = {
+  packs: DEFAULT_REDACTION_PACKS.filter(pack => pack !== 'entropy'),
+  disabledRules: ['core.keyword-assignment'],
+};
 
 let cachedConfig: GraphynConfig | null = null;
 let cachedRoot: string | null = null;
@@ -195,10 +200,9 @@ function validateConfigShape(config: GraphynConfig): void {
 
 function assertNoSecretValues(value: unknown, trail = 'config'): void {
   if (typeof value === 'string') {
-    for (const pattern of SECRET_VALUE_PATTERNS) {
-      if (pattern.test(value)) {
-        throw new Error(`Secret-looking value is not allowed in ${trail}`);
-      }
+    const ruleIds = findSecretRuleIds(value, SECRET_VALUE_REDACTION);
+    if (ruleIds.length > 0) {
+      throw new Error(`Secret-looking value is not allowed in ${trail} (${ruleIds.join(', ')})`);
     }
     return;
   }
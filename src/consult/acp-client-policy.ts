@@ -0,0 +1,190 @@
+/**
+ * Read-only ACP client policy — how the junction answers requests an ACP
+ * agent sends *to the client* during a consult.
+ *
+ * The junction advertises `fs.readTextFile` only. Reads are served through
+ * the VFS (`executeFsCommand` `cat`), so the runtime grant, mount path
+ * policy, sensitive-path denial, and VFS receipts apply exactly as they do
+ * for `graphyn fs cat`; content is redacted before it reaches the agent.
+ * Writes, terminals, and permission requests are always refused: a consult
+ * is advisory. Unknown methods get JSON-RPC -32601 so the agent never waits
+ * on a request nobody will answer.
+ *
+ * Every request and its decision is recorded; the junction copies the list
+ * into the consult receipt (`agentRequests`). Paths outside every mount are
+ * recorded as an HMAC, never in the clear.
+ */
+
+import path from 'path';
+
+import { redactText, type RedactionOptions } from '../utils/secret-redaction.js';
+import { hmacArg } from '../vfs/hash.js';
+import { defaultMounts } from '../vfs/mounts.js';
+import { executeFsCommand } from '../vfs/service.js';
+import type { FsGlobalOptions } from '../vfs/types.js';
+import { junctionFsOptions } from './junction-env.js';
+
+/** JSON-RPC: the method does not exist (or is not offered by this client). */
+export const JSONRPC_METHOD_NOT_FOUND = -32601;
+/** JSON-RPC: invalid params. */
+export const JSONRPC_INVALID_PARAMS = -32602;
+/** Server-defined range: the read-only policy refused the request. */
+export const ACP_REQUEST_DENIED = -32001;
+
+/** What the client tells the agent it can do (`initialize.clientCapabilities`). */
+export const READ_ONLY_CLIENT_CAPABILITIES = {
+  fs: { readTextFile: true, writeTextFile: false },
+  terminal: false,
+} as const;
+
+export type AcpClientReply =
+  | { result: unknown }
+  | { error: { code: number; message: string } };
+
+export interface AcpAgentRequestRecord {
+  method: string;
+  decision: 'allowed' | 'denied' | 'unsupported';
+  reason: string;
+  /** Virtual path the request resolved to, when it fell under a mount. */
+  virtualPath?: string;
+  /** HMAC of a requested path outside every mount. */
+  pathHash?: string;
+  vfsReceiptId?: string;
+  timestamp: string;
+}
+
+export interface AcpClientPolicy {
+  readonly capabilities: Record<string, unknown>;
+  handle(method: string, params: unknown): Promise<AcpClientReply>;
+  /** Every request handled so far, in arrival order. */
+  readonly requests: AcpAgentRequestRecord[];
+}
+
+export interface ReadOnlyClientPolicyOptions {
+  /** VFS identity for reads. Defaults to the caller's (`junctionFsOptions()`). */
+  fsOptions?: FsGlobalOptions;
+  /** Redaction applied to served file content (consult.json `redaction`). */
+  redaction?: RedactionOptions;
+}
+
+interface PermissionOption {
+  optionId?: string;
+  kind?: string;
+}
+
+/** Map an absolute local path to the most specific VFS mount (rooted at `cwd`) that holds it. */
+function toVirtualPath(localPath: string, cwd: string | undefined): string | undefined {
+  const resolved = path.resolve(localPath);
+  const mount = defaultMounts(cwd)
+    .filter(candidate => resolved === candidate.sourceRoot || resolved.startsWith(`${candidate.sourceRoot}${path.sep}`))
+    .sort((a, b) => b.sourceRoot.length - a.sourceRoot.length)[0];
+  if (!mount) return undefined;
+  const relative = path.relative(mount.sourceRoot, resolved).split(path.sep).join('/');
+  return relative ? `${mount.virtualPrefix}/${relative}` : mount.virtualPrefix;
+}
+
+/** Apply ACP's optional 1-based `line` and `limit` to file content. */
+function sliceLines(content: string, line: unknown, limit: unknown): string {
+  if (typeof line !== 'number' && typeof limit !== 'number') return content;
+  const lines = content.split('\n');
+  const start = typeof line === 'number' && line > 0 ? line - 1 : 0;
+  const end = typeof limit === 'number' && limit >= 0 ? start + limit : lines.length;
+  return lines.slice(start, end).join('\n');
+}
+
+type Decision = Omit<AcpAgentRequestRecord, 'method' | 'timestamp'>;
+
+function denied(reason: string, extra: Partial<Decision> = {}): [AcpClientReply, Decision] {
+  return [
+    { error: { code: ACP_REQUEST_DENIED, message: `Denied by graphyn read-only consult policy: ${reason}` } },
+    { decision: 'denied', reason, ...extra },
+  ];
+}
+
+async function readTextFile(
+  params: Record<string, unknown>,
+  options: ReadOnlyClientPolicyOptions,
+): Promise<[AcpClientReply, Decision]> {
+  if (typeof params.path !== 'string' || !path.isAbsolute(params.path)) {
+    return [
+      { error: { code: JSONRPC_INVALID_PARAMS, message: 'fs/read_text_file requires an absolute path' } },
+      { decision: 'denied', reason: 'invalid_path' },
+    ];
+  }
+  const fsOptions = options.fsOptions ?? junctionFsOptions();
+  const virtualPath = toVirtualPath(params.path, fsOptions.cwd);
+  if (!virtualPath) return denied('outside_mounts', { pathHash: hmacArg(params.path) });
+
+  const { envelope } = await executeFsCommand(['cat', virtualPath], fsOptions);
+  if (envelope.status !== 'ok') {
+    const reason = envelope.error?.code ?? envelope.pathOutcomes[0]?.reasonCode ?? envelope.status;
+    // The VFS redacts sensitive paths in its own outcomes; keep them out of ours too.
+    const shownPath = envelope.pathOutcomes[0]?.virtualPath ?? virtualPath;
+    return denied(reason, { virtualPath: shownPath, vfsReceiptId: envelope.receiptId });
+  }
+
+  const content = (envelope.data as { content: string }).content;
+  const { text, ruleIds } = redactText(sliceLines(content, params.line, params.limit), options.redaction);
+  return [
+    { result: { content: text } },
+    {
+      decision: 'allowed',
+      reason: ruleIds.length > 0 ? `served_redacted:${ruleIds.join(',')}` : 'served',
+      virtualPath,
+      vfsReceiptId: envelope.receiptId,
+    },
+  ];
+}
+
+function requestPermission(params: Record<string, unknown>): [AcpClientReply, Decision] {
+  // Pick a reject option when the agent offers one; otherwise cancel.
+  const offered = Array.isArray(params.options) ? (params.options as PermissionOption[]) : [];
+  const reject = offered.find(option => option.kind === 'reject_once') ?? offered.find(option => option.kind === 'reject_always');
+  return [
+    { result: { outcome: reject?.optionId ? { outcome: 'selected', optionId: reject.optionId } : { outcome: 'cancelled' } } },
+    { decision: 'denied', reason: 'read_only_consult' },
+  ];
+}
+
+async function decide(
+  method: string,
+  params: Record<string, unknown>,
+  options: ReadOnlyClientPolicyOptions,
+): Promise<[AcpClientReply, Decision]> {
+  switch (method) {
+    case 'fs/read_text_file':
+      try {
+        return await readTextFile(params, options);
+      } catch (err) {
+        return denied(`vfs_error: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    case 'fs/write_text_file':
+      return denied('read_only_consult');
+    case 'session/request_permission':
+      return requestPermission(params);
+    default:
+      if (method.startsWith('terminal/')) return denied('terminal_not_offered');
+      return [
+        { error: { code: JSONRPC_METHOD_NOT_FOUND, message: `Method not found: ${method}` } },
+        { decision: 'unsupported', reason: 'method_not_found' },
+      ];
+  }
+}
+
+export function createReadOnlyClientPolicy(options: ReadOnlyClientPolicyOptions = {}): AcpClientPolicy {
+  const requests: AcpAgentRequestRecord[] = [];
+  return {
+    capabilities: READ_ONLY_CLIENT_CAPABILITIES,
+    requests,
+    async handle(method: string, params: unknown): Promise<AcpClientReply> {
+      // Reserve the slot on arrival so the record keeps request order even
+      // when a VFS read settles after a later, synchronous refusal.
+      const entry: AcpAgentRequestRecord = { method, decision: 'denied', reason: 'pending', timestamp: new Date().toISOString() };
+      requests.push(entry);
+      const args = params && typeof params === 'object' ? (params as Record<string, unknown>) : {};
+      const [reply, decision] = await decide(method, args, options);
+      Object.assign(entry, decision);
+      return reply;
+    },
+  };
+}
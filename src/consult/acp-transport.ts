@@ -20,6 +20,21 @@
  *   params.update.content.text;  turn-end from EITHER:
  *   a) a `session/update` notification with stopReason set, or
  *   b) the `session/prompt` JSON-RPC response body having stopReason set.
+ * Multi-turn (`consult --session`): the same connection takes further
+ *   session/prompt calls; a later process reattaches with `session/load`
+ *   when the agent advertises `agentCapabilities.loadSession`.
+ * Tool activity: `tool_call` / `tool_call_update` updates during a turn are
+ *   merged per toolCallId into `toolActivity` (kind, title, status, and
+ *   HMAC-hashed locations). The junction treats write-capable kinds as write
+ *   evidence, the way Tier-1 Gemini uses `stats.files`.
+ * Interruption (timeout or the caller's AbortSignal): the in-flight turn is
+ *   cancelled with a `session/cancel` notification and the agent gets a grace
+ *   period to end it (stopReason "cancelled"); only then is the child's
+ *   process group SIGKILLed. Before a session exists there is nothing to
+ *   cancel, so the group is killed straight away.
+ * Agent → client requests (`fs/read_text_file`, `session/request_permission`,
+ *   …) are answered by the connection's client policy (acp-client-policy.ts);
+ *   none is left pending, so a request never stalls the turn.
  *
  * Design ref: docs/loops/w274-cross-harness-consult/README.md §Wave-4 spike.
  */
@@ -27,6 +42,11 @@
 import { spawn } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
 
+import { hmacArg } from '../vfs/hash.js';
+import { createReadOnlyClientPolicy, type AcpClientPolicy } from './acp-client-policy.js';
+import { junctionCwd } from './junction-env.js';
+import { LEAF_KILL_GRACE_MS, signalProcessTree, terminateProcessTree } from './process-tree.js';
+
 // ─── JSON-RPC 2.0 wire types ──────────────────────────────────────────────────
 
 interface JsonRpcRequest {
@@ -49,7 +69,12 @@ interface JsonRpcNotification {
   params?: unknown;
 }
 
-type JsonRpcMessage = JsonRpcResponse | JsonRpcNotification;
+type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification;
+
+/** A request from the agent: carries both an id and a method. */
+function isAgentRequest(msg: JsonRpcMessage): msg is JsonRpcRequest {
+  return 'method' in msg && 'id' in msg && msg.id !== null && msg.id !== undefined;
+}
 
 function isResponse(msg: JsonRpcMessage): msg is JsonRpcResponse {
   return 'id' in msg;
@@ -61,6 +86,21 @@ function isNotification(msg: JsonRpcMessage): msg is JsonRpcNotification {
 
 // ─── Public types ─────────────────────────────────────────────────────────────
 
+/** ACP tool kinds that change the workspace; any of them breaks a read-only consult. */
+export const ACP_WRITE_TOOL_KINDS: readonly string[] = ['edit', 'delete', 'move', 'execute'];
+
+/** One tool call the agent reported during a turn, merged across its updates. */
+export interface AcpToolActivity {
+  toolCallId: string;
+  /** ACP tool kind (`read`, `edit`, `execute`, …); `other` when not reported. */
+  kind: string;
+  title?: string;
+  /** Last reported status (`pending`, `in_progress`, `completed`, `failed`). */
+  status?: string;
+  /** Files the tool touched, hashed like VFS receipt arguments. */
+  locations: Array<{ pathHash: string; line?: number }>;
+}
+
 /** Result returned by a successful ACP Tier-2 transport run. */
 export interface AcpTransportResult {
   /** Accumulated answer text from all agent_message_chunk notifications. */
@@ -73,6 +113,8 @@ export interface AcpTransportResult {
   stopReason?: string;
   /** Wall-clock duration of the full run (spawn → answer complete), in milliseconds. */
   durationMs: number;
+  /** Tool calls the agent reported while answering. */
+  toolActivity: AcpToolActivity[];
 }
 
 export interface AcpTransportOptions {
@@ -84,6 +126,16 @@ export interface AcpTransportOptions {
   timeoutMs?: number;
   /** Pre-sanitised env for the child process. */
   env?: NodeJS.ProcessEnv;
+  /** Called with each agent_message_chunk text as it arrives (streaming consults). */
+  onAnswerChunk?: (text: string) => void;
+  /** Called once session/new reports the answering model. */
+  onModelDetected?: (modelId: string) => void;
+  /** Answers agent → client requests. Defaults to a fresh read-only policy. */
+  clientPolicy?: AcpClientPolicy;
+  /** Cancels the run (`session/cancel`, then a hard kill after the grace period). */
+  signal?: AbortSignal;
+  /** Grace period between `session/cancel` and SIGKILL. Defaults to LEAF_KILL_GRACE_MS. */
+  cancelGraceMs?: number;
 }
 
 export type AcpTransportError =
@@ -92,98 +144,399 @@ export type AcpTransportError =
   | 'ACP_HANDSHAKE_FAILED'
   | 'ACP_SESSION_NEW_FAILED'
   | 'ACP_PROMPT_FAILED'
-  | 'ACP_EMPTY_ANSWER';
+  | 'ACP_EMPTY_ANSWER'
+  | 'ACP_CANCELLED';
 
 export interface AcpTransportFailure {
   ok: false;
   errorCode: AcpTransportError;
   error: string;
+  /** ACP_CANCELLED: answer text streamed before the turn stopped. */
+  partialAnswer?: string;
 }
 
 export type AcpTransportOutcome =
   | ({ ok: true } & AcpTransportResult)
   | AcpTransportFailure;
 
-// ─── Core implementation ──────────────────────────────────────────────────────
+// ─── Connection ───────────────────────────────────────────────────────────────
+
+/** Per-turn callbacks for AcpConnection.prompt. */
+export interface AcpPromptCallbacks {
+  onAnswerChunk?: (text: string) => void;
+}
+
+/** One answered turn. */
+export interface AcpTurnResult {
+  answerText: string;
+  stopReason?: string;
+  toolActivity: AcpToolActivity[];
+}
+
+interface PendingEntry {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+interface ActiveTurn {
+  answerText: string;
+  stopReason?: string;
+  toolCalls: Map<string, AcpToolActivity>;
+  ended: boolean;
+  callbacks: AcpPromptCallbacks;
+  resolve: (result: AcpTurnResult) => void;
+  reject: (err: Error) => void;
+  /** Settles (never rejects) once the turn has ended either way. */
+  settled: Promise<void>;
+}
 
 /**
- * Spawn `<harnessBin> --acp`, perform the ACP handshake, issue a prompt, and
- * accumulate the streamed answer.  Returns a structured result or a typed
- * failure — never throws.
+ * One `<harnessBin> --acp` child and its JSON-RPC plumbing.
+ *
+ * `runAcpTransport` opens one per consult and closes it after a single
+ * prompt. Consult sessions (consult-sessions.ts) keep one open and send
+ * follow-up prompts to the same sessionId. Only text streamed while a
+ * prompt is in flight counts as answer: the history an agent replays on
+ * `session/load` is ignored.
  */
-export async function runAcpTransport(options: AcpTransportOptions): Promise<AcpTransportOutcome> {
-  const { harnessBin, prompt, timeoutMs = 120_000, env = process.env } = options;
-  const started = Date.now();
+export class AcpConnection {
+  /** Captured stderr (noise only; surfaced in empty-answer errors). */
+  stderr = '';
+  /** `agentCapabilities` from the initialize result, once initialized. */
+  agentCapabilities: Record<string, unknown> = {};
+  /** Answers agent → client requests; swapped per turn by pooled sessions. */
+  clientPolicy: AcpClientPolicy;
+  /** Set when the binary could not be started (ENOENT, EACCES, …). */
+  spawnError: Error | undefined;
+
+  private readonly pending = new Map<number | string, PendingEntry>();
+  private lineBuffer = '';
+  private reqCounter = 0;
+  private turn: ActiveTurn | undefined;
+  private exited = false;
+  private readonly closedPromise: Promise<void>;
+
+  private constructor(
+    readonly harnessBin: string,
+    private readonly child: ReturnType<typeof spawn>,
+    clientPolicy: AcpClientPolicy,
+    /** The agent's working directory, sent again with session/new and session/load. */
+    readonly cwd: string,
+  ) {
+    this.clientPolicy = clientPolicy;
+    // Read stdout line by line, handle partial lines across chunks.
+    child.stdout!.on('data', (chunk: Buffer) => {
+      this.lineBuffer += chunk.toString('utf-8');
+      let nl: number;
+      while ((nl = this.lineBuffer.indexOf('\n')) >= 0) {
+        const line = this.lineBuffer.slice(0, nl).trim();
+        this.lineBuffer = this.lineBuffer.slice(nl + 1);
+        if (!line) continue;
+        let msg: JsonRpcMessage;
+        try {
+          msg = JSON.parse(line) as JsonRpcMessage;
+        } catch {
+          // Skip non-JSON lines (stderr-level noise occasionally leaks to stdout).
+          continue;
+        }
+        this.dispatchMessage(msg);
+      }
+    });
 
-  // ── 1. Spawn the harness in ACP mode ──────────────────────────────────────
-  let child: ReturnType<typeof spawn>;
-  try {
-    child = spawn(harnessBin, ['--acp'], {
+    // Collect stderr (noise only; not an error unless spawn fails).
+    child.stderr!.on('data', (chunk: Buffer) => {
+      this.stderr += chunk.toString('utf-8');
+    });
+
+    // A missing or unexecutable binary is reported asynchronously, as an
+    // 'error' event (followed by 'close'). Unhandled, it would take down the
+    // whole process — every other consult a `graphyn serve` daemon is running.
+    child.on('error', (err: Error) => {
+      if (child.pid === undefined) {
+        this.spawnError = err;
+        this.exited = true;
+      }
+      this.abort(err);
+    });
+    child.stdin!.on('error', () => { /* EPIPE from a child that is gone; 'close' settles the turn */ });
+
+    this.closedPromise = new Promise<void>((resolve) => {
+      child.on('close', () => {
+        this.exited = true;
+        // Drain partial buffer line.
+        if (this.lineBuffer.trim()) {
+          try {
+            this.dispatchMessage(JSON.parse(this.lineBuffer.trim()) as JsonRpcMessage);
+          } catch { /* ignore */ }
+        }
+        // If the harness exited before turning-ended, settle the prompt wait
+        // with whatever arrived.
+        this.endTurn(undefined);
+        this.rejectPending(new Error(`${harnessBin} --acp exited`));
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Spawn `<harnessBin> --acp`. A binary that cannot be started fails the
+   * first request with `spawnError` set; invalid spawn arguments throw.
+   */
+  static spawn(
+    harnessBin: string,
+    env: NodeJS.ProcessEnv = process.env,
+    clientPolicy: AcpClientPolicy = createReadOnlyClientPolicy(),
+  ): AcpConnection {
+    const cwd = junctionCwd();
+    const child = spawn(harnessBin, ['--acp'], {
       stdio: ['pipe', 'pipe', 'pipe'],
       env,
+      cwd,
+      // Own process group: interrupts reach the agent's helpers too (process-tree.ts).
+      detached: true,
     });
-  } catch (err) {
+    return new AcpConnection(harnessBin, child, clientPolicy, cwd);
+  }
+
+  /** True once the child has exited. */
+  get closed(): boolean {
+    return this.exited;
+  }
+
+  /** Answer text streamed so far in the current (or last) turn. */
+  get partialAnswer(): string {
+    return this.turn?.answerText ?? '';
+  }
+
+  /** Whether the agent advertised `agentCapabilities.loadSession`. */
+  get supportsLoadSession(): boolean {
+    return this.agentCapabilities.loadSession === true;
+  }
+
+  async initialize(): Promise<Record<string, unknown>> {
+    const result = await this.sendRequest('initialize', {
+      protocolVersion: 1,
+      clientInfo: { name: 'graphyn-consult', version: '1.0.0' },
+      clientCapabilities: this.clientPolicy.capabilities,
+    });
+    if (!result || typeof result !== 'object') {
+      throw new Error('initialize returned no result.');
+    }
+    const init = result as Record<string, unknown>;
+    const capabilities = init.agentCapabilities;
+    if (capabilities && typeof capabilities === 'object') {
+      this.agentCapabilities = capabilities as Record<string, unknown>;
+    }
+    return init;
+  }
+
+  // gemini@0.42+ requires BOTH cwd (absolute path) AND mcpServers (empty array
+  // is fine) in session/new params.  Without these two fields together the
+  // server returns {"code":-32603,"message":"Internal error"}.  The `id` field
+  // is optional (server mints its own sessionId regardless).
+  // Empirically verified 2026-05-28: {id} alone → -32603; {cwd,mcpServers:[]} → OK.
+  async newSession(): Promise<{ sessionId: string; modelId?: string }> {
+    const result = (await this.sendRequest('session/new', {
+      cwd: this.cwd,
+      mcpServers: [],
+    })) as Record<string, unknown> | undefined;
     return {
-      ok: false,
-      errorCode: 'ACP_SPAWN_ERROR',
-      error: `Failed to spawn ${harnessBin} --acp: ${err instanceof Error ? err.message : String(err)}`,
+      sessionId: typeof result?.sessionId === 'string' ? result.sessionId : randomUUID(),
+      ...(typeof result?.modelId === 'string' ? { modelId: result.modelId } : {}),
     };
   }
 
-  // ── 2. Wire line-buffered reader + request dispatcher ──────────────────────
-  // Track pending RPC calls: id → { resolve, reject }
-  type PendingEntry = {
-    resolve: (result: unknown) => void;
-    reject: (err: Error) => void;
-  };
-  const pending = new Map<number | string, PendingEntry>();
-  let lineBuffer = '';
-  let reqCounter = 0;
-
-  // Accumulated answer state
-  let answerText = '';
-  let turnEnded = false;
-  let stopReason: string | undefined;
-  let promptResolve: ((reason: string | undefined) => void) | undefined;
-  let promptReject: ((err: Error) => void) | undefined;
-
-  function nextId(): number {
-    return ++reqCounter;
+  /**
+   * Reattach to a session this agent persisted earlier. Only valid when
+   * `supportsLoadSession`; the agent replays the history as session/update
+   * notifications, which are not treated as answer text.
+   */
+  async loadSession(sessionId: string): Promise<{ modelId?: string }> {
+    const result = (await this.sendRequest('session/load', {
+      sessionId,
+      cwd: this.cwd,
+      mcpServers: [],
+    })) as Record<string, unknown> | undefined;
+    return typeof result?.modelId === 'string' ? { modelId: result.modelId } : {};
+  }
+
+  /**
+   * Send one prompt and wait for turn-end. The response from session/prompt
+   * may itself carry stopReason (Gemini path); otherwise a session/update
+   * notification does. Rejects if the connection is aborted meanwhile.
+   */
+  prompt(sessionId: string, text: string, callbacks: AcpPromptCallbacks = {}): Promise<AcpTurnResult> {
+    if (this.turn && !this.turn.ended) {
+      return Promise.reject(new Error('a prompt is already in flight on this ACP session'));
+    }
+    let settle!: Pick<ActiveTurn, 'resolve' | 'reject'>;
+    const turnEnded = new Promise<AcpTurnResult>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    this.turn = {
+      answerText: '',
+      toolCalls: new Map(),
+      ended: false,
+      callbacks,
+      ...settle,
+      settled: turnEnded.then(() => undefined, () => undefined),
+    };
+    // Fire-and-forget the RPC response registration — turn-end detection handles completion.
+    this.sendRequest('session/prompt', {
+      sessionId,
+      prompt: [{ type: 'text', text }],
+    }).catch(() => { /* surfaced through the turn promise */ });
+    return turnEnded;
+  }
+
+  /** Reject every pending call and the in-flight prompt (timeout path). */
+  abort(err: Error): void {
+    this.rejectPending(err);
+    if (this.turn && !this.turn.ended) {
+      this.turn.ended = true;
+      this.turn.reject(err);
+    }
+  }
+
+  /**
+   * Stop the in-flight turn. Sends `session/cancel` and waits up to
+   * `graceMs` for the agent to end the turn; if it does not (or no session
+   * exists yet), the process group is killed and pending calls reject with
+   * `reason`. Resolves true when the agent stopped on its own and the
+   * connection is still usable.
+   */
+  async interrupt(sessionId: string | undefined, reason: Error, graceMs = LEAF_KILL_GRACE_MS): Promise<boolean> {
+    const turn = this.turn;
+    if (sessionId && turn && !turn.ended && !this.exited) {
+      this.notify('session/cancel', { sessionId });
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([turn.settled, new Promise<void>(resolve => { timer = setTimeout(resolve, graceMs); })]);
+      clearTimeout(timer);
+      if (turn.ended) return true;
+    }
+    this.kill();
+    this.abort(reason);
+    return false;
+  }
+
+  /** Hard kill of the whole process group; used on timeout and failed handshakes. */
+  kill(): void {
+    signalProcessTree(this.child, 'SIGKILL');
+  }
+
+  /** Clean shutdown: close stdin, SIGTERM (SIGKILL after the grace period), and wait for exit. */
+  async close(): Promise<void> {
+    try { this.child.stdin!.end(); } catch { /* ignore */ }
+    if (!this.exited) terminateProcessTree(this.child);
+    await this.closedPromise;
+  }
+
+  private notify(method: string, params: unknown): void {
+    if (this.exited) return;
+    const notification: JsonRpcNotification = { jsonrpc: '2.0', method, params };
+    try {
+      this.child.stdin!.write(JSON.stringify(notification) + '\n');
+    } catch { /* the child is going away */ }
   }
 
-  function sendRequest(method: string, params: unknown): Promise<unknown> {
-    const id = nextId();
+  private sendRequest(method: string, params: unknown): Promise<unknown> {
+    const id = ++this.reqCounter;
     const req: JsonRpcRequest = { jsonrpc: '2.0', id, method, params };
     const line = JSON.stringify(req) + '\n';
 
     return new Promise((resolve, reject) => {
-      pending.set(id, { resolve, reject });
+      if (this.exited) {
+        reject(new Error(`${this.harnessBin} --acp exited`));
+        return;
+      }
+      this.pending.set(id, { resolve, reject });
       try {
-        child.stdin!.write(line);
+        this.child.stdin!.write(line);
       } catch (err) {
-        pending.delete(id);
+        this.pending.delete(id);
         reject(err instanceof Error ? err : new Error(String(err)));
       }
     });
   }
 
-  function dispatchMessage(msg: JsonRpcMessage): void {
+  private write(message: JsonRpcResponse): void {
+    if (this.exited) return;
+    try {
+      this.child.stdin!.write(JSON.stringify(message) + '\n');
+    } catch { /* the child is going away; its close handler settles the turn */ }
+  }
+
+  /** Answer one agent → client request through the client policy. */
+  private async answerAgentRequest(req: JsonRpcRequest): Promise<void> {
+    let reply;
+    try {
+      reply = await this.clientPolicy.handle(req.method, req.params);
+    } catch (err) {
+      reply = { error: { code: -32603, message: err instanceof Error ? err.message : String(err) } };
+    }
+    this.write({ jsonrpc: '2.0', id: req.id, ...reply });
+  }
+
+  private rejectPending(err: Error): void {
+    for (const entry of this.pending.values()) entry.reject(err);
+    this.pending.clear();
+  }
+
+  private endTurn(stopReason: string | undefined): void {
+    const turn = this.turn;
+    if (!turn || turn.ended) return;
+    turn.ended = true;
+    turn.stopReason = stopReason;
+    turn.resolve({
+      answerText: turn.answerText,
+      ...(stopReason ? { stopReason } : {}),
+      toolActivity: [...turn.toolCalls.values()],
+    });
+  }
+
+  /** Merge a tool_call / tool_call_update into the turn's activity. */
+  private recordToolCall(turn: ActiveTurn, update: Record<string, unknown>): void {
+    const toolCallId = update.toolCallId;
+    if (typeof toolCallId !== 'string') return;
+    const activity = turn.toolCalls.get(toolCallId) ?? { toolCallId, kind: 'other', locations: [] };
+    if (typeof update.kind === 'string') activity.kind = update.kind;
+    if (typeof update.title === 'string') activity.title = update.title;
+    if (typeof update.status === 'string') activity.status = update.status;
+    if (Array.isArray(update.locations)) {
+      for (const location of update.locations as Array<Record<string, unknown>>) {
+        if (typeof location?.path !== 'string') continue;
+        const pathHash = hmacArg(location.path);
+        const line = typeof location.line === 'number' ? location.line : undefined;
+        if (activity.locations.some(seen => seen.pathHash === pathHash && seen.line === line)) continue;
+        activity.locations.push({ pathHash, ...(line !== undefined ? { line } : {}) });
+      }
+    }
+    turn.toolCalls.set(toolCallId, activity);
+  }
+
+  private dispatchMessage(msg: JsonRpcMessage): void {
+    if (isAgentRequest(msg)) {
+      void this.answerAgentRequest(msg);
+      return;
+    }
+
     if (isResponse(msg)) {
-      const entry = msg.id !== null ? pending.get(msg.id) : undefined;
+      const entry = msg.id !== null ? this.pending.get(msg.id) : undefined;
       if (!entry) return;
-      pending.delete(msg.id!);
+      this.pending.delete(msg.id!);
       if (msg.error) {
-        entry.reject(new Error(`JSON-RPC error ${msg.error.code}: ${msg.error.message}`));
+        const err = new Error(`JSON-RPC error ${msg.error.code}: ${msg.error.message}`);
+        entry.reject(err);
+        // A failed session/prompt ends the turn with that error.
+        if (this.turn && !this.turn.ended) {
+          this.turn.ended = true;
+          this.turn.reject(err);
+        }
       } else {
         // Check if session/prompt response itself carries a stopReason.
         const result = msg.result as Record<string, unknown> | undefined;
-        if (result && typeof result.stopReason === 'string' && !turnEnded) {
-          stopReason = result.stopReason;
-          turnEnded = true;
-          if (promptResolve) {
-            promptResolve(stopReason);
-            promptResolve = undefined;
-          }
+        if (result && typeof result.stopReason === 'string') {
+          this.endTurn(result.stopReason);
         }
         entry.resolve(msg.result);
       }
@@ -193,205 +546,183 @@ export async function runAcpTransport(options: AcpTransportOptions): Promise<Acp
     if (isNotification(msg) && msg.method === 'session/update') {
       const params = msg.params as Record<string, unknown> | undefined;
       const update = params?.update as Record<string, unknown> | undefined;
-      if (!update) return;
+      const turn = this.turn;
+      if (!update || !turn || turn.ended) return;
 
       const sessionUpdate = update.sessionUpdate as string | undefined;
       const content = update.content as Record<string, unknown> | undefined;
 
       if (sessionUpdate === 'agent_message_chunk' && typeof content?.text === 'string') {
-        answerText += content.text;
+        turn.answerText += content.text;
+        if (content.text) turn.callbacks.onAnswerChunk?.(content.text);
+      }
+      if (sessionUpdate === 'tool_call' || sessionUpdate === 'tool_call_update') {
+        this.recordToolCall(turn, update);
       }
 
       // Turn-end via notification (notification path = primary for Claude-style harnesses).
       const notifStopReason = update.stopReason as string | undefined;
-      if (notifStopReason && !turnEnded) {
-        stopReason = notifStopReason;
-        turnEnded = true;
-        if (promptResolve) {
-          promptResolve(notifStopReason);
-          promptResolve = undefined;
-        }
-      }
+      if (notifStopReason) this.endTurn(notifStopReason);
     }
   }
+}
 
-  // Read stdout line by line, handle partial lines across chunks.
-  child.stdout!.on('data', (chunk: Buffer) => {
-    lineBuffer += chunk.toString('utf-8');
-    let nl: number;
-    while ((nl = lineBuffer.indexOf('\n')) >= 0) {
-      const line = lineBuffer.slice(0, nl).trim();
-      lineBuffer = lineBuffer.slice(nl + 1);
-      if (!line) continue;
-      let msg: JsonRpcMessage;
-      try {
-        msg = JSON.parse(line) as JsonRpcMessage;
-      } catch {
-        // Skip non-JSON lines (stderr-level noise occasionally leaks to stdout).
-        continue;
-      }
-      dispatchMessage(msg);
-    }
-  });
-
-  // Collect stderr (noise only; not an error unless spawn fails).
-  let stderrBuf = '';
-  child.stderr!.on('data', (chunk: Buffer) => {
-    stderrBuf += chunk.toString('utf-8');
-  });
-
-  // ── 3. Global timeout ──────────────────────────────────────────────────────
-  let timedOut = false;
-  const timer = setTimeout(() => {
-    timedOut = true;
-    try { child.kill('SIGKILL'); } catch { /* ignore */ }
-    // Reject all pending calls.
-    for (const entry of pending.values()) {
-      entry.reject(new Error('ACP transport timeout'));
-    }
-    pending.clear();
-    if (promptReject) {
-      promptReject(new Error('ACP transport timeout'));
-      promptReject = undefined;
-    }
-  }, timeoutMs);
+// ─── Interrupts ───────────────────────────────────────────────────────────────
+
+export type AcpInterruptReason = 'timeout' | 'cancelled';
+
+/** Timeout + AbortSignal handling around one ACP run, shared with pooled session turns. */
+export interface AcpRunGuard {
+  /** Set once the run was interrupted. */
+  readonly reason: AcpInterruptReason | undefined;
+  /** True when the agent ended the turn itself after `session/cancel`. */
+  readonly graceful: boolean;
+  /** The sessionId `session/cancel` targets, once known. */
+  sessionId?: string;
+  /** Resolves once an interrupt has finished (cancel acknowledged or child killed). */
+  readonly done: Promise<void>;
+  dispose(): void;
+}
 
-  // Cleanup on child close.
-  const closedPromise = new Promise<void>((resolve) => {
-    child.on('close', () => {
+/**
+ * Arm the run timeout and the caller's AbortSignal against `getConnection()`.
+ * Both interrupt the same way (AcpConnection.interrupt); `reason` tells the
+ * caller which error to report.
+ */
+export function guardAcpRun(
+  getConnection: () => AcpConnection | undefined,
+  options: Pick<AcpTransportOptions, 'timeoutMs' | 'signal' | 'cancelGraceMs'>,
+): AcpRunGuard {
+  let finish: () => void = () => undefined;
+  const guard = {
+    reason: undefined as AcpInterruptReason | undefined,
+    graceful: false,
+    sessionId: undefined as string | undefined,
+    done: new Promise<void>(resolve => { finish = resolve; }),
+    dispose: (): void => {
       clearTimeout(timer);
-      // Drain partial buffer line.
-      if (lineBuffer.trim()) {
-        try {
-          const msg = JSON.parse(lineBuffer.trim()) as JsonRpcMessage;
-          dispatchMessage(msg);
-        } catch { /* ignore */ }
-      }
-      // If the harness exited before turning-ended, resolve the prompt wait.
-      if (!turnEnded && promptResolve) {
-        promptResolve(undefined);
-        promptResolve = undefined;
-      }
-      resolve();
+      options.signal?.removeEventListener('abort', onAbort);
+    },
+  };
+  const interrupt = (reason: AcpInterruptReason): void => {
+    if (guard.reason) return;
+    guard.reason = reason;
+    const connection = getConnection();
+    if (!connection) {
+      finish();
+      return;
+    }
+    const error = new Error(reason === 'timeout' ? 'ACP transport timeout' : 'ACP consult cancelled');
+    void connection.interrupt(guard.sessionId, error, options.cancelGraceMs).then(graceful => {
+      guard.graceful = graceful;
+      finish();
     });
-  });
+  };
+  const onAbort = (): void => interrupt('cancelled');
+  const timer = setTimeout(() => interrupt('timeout'), options.timeoutMs ?? 120_000);
+  if (options.signal?.aborted) onAbort();
+  else options.signal?.addEventListener('abort', onAbort, { once: true });
+  return guard;
+}
 
-  // ── 4. Handshake: initialize ───────────────────────────────────────────────
-  let initResult: unknown;
-  try {
-    initResult = await sendRequest('initialize', {
-      protocolVersion: 1,
-      clientInfo: { name: 'graphyn-consult', version: '1.0.0' },
-    });
-  } catch (err) {
-    clearTimeout(timer);
-    try { child.kill('SIGKILL'); } catch { /* ignore */ }
-    if (timedOut) {
-      return { ok: false, errorCode: 'ACP_TIMEOUT', error: 'Timed out during ACP initialize handshake.' };
-    }
-    return {
-      ok: false,
-      errorCode: 'ACP_HANDSHAKE_FAILED',
-      error: `initialize failed: ${err instanceof Error ? err.message : String(err)}`,
-    };
+/** Failure for an interrupted run; `phase` names what was in flight for timeouts. */
+export function interruptedFailure(guard: AcpRunGuard, phase: string, partialAnswer: string): AcpTransportFailure {
+  if (guard.reason === 'cancelled') {
+    return { ok: false, errorCode: 'ACP_CANCELLED', error: 'Consult cancelled before the agent finished.', partialAnswer };
   }
+  return { ok: false, errorCode: 'ACP_TIMEOUT', error: `Timed out ${phase}.` };
+}
 
-  if (!initResult || typeof initResult !== 'object') {
-    clearTimeout(timer);
-    try { child.kill('SIGKILL'); } catch { /* ignore */ }
-    return { ok: false, errorCode: 'ACP_HANDSHAKE_FAILED', error: 'initialize returned no result.' };
-  }
+// ─── One-shot transport ───────────────────────────────────────────────────────
 
-  // ── 5. session/new ────────────────────────────────────────────────────────
-  // gemini@0.42+ requires BOTH cwd (absolute path) AND mcpServers (empty array
-  // is fine) in session/new params.  Without these two fields together the
-  // server returns {"code":-32603,"message":"Internal error"}.  The `id` field
-  // is optional (server mints its own sessionId regardless).
-  // Empirically verified 2026-05-28: {id} alone → -32603; {cwd,mcpServers:[]} → OK.
-  let sessionNewResult: unknown;
+/**
+ * Spawn `<harnessBin> --acp`, perform the ACP handshake, issue a prompt, and
+ * accumulate the streamed answer.  Returns a structured result or a typed
+ * failure — never throws.
+ */
+export async function runAcpTransport(options: AcpTransportOptions): Promise<AcpTransportOutcome> {
+  const { harnessBin, prompt, env = process.env, onAnswerChunk, onModelDetected, clientPolicy } = options;
+  const started = Date.now();
+
+  // ── 1. Spawn the harness in ACP mode ──────────────────────────────────────
+  let connection: AcpConnection;
   try {
-    sessionNewResult = await sendRequest('session/new', {
-      cwd: process.cwd(),
-      mcpServers: [],
-    });
+    connection = AcpConnection.spawn(harnessBin, env, clientPolicy);
   } catch (err) {
-    clearTimeout(timer);
-    try { child.kill('SIGKILL'); } catch { /* ignore */ }
-    if (timedOut) {
-      return { ok: false, errorCode: 'ACP_TIMEOUT', error: 'Timed out during session/new.' };
-    }
     return {
       ok: false,
-      errorCode: 'ACP_SESSION_NEW_FAILED',
-      error: `session/new failed: ${err instanceof Error ? err.message : String(err)}`,
+      errorCode: 'ACP_SPAWN_ERROR',
+      error: `Failed to spawn ${harnessBin} --acp: ${err instanceof Error ? err.message : String(err)}`,
     };
   }
 
-  const snr = sessionNewResult as Record<string, unknown> | undefined;
-  const sessionId = (typeof snr?.sessionId === 'string' ? snr.sessionId : randomUUID());
-  const modelId = typeof snr?.modelId === 'string' ? snr.modelId : undefined;
+  // ── 2. Timeout + cancellation ──────────────────────────────────────────────
+  const guard = guardAcpRun(() => connection, options);
+  const failWith = (errorCode: AcpTransportError, error: string): AcpTransportFailure => {
+    guard.dispose();
+    connection.kill();
+    return { ok: false, errorCode, error };
+  };
+  const interrupted = async (phase: string): Promise<AcpTransportFailure> => {
+    await guard.done;
+    guard.dispose();
+    connection.kill();
+    return interruptedFailure(guard, phase, connection.partialAnswer);
+  };
 
-  // ── 6. session/prompt ─────────────────────────────────────────────────────
-  // The response from session/prompt may itself carry stopReason (Gemini path).
-  // Notifications carry agent_message_chunk text chunks.
-  // We wait until EITHER path signals turn-end.
-  const turnEndedPromise = new Promise<string | undefined>((resolve, reject) => {
-    promptResolve = resolve;
-    promptReject = reject;
-  });
+  // ── 3. Handshake: initialize ───────────────────────────────────────────────
+  try {
+    await connection.initialize();
+  } catch (err) {
+    if (guard.reason) return interrupted('during ACP initialize handshake');
+    if (connection.spawnError) return failWith('ACP_SPAWN_ERROR', `Failed to spawn ${harnessBin} --acp: ${connection.spawnError.message}`);
+    const message = err instanceof Error ? err.message : String(err);
+    return failWith('ACP_HANDSHAKE_FAILED', message.startsWith('initialize') ? message : `initialize failed: ${message}`);
+  }
+  if (guard.reason) return interrupted('during ACP initialize handshake');
 
+  // ── 4. session/new ────────────────────────────────────────────────────────
+  let session: { sessionId: string; modelId?: string };
   try {
-    sendRequest('session/prompt', {
-      sessionId,
-      prompt: [{ type: 'text', text: prompt }],
-    });
-    // Fire-and-forget the RPC response registration — turn-end detection handles completion.
+    session = await connection.newSession();
   } catch (err) {
-    clearTimeout(timer);
-    try { child.kill('SIGKILL'); } catch { /* ignore */ }
-    return {
-      ok: false,
-      errorCode: 'ACP_PROMPT_FAILED',
-      error: `session/prompt dispatch failed: ${err instanceof Error ? err.message : String(err)}`,
-    };
+    if (guard.reason) return interrupted('during session/new');
+    return failWith('ACP_SESSION_NEW_FAILED', `session/new failed: ${err instanceof Error ? err.message : String(err)}`);
   }
+  if (guard.reason) return interrupted('during session/new');
+  guard.sessionId = session.sessionId;
+  if (session.modelId) onModelDetected?.(session.modelId);
 
-  // Wait for turn-end or error.
+  // ── 5. session/prompt — wait until EITHER path signals turn-end ───────────
+  let turn: AcpTurnResult;
   try {
-    await turnEndedPromise;
+    turn = await connection.prompt(session.sessionId, prompt, { onAnswerChunk });
   } catch (err) {
-    clearTimeout(timer);
-    try { child.kill('SIGKILL'); } catch { /* ignore */ }
-    if (timedOut) {
-      return { ok: false, errorCode: 'ACP_TIMEOUT', error: 'Timed out waiting for ACP answer.' };
-    }
-    return {
-      ok: false,
-      errorCode: 'ACP_PROMPT_FAILED',
-      error: `session/prompt error: ${err instanceof Error ? err.message : String(err)}`,
-    };
+    if (guard.reason) return interrupted('waiting for ACP answer');
+    return failWith('ACP_PROMPT_FAILED', `session/prompt error: ${err instanceof Error ? err.message : String(err)}`);
   }
+  // A turn the agent ended after session/cancel still reports the interrupt.
+  if (guard.reason) return interrupted('waiting for ACP answer');
 
-  // ── 7. Drain + clean shutdown ──────────────────────────────────────────────
-  clearTimeout(timer);
-  try { child.stdin!.end(); } catch { /* ignore */ }
-  try { child.kill('SIGTERM'); } catch { /* ignore */ }
-  await closedPromise;
+  // ── 6. Drain + clean shutdown ──────────────────────────────────────────────
+  guard.dispose();
+  await connection.close();
 
-  if (!answerText.trim()) {
+  if (!turn.answerText.trim()) {
     return {
       ok: false,
       errorCode: 'ACP_EMPTY_ANSWER',
-      error: `${harnessBin} --acp returned no answer text. stderr: ${stderrBuf.trim().slice(0, 200)}`,
+      error: `${harnessBin} --acp returned no answer text. stderr: ${connection.stderr.trim().slice(0, 200)}`,
     };
   }
 
   return {
     ok: true,
-    answerText: answerText.trim(),
-    sessionId,
-    modelId,
-    stopReason,
+    answerText: turn.answerText.trim(),
+    sessionId: session.sessionId,
+    modelId: session.modelId,
+    stopReason: turn.stopReason,
     durationMs: Date.now() - started,
+    toolActivity: turn.toolActivity,
   };
 }
@@ -0,0 +1,154 @@
+/**
+ * Outbound answer scan — the inbound guardrails, run on the way back.
+ *
+ * A leaf's answer goes straight into the calling agent's context, and from
+ * there down the rest of the chain. Before `runHarnessConsult` returns it,
+ * the answer goes through:
+ *
+ *   - the same secret rule engine as the question (utils/secret-redaction.ts,
+ *     consult.json `redaction`). Matches are always replaced with `[REDACTED]`.
+ *   - a prompt-injection check for text aimed at the caller rather than
+ *     the user: "ignore previous instructions", chat-role tags, tool-call
+ *     payloads. Turned off with consult.json `outbound.injectionCheck: false`.
+ *
+ * The policy (`--outbound-policy`, consult.json `outbound.policy`) decides
+ * what a finding does. `annotate` (default) returns the redacted answer and
+ * records the findings on the receipt. `block` fails the consult with
+ * HARNESS_OUTPUT_BLOCKED instead, and holds back stream deltas so nothing
+ * unscanned leaves before the verdict.
+ *
+ * Stream deltas are redacted too, but a chunk boundary can split a secret so
+ * that neither half matches. `createDeltaRedactor` releases streamed text a
+ * whole line at a time (a PEM key block only once it is complete) and
+ * redacts what it releases.
+ *
+ * Findings are rule and marker ids only, never the matched text.
+ */
+
+import { redactText, type RedactionOptions } from '../utils/secret-redaction.js';
+import { loadConsultConfig } from './consult-config.js';
+
+export const OUTBOUND_POLICIES = ['annotate', 'block'] as const;
+export type OutboundPolicy = (typeof OUTBOUND_POLICIES)[number];
+
+/** What the outbound scan found in one answer (`receipt.outbound`). */
+export interface OutboundScan {
+  policy: OutboundPolicy;
+  /** Secret rules that fired on the answer; their matches were replaced. */
+  redactionRuleIds: string[];
+  /** Prompt-injection markers found in the answer. */
+  injectionMarkers: string[];
+}
+
+export interface OutboundSettings {
+  policy: OutboundPolicy;
+  injectionCheck: boolean;
+  redaction?: RedactionOptions;
+}
+
+interface InjectionMarker {
+  id: string;
+  pattern: RegExp;
+}
+
+/**
+ * Text that addresses the calling agent instead of answering it. Kept
+ * narrow: an answer that merely discusses prompts should not trip these.
+ */
+export const INJECTION_MARKERS: readonly InjectionMarker[] = [
+  {
+    id: 'ignore-instructions',
+    pattern: /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+|the\s+|your\s+)*(?:previous|prior|above|earlier|preceding|system)\s+(?:instructions|prompts?|directions|rules|messages)\b/i,
+  },
+  {
+    id: 'role-override',
+    pattern: /\b(?:you are now (?:an?|acting as)\b|from now on,? you (?:are|will|must)\b|new (?:system )?instructions?:)/i,
+  },
+  {
+    id: 'chat-role-tag',
+    pattern: /<\|(?:im_start|im_end|system|endoftext)\|>|<\/?\s*(?:system|assistant)\s*>|^\s*(?:system|assistant)\s*:\s/im,
+  },
+  {
+    id: 'tool-call-payload',
+    pattern: /<\/?(?:function_calls|invoke|tool_use|tool_call)\b|"(?:tool_calls|function_call)"\s*:|"type"\s*:\s*"tool_use"/i,
+  },
+];
+
+export function isOutboundPolicy(value: unknown): value is OutboundPolicy {
+  return typeof value === 'string' && (OUTBOUND_POLICIES as readonly string[]).includes(value);
+}
+
+/** `--outbound-policy` wins, then consult.json `outbound`; defaults to annotate with the injection check on. */
+export function resolveOutboundSettings(requested?: OutboundPolicy): OutboundSettings {
+  const config = loadConsultConfig();
+  const configured = config.outbound?.policy;
+  return {
+    policy: requested ?? (isOutboundPolicy(configured) ? configured : 'annotate'),
+    injectionCheck: config.outbound?.injectionCheck !== false,
+    redaction: config.redaction,
+  };
+}
+
+export function findInjectionMarkers(text: string): string[] {
+  return INJECTION_MARKERS.filter(marker => marker.pattern.test(text)).map(marker => marker.id);
+}
+
+/** Redact secrets in `answer` and look for injection markers. */
+export function scanConsultAnswer(answer: string, settings: OutboundSettings): { text: string; scan: OutboundScan } {
+  const { text, ruleIds } = redactText(answer, settings.redaction);
+  return {
+    text,
+    scan: {
+      policy: settings.policy,
+      redactionRuleIds: ruleIds,
+      injectionMarkers: settings.injectionCheck ? findInjectionMarkers(text) : [],
+    },
+  };
+}
+
+/** True when the scan found anything. */
+export function hasOutboundFindings(scan: OutboundScan): boolean {
+  return scan.redactionRuleIds.length > 0 || scan.injectionMarkers.length > 0;
+}
+
+const PEM_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----/g;
+const PEM_END = /-----END [A-Z0-9 ]*PRIVATE KEY-----/;
+
+/** Offset of the first private-key block in `text` that has no END line yet. */
+function openPemBlockStart(text: string): number | undefined {
+  for (const match of text.matchAll(PEM_BEGIN)) {
+    if (!PEM_END.test(text.slice(match.index))) return match.index;
+  }
+  return undefined;
+}
+
+export interface DeltaRedactor {
+  /** Add a streamed chunk; returns the redacted text now safe to emit ('' while buffering). */
+  push(chunk: string): string;
+  /** End of stream: the rest of the buffer, redacted. */
+  flush(): string;
+}
+
+/**
+ * Buffer streamed answer text to line boundaries before redacting it, so
+ * every rule sees a whole line (and a whole PEM block) at once.
+ */
+export function createDeltaRedactor(redaction?: RedactionOptions): DeltaRedactor {
+  let pending = '';
+  const release = (text: string): string => (text ? redactText(text, redaction).text : '');
+  return {
+    push(chunk) {
+      pending += chunk;
+      let cut = pending.lastIndexOf('\n') + 1;
+      cut = openPemBlockStart(pending.slice(0, cut)) ?? cut;
+      const ready = pending.slice(0, cut);
+      pending = pending.slice(cut);
+      return release(ready);
+    },
+    flush() {
+      const rest = pending;
+      pending = '';
+      return release(rest);
+    },
+  };
+}
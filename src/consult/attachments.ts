@@ -0,0 +1,98 @@
+/**
+ * Consult attachments — repository files handed to a leaf with `--attach`.
+ *
+ * Files are read through the VFS (`executeFsCommand` `cat`), never straight
+ * from disk, so the runtime grant, `evaluatePathPolicy`, sensitive-path
+ * denial, and VFS receipts apply exactly as they do for `graphyn fs cat`.
+ * Every read, allowed or denied, leaves a VFS receipt; the consult records
+ * those receipt ids so an auditor can join the two logs.
+ *
+ * Content is inlined by transform stage 3 and redacted by stage 4 with the
+ * question. Each file is capped at MAX_ATTACHMENT_CHARS (the tail is cut and
+ * marked); once MAX_ATTACHMENTS_TOTAL_CHARS is used up, further attachments
+ * are refused rather than silently dropped.
+ */
+
+import { executeFsCommand } from '../vfs/service.js';
+import type { FsGlobalOptions } from '../vfs/types.js';
+import { junctionFsOptions } from './junction-env.js';
+
+export const MAX_ATTACHMENTS = 8;
+export const MAX_ATTACHMENT_CHARS = 32_000;
+export const MAX_ATTACHMENTS_TOTAL_CHARS = 96_000;
+
+/** One attached file as it is inlined into the question. */
+export interface ConsultAttachment {
+  virtualPath: string;
+  /** Possibly truncated; redaction happens later, in transform stage 4. */
+  content: string;
+  /** `sha256:` of the full file as read by the VFS. */
+  contentHash: string;
+  vfsReceiptId: string;
+  truncated: boolean;
+}
+
+export type AttachmentReadResult =
+  | { ok: true; attachments: ConsultAttachment[]; vfsReceiptIds: string[] }
+  | { ok: false; virtualPath: string; reason: string; vfsReceiptIds: string[] };
+
+interface CatData {
+  path: string;
+  content: string;
+  contentHash: string;
+}
+
+/**
+ * Read every attachment through the VFS, in order. Stops at the first
+ * refusal: a consult never runs with a partial set of the files it was
+ * asked to look at.
+ */
+export async function readConsultAttachments(
+  virtualPaths: string[],
+  options: FsGlobalOptions = junctionFsOptions(),
+): Promise<AttachmentReadResult> {
+  const attachments: ConsultAttachment[] = [];
+  const vfsReceiptIds: string[] = [];
+  let remainingChars = MAX_ATTACHMENTS_TOTAL_CHARS;
+
+  if (virtualPaths.length > MAX_ATTACHMENTS) {
+    return {
+      ok: false,
+      virtualPath: virtualPaths[MAX_ATTACHMENTS],
+      reason: `at most ${MAX_ATTACHMENTS} attachments per consult`,
+      vfsReceiptIds,
+    };
+  }
+
+  for (const virtualPath of virtualPaths) {
+    if (remainingChars <= 0) {
+      return { ok: false, virtualPath, reason: `attachment budget of ${MAX_ATTACHMENTS_TOTAL_CHARS} chars used up`, vfsReceiptIds };
+    }
+
+    const { envelope } = await executeFsCommand(['cat', virtualPath], options);
+    if (envelope.receiptId) vfsReceiptIds.push(envelope.receiptId);
+    if (envelope.status !== 'ok') {
+      const reason = envelope.error?.code ?? envelope.pathOutcomes[0]?.reasonCode ?? envelope.status;
+      return { ok: false, virtualPath, reason, vfsReceiptIds };
+    }
+
+    const data = envelope.data as CatData;
+    if (data.content.includes('\u0000')) {
+      return { ok: false, virtualPath, reason: 'binary_file', vfsReceiptIds };
+    }
+
+    const limit = Math.min(MAX_ATTACHMENT_CHARS, remainingChars);
+    const truncated = data.content.length > limit;
+    const content = truncated ? data.content.slice(0, limit) : data.content;
+    remainingChars -= content.length;
+    attachments.push({
+      virtualPath: data.path,
+      content,
+      contentHash: data.contentHash,
+      vfsReceiptId: envelope.receiptId,
+      truncated,
+    });
+  }
+
+  return { ok: true, attachments, vfsReceiptIds };
+}
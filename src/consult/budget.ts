@@ -0,0 +1,158 @@
+/**
+ * Junction budget — per-trace USD spend tracking for consult chains.
+ *
+ * The depth cap (G3) bounds how deep an agent-calling-agent chain can go, not
+ * how much it costs: three levels of fan-out can still burn through a lot of
+ * tokens. Every answered consult records its token usage, priced with a
+ * per-model cost map, in a ledger keyed by the junction trace id:
+ *
+ *   ~/.graphyn/consult/ledger/<trace>.jsonl
+ *
+ * Before a leaf is spawned the junction sums the trace's ledger and refuses
+ * with JUNCTION_BUDGET_EXCEEDED once the limit is reached. The limit comes
+ * from `--budget-usd`, else `budget.maxUsdPerTrace` in consult.json. A parent
+ * consult sets GRAPHYN_JUNCTION_BUDGET_USD so nested leaves inherit its
+ * limit; a nested consult can lower it but never raise it. Without a limit
+ * spend is still recorded, never enforced.
+ *
+ * Leaves that do not report usage (the ACP tier, most declarative harnesses)
+ * are recorded with zero cost.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { sha256Hex } from '../vfs/hash.js';
+import { graphynHomeDir } from '../vfs/paths.js';
+import { loadConsultConfig, type ModelPrice } from './consult-config.js';
+import { junctionEnv } from './junction-env.js';
+
+/** Token counts reported by a leaf, per answering model. */
+export interface LeafUsage {
+  models: Array<{
+    model?: string;
+    inputTokens: number;
+    outputTokens: number;
+  }>;
+  /** Total cost when the leaf reports it itself (claude `total_cost_usd`). */
+  reportedCostUsd?: number;
+}
+
+export interface ConsultSpend {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** 'reported' when the leaf supplied the cost, 'estimated' from the cost map. */
+  costSource: 'reported' | 'estimated';
+}
+
+export interface LedgerEntry extends ConsultSpend {
+  timestamp: string;
+  toHarness: string;
+  model?: string;
+}
+
+/**
+ * Published list prices, USD per million tokens, keyed by model id prefix.
+ * Overridable per prefix through `pricing` in consult.json.
+ */
+export const DEFAULT_MODEL_PRICES: Readonly<Record<string, ModelPrice>> = {
+  'claude-opus': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-haiku': { inputPerMTok: 1, outputPerMTok: 5 },
+  'gemini-2.5-pro': { inputPerMTok: 1.25, outputPerMTok: 10 },
+  'gemini-2.5-flash': { inputPerMTok: 0.3, outputPerMTok: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  'gpt-5': { inputPerMTok: 1.25, outputPerMTok: 10 },
+  'gpt-5-mini': { inputPerMTok: 0.25, outputPerMTok: 2 },
+  'o3': { inputPerMTok: 2, outputPerMTok: 8 },
+  'o4-mini': { inputPerMTok: 1.1, outputPerMTok: 4.4 },
+};
+
+/** Priced as the most expensive tier so an unknown model never under-counts. */
+const UNKNOWN_MODEL_PRICE: ModelPrice = { inputPerMTok: 15, outputPerMTok: 75 };
+
+/** Model assumed when a leaf reports usage without naming the model (codex --json). */
+const HARNESS_DEFAULT_MODELS: Readonly<Record<string, string>> = {
+  codex: 'gpt-5',
+  gemini: 'gemini-2.5-pro',
+  claude: 'claude-sonnet',
+};
+
+export function consultLedgerDir(): string {
+  return path.join(graphynHomeDir(), 'consult', 'ledger');
+}
+
+/** Ledger file for a trace. Trace ids from the env are untrusted: hash unsafe ones. */
+function ledgerPath(traceId: string): string {
+  const name = /^[A-Za-z0-9._-]{1,128}$/.test(traceId) ? traceId : sha256Hex(traceId);
+  return path.join(consultLedgerDir(), `${name}.jsonl`);
+}
+
+function priceFor(model: string | undefined, prices: Record<string, ModelPrice>): ModelPrice {
+  if (!model) return UNKNOWN_MODEL_PRICE;
+  let best: string | undefined;
+  for (const prefix of Object.keys(prices)) {
+    if (model.startsWith(prefix) && (!best || prefix.length > best.length)) best = prefix;
+  }
+  return best ? prices[best] : UNKNOWN_MODEL_PRICE;
+}
+
+/** Price one consult's usage. Leaf-reported cost wins over the cost map. */
+export function priceLeafUsage(toHarness: string, usage: LeafUsage, requestedModel?: string): ConsultSpend {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...(loadConsultConfig().pricing ?? {}) };
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let estimated = 0;
+  for (const entry of usage.models) {
+    inputTokens += entry.inputTokens;
+    outputTokens += entry.outputTokens;
+    const price = priceFor(entry.model ?? requestedModel ?? HARNESS_DEFAULT_MODELS[toHarness], prices);
+    estimated += (entry.inputTokens * price.inputPerMTok + entry.outputTokens * price.outputPerMTok) / 1_000_000;
+  }
+  if (typeof usage.reportedCostUsd === 'number' && Number.isFinite(usage.reportedCostUsd)) {
+    return { inputTokens, outputTokens, costUsd: usage.reportedCostUsd, costSource: 'reported' };
+  }
+  return { inputTokens, outputTokens, costUsd: estimated, costSource: 'estimated' };
+}
+
+/**
+ * Effective spend limit for a consult, or undefined when none is configured.
+ * Non-positive or non-numeric values are ignored. The inherited limit is a
+ * ceiling: the smaller of it and this consult's own limit applies.
+ */
+export function resolveBudgetUsd(explicit?: number): number | undefined {
+  const valid = (value: number | undefined): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+  const own = valid(explicit) ?? valid(loadConsultConfig().budget?.maxUsdPerTrace);
+  const inherited = valid(junctionEnv().GRAPHYN_JUNCTION_BUDGET_USD ? Number(junctionEnv().GRAPHYN_JUNCTION_BUDGET_USD) : undefined);
+  if (own === undefined || inherited === undefined) return own ?? inherited;
+  return Math.min(own, inherited);
+}
+
+/** Total USD recorded for a trace so far. Unreadable rows count as zero. */
+export function traceSpendUsd(traceId: string): number {
+  const filePath = ledgerPath(traceId);
+  if (!fs.existsSync(filePath)) return 0;
+  let total = 0;
+  for (const line of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as Partial<LedgerEntry>;
+      if (typeof entry.costUsd === 'number' && Number.isFinite(entry.costUsd)) total += entry.costUsd;
+    } catch {
+      // Skip malformed rows.
+    }
+  }
+  return total;
+}
+
+/** Append one consult's spend to the trace ledger. Never throws. */
+export function recordTraceSpend(traceId: string, entry: LedgerEntry): void {
+  try {
+    fs.mkdirSync(consultLedgerDir(), { recursive: true });
+    fs.appendFileSync(ledgerPath(traceId), `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+  } catch {
+    // Spend tracking must never fail a consult that already answered.
+  }
+}
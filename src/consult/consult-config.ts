@@ -0,0 +1,180 @@
+/**
+ * Consult configuration — `consult.json` settings for the A2A junction.
+ *
+ *   ~/.graphyn/consult.json        user-level
+ *   <cwd>/.graphyn/consult.json    project-level (wins per section key)
+ *
+ * A project file comes with whatever repo was cloned, so settings that guard
+ * the junction only take a project value that is stricter than the user's:
+ * a lower budget cap or nesting depth, extra redaction packs and rules, the
+ * `block` outbound policy, the injection check or `verifyFs` turned on, the
+ * response cache turned off or given a shorter TTL. `pricing`,
+ * `redaction.disabledRules`, `concurrency` (slots are machine-wide) and
+ * `fallback` (it picks which vendors see the question) are read from the
+ * user file only.
+ *
+ * Every section is optional; a missing or unreadable file is treated as
+ * empty so a broken config never blocks a consult. Values here are defaults:
+ * explicit CLI flags and junction env vars propagated from a parent consult
+ * take precedence at the call site.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type { RedactionOptions } from '../utils/secret-redaction.js';
+import { graphynHomeDir } from '../vfs/paths.js';
+import { junctionCwd } from './junction-env.js';
+
+export interface ModelPrice {
+  /** USD per million input tokens. */
+  inputPerMTok: number;
+  /** USD per million output tokens. */
+  outputPerMTok: number;
+}
+
+export interface ConsultConfig {
+  budget?: {
+    /** Spend cap for one junction trace, across every nested consult. */
+    maxUsdPerTrace?: number;
+  };
+  /** Per-model price overrides, keyed by model id prefix (longest prefix wins). */
+  pricing?: Record<string, ModelPrice>;
+  /**
+   * Secret-redaction rule packs applied before a leaf sees the question:
+   * `packs` to narrow the defaults, `disabledRules` to silence a rule id,
+   * `customRules` for org-specific token shapes.
+   */
+  redaction?: RedactionOptions;
+  sessions?: {
+    /** Minutes a `--session` may sit idle before it expires (default 30). */
+    idleMinutes?: number;
+  };
+  cache?: {
+    /** Answer repeats from the response cache without `--cache` (default off). */
+    enabled?: boolean;
+    /** Minutes a cached answer stays valid (default 1440). */
+    ttlMinutes?: number;
+  };
+  fallback?: {
+    /** Harnesses to try after any primary that has no chain of its own. */
+    default?: string[];
+    /** Chains per primary harness, e.g. `{ "gemini": ["codex", "claude"] }`. */
+    byHarness?: Record<string, string[]>;
+  };
+  concurrency?: {
+    /** Leaf processes per harness machine-wide, for harnesses without their own limit (default 2, 0 = unlimited). */
+    default?: number;
+    /** Limits per harness, e.g. `{ "claude": 1 }`. */
+    byHarness?: Record<string, number>;
+  };
+  readOnly?: {
+    /** Fingerprint the working tree around every consult and fail any that changed it (default false). */
+    verifyFs?: boolean;
+  };
+  junction?: {
+    /** Maximum agent-calling-agent nesting for consults started here (default 3, at most 10). */
+    maxDepth?: number;
+  };
+  outbound?: {
+    /** `annotate` (default) redacts and records findings in the answer; `block` withholds it. */
+    policy?: 'annotate' | 'block';
+    /** Look for prompt-injection markers in answers (default true). */
+    injectionCheck?: boolean;
+  };
+}
+
+export interface ConsultConfigOptions {
+  /** Project directory holding `.graphyn/consult.json`. Defaults to the caller's cwd. */
+  projectDir?: string;
+}
+
+export function userConsultConfigPath(): string {
+  return path.join(graphynHomeDir(), 'consult.json');
+}
+
+export function projectConsultConfigPath(projectDir = junctionCwd()): string {
+  return path.join(projectDir, '.graphyn', 'consult.json');
+}
+
+function readConfigFile(filePath: string): ConsultConfig {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as ConsultConfig) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Merge one level deep: each section's keys from `override` replace those in `base`. */
+function mergeSections(base: ConsultConfig, override: ConsultConfig): ConsultConfig {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] =
+      current && typeof current === 'object' && !Array.isArray(current) && value && typeof value === 'object' && !Array.isArray(value)
+        ? { ...current, ...value }
+        : value;
+  }
+  return merged as ConsultConfig;
+}
+
+/** The smaller of two optional limits; undefined only when neither is set. */
+function lowerLimit(user: number | undefined, project: number | undefined): number | undefined {
+  if (typeof project !== 'number') return user;
+  return typeof user === 'number' ? Math.min(user, project) : project;
+}
+
+/** True when either file turns the check on; false only when the user turned it off. */
+function eitherEnables(user: boolean | undefined, project: boolean | undefined): boolean | undefined {
+  return user === true || project === true ? true : user;
+}
+
+/** The cache stays on only while the project file does not turn it off. */
+function unlessDisabled(user: boolean | undefined, project: boolean | undefined): boolean | undefined {
+  return project === false ? false : user;
+}
+
+/**
+ * The guarded settings after a project file: each one only moves in the
+ * stricter direction, and the user-only ones ignore the project entirely.
+ */
+function tightenGuarded(merged: ConsultConfig, user: ConsultConfig, project: ConsultConfig): ConsultConfig {
+  const redaction: RedactionOptions = {
+    ...merged.redaction,
+    // No packs means every pack; a project can only add to a narrowed list.
+    packs: user.redaction?.packs && project.redaction?.packs
+      ? [...new Set([...user.redaction.packs, ...project.redaction.packs])]
+      : user.redaction?.packs,
+    disabledRules: user.redaction?.disabledRules,
+    customRules: [...(user.redaction?.customRules ?? []), ...(project.redaction?.customRules ?? [])],
+  };
+  const policy = user.outbound?.policy === 'block' || project.outbound?.policy === 'block' ? 'block' : user.outbound?.policy;
+
+  return {
+    ...merged,
+    pricing: user.pricing,
+    concurrency: user.concurrency,
+    fallback: user.fallback,
+    cache: {
+      ...merged.cache,
+      enabled: unlessDisabled(user.cache?.enabled, project.cache?.enabled),
+      ttlMinutes: lowerLimit(user.cache?.ttlMinutes, project.cache?.ttlMinutes),
+    },
+    budget: { ...merged.budget, maxUsdPerTrace: lowerLimit(user.budget?.maxUsdPerTrace, project.budget?.maxUsdPerTrace) },
+    redaction,
+    junction: { ...merged.junction, maxDepth: lowerLimit(user.junction?.maxDepth, project.junction?.maxDepth) },
+    outbound: {
+      ...merged.outbound,
+      policy,
+      injectionCheck: eitherEnables(user.outbound?.injectionCheck, project.outbound?.injectionCheck),
+    },
+    readOnly: { ...merged.readOnly, verifyFs: eitherEnables(user.readOnly?.verifyFs, project.readOnly?.verifyFs) },
+  };
+}
+
+export function loadConsultConfig(options: ConsultConfigOptions = {}): ConsultConfig {
+  const user = readConfigFile(userConsultConfigPath());
+  const project = readConfigFile(projectConsultConfigPath(options.projectDir));
+  return tightenGuarded(mergeSections(user, project), user, project);
+}
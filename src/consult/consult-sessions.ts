@@ -0,0 +1,380 @@
+/**
+ * Consult sessions — multi-turn consults under a name (`consult --session`).
+ *
+ * A session is keyed by (name, harness), so `--session review --to gemini,codex`
+ * keeps one conversation per leaf. Follow-up questions reach the same
+ * harness-side conversation:
+ *
+ *   - ACP tier: the `<harness> --acp` child stays open in an in-process pool
+ *     and follow-ups go to the same sessionId. A later process (the CLI exits
+ *     after every consult) reattaches with `session/load` when the agent
+ *     advertises it, and otherwise starts a fresh ACP session.
+ *   - Subprocess tier: the leaf's own resume flag (claude `--resume`, codex
+ *     `exec resume`, gemini `--resume`) with the session id it reported.
+ *
+ * The record on disk (`~/.graphyn/consult/sessions/<name>/<harness>.json`)
+ * holds ids and counters only, never question or answer text. Sessions idle
+ * longer than `sessions.idleMinutes` (consult.json, default 30) expire: the
+ * pooled child is closed and the next consult starts over.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { graphynHomeDir } from '../vfs/paths.js';
+import {
+  AcpConnection,
+  guardAcpRun,
+  interruptedFailure,
+  type AcpTransportOptions,
+  type AcpTransportOutcome,
+  type AcpTurnResult,
+} from './acp-transport.js';
+import { loadConsultConfig } from './consult-config.js';
+import type { ConsultTier } from './harness-adapter.js';
+import { isValidHarnessId } from './harness-registry.js';
+
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+
+export interface ConsultSessionRecord {
+  schemaVersion: 'consult-session.v1';
+  name: string;
+  toHarness: string;
+  tier: ConsultTier;
+  /** The harness's own id for the conversation (ACP sessionId or CLI session id). */
+  harnessSessionId?: string;
+  /** Answered turns so far. */
+  turns: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface ConsultSessionListing extends ConsultSessionRecord {
+  expired: boolean;
+  /** True when this process holds a live ACP child for the session. */
+  live: boolean;
+}
+
+/** What the junction reports about the session a consult ran in. */
+export interface ConsultSessionInfo {
+  name: string;
+  harnessSessionId?: string;
+  /** 1 for the first answered turn. */
+  turn: number;
+  /** False when prior context could not be carried over (new or expired session). */
+  resumed: boolean;
+}
+
+export function isValidSessionName(name: string): boolean {
+  return /^[A-Za-z0-9._-]{1,64}$/.test(name) && name !== '.' && name !== '..';
+}
+
+export function consultSessionsDir(): string {
+  return path.join(graphynHomeDir(), 'consult', 'sessions');
+}
+
+function sessionRecordPath(name: string, toHarness: string): string {
+  return path.join(consultSessionsDir(), name, `${toHarness}.json`);
+}
+
+/** Idle expiry from consult.json `sessions.idleMinutes`. */
+export function sessionIdleMs(): number {
+  const minutes = loadConsultConfig().sessions?.idleMinutes;
+  return (typeof minutes === 'number' && minutes > 0 ? minutes : DEFAULT_SESSION_IDLE_MINUTES) * 60_000;
+}
+
+function isExpired(record: ConsultSessionRecord, idleMs: number): boolean {
+  const lastUsed = Date.parse(record.lastUsedAt);
+  return !Number.isFinite(lastUsed) || Date.now() - lastUsed > idleMs;
+}
+
+function readRecord(filePath: string): ConsultSessionRecord | undefined {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ConsultSessionRecord;
+    return parsed?.schemaVersion === 'consult-session.v1' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The live record for (name, harness), or undefined when there is none or it
+ * has expired. Expired records are removed.
+ */
+export function loadConsultSession(name: string, toHarness: string): ConsultSessionRecord | undefined {
+  const filePath = sessionRecordPath(name, toHarness);
+  const record = readRecord(filePath);
+  if (!record) return undefined;
+  if (isExpired(record, sessionIdleMs())) {
+    fs.rmSync(filePath, { force: true });
+    void releasePooledSession(poolKey(name, toHarness));
+    return undefined;
+  }
+  return record;
+}
+
+/** Record one answered turn. Never throws: a consult is not failed over bookkeeping. */
+export function recordSessionTurn(
+  previous: ConsultSessionRecord | undefined,
+  update: { name: string; toHarness: string; tier: ConsultTier; harnessSessionId?: string },
+): ConsultSessionRecord {
+  const now = new Date().toISOString();
+  const record: ConsultSessionRecord = {
+    schemaVersion: 'consult-session.v1',
+    name: update.name,
+    toHarness: update.toHarness,
+    tier: update.tier,
+    ...(update.harnessSessionId ? { harnessSessionId: update.harnessSessionId } : {}),
+    turns: (previous?.turns ?? 0) + 1,
+    createdAt: previous?.createdAt ?? now,
+    lastUsedAt: now,
+  };
+  try {
+    const filePath = sessionRecordPath(update.name, update.toHarness);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(record, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+  } catch {
+    // The answer is still returned; the next turn starts without context.
+  }
+  return record;
+}
+
+export function listConsultSessions(): ConsultSessionListing[] {
+  const dir = consultSessionsDir();
+  if (!fs.existsSync(dir)) return [];
+  const idleMs = sessionIdleMs();
+  const listings: ConsultSessionListing[] = [];
+  for (const name of fs.readdirSync(dir).sort()) {
+    const sessionDir = path.join(dir, name);
+    if (!fs.statSync(sessionDir).isDirectory()) continue;
+    for (const file of fs.readdirSync(sessionDir).filter(entry => entry.endsWith('.json')).sort()) {
+      const record = readRecord(path.join(sessionDir, file));
+      if (!record) continue;
+      listings.push({
+        ...record,
+        expired: isExpired(record, idleMs),
+        live: pool.has(poolKey(record.name, record.toHarness)),
+      });
+    }
+  }
+  return listings;
+}
+
+/**
+ * Forget a session: delete its records (one harness, or all of them) and
+ * close any pooled ACP child. Returns the number of records removed. Throws
+ * on a name or harness id that could step outside the sessions directory.
+ */
+export async function closeConsultSession(name: string, toHarness?: string): Promise<number> {
+  if (!isValidSessionName(name)) throw new Error(`Invalid session name: ${JSON.stringify(name)}`);
+  if (toHarness !== undefined && !isValidHarnessId(toHarness)) throw new Error(`Invalid harness id: ${JSON.stringify(toHarness)}`);
+  const sessionDir = path.join(consultSessionsDir(), name);
+  const files = fs.existsSync(sessionDir)
+    ? fs.readdirSync(sessionDir).filter(file => file.endsWith('.json') && (!toHarness || file === `${toHarness}.json`))
+    : [];
+  for (const file of files) {
+    fs.rmSync(path.join(sessionDir, file), { force: true });
+    await releasePooledSession(poolKey(name, file.slice(0, -'.json'.length)));
+  }
+  if (fs.existsSync(sessionDir) && fs.readdirSync(sessionDir).length === 0) {
+    fs.rmdirSync(sessionDir);
+  }
+  return files.length;
+}
+
+// ─── ACP session pool ─────────────────────────────────────────────────────────
+
+interface PooledAcpSession {
+  connection: AcpConnection;
+  sessionId: string;
+  modelId?: string;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+const pool = new Map<string, PooledAcpSession>();
+
+/**
+ * The last turn queued per pool key. One ACP child answers one prompt at a
+ * time, so a second consult on the same (session, harness) waits for the
+ * first rather than sharing, or killing, its child.
+ */
+const turnQueue = new Map<string, Promise<AcpSessionTurnOutcome>>();
+
+function poolKey(name: string, toHarness: string): string {
+  return `${name}\u0000${toHarness}`;
+}
+
+async function releasePooledSession(key: string): Promise<void> {
+  const pooled = pool.get(key);
+  if (!pooled) return;
+  pool.delete(key);
+  if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+  await pooled.connection.close();
+}
+
+function armIdleExpiry(key: string, pooled: PooledAcpSession): void {
+  if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+  pooled.idleTimer = setTimeout(() => {
+    void releasePooledSession(key);
+  }, sessionIdleMs());
+  // Idle expiry must never keep a CLI process alive.
+  pooled.idleTimer.unref?.();
+}
+
+/**
+ * Close every pooled ACP child. The CLI calls this before exiting; records
+ * stay on disk so the next process can `session/load` them.
+ */
+export async function closeAllPooledSessions(): Promise<void> {
+  await Promise.all([...pool.keys()].map(key => releasePooledSession(key)));
+}
+
+export interface AcpSessionTurnOptions extends AcpTransportOptions {
+  sessionName: string;
+  toHarness: string;
+}
+
+export type AcpSessionTurnOutcome = AcpTransportOutcome & { resumed?: boolean };
+
+/**
+ * Send one prompt inside a named ACP session: reuse the pooled child, else
+ * spawn one and `session/load` the recorded sessionId (or `session/new`).
+ * Turns on the same session and harness run in call order; the timeout
+ * starts when a turn leaves the queue. An interrupt the agent acknowledges
+ * (`session/cancel`) keeps the child pooled; other failures drop it. Never
+ * throws.
+ */
+export function runAcpSessionTurn(options: AcpSessionTurnOptions): Promise<AcpSessionTurnOutcome> {
+  const key = poolKey(options.sessionName, options.toHarness);
+  const turn = (turnQueue.get(key) ?? Promise.resolve(undefined)).then(() => {
+    if (options.signal?.aborted) {
+      const cancelled: AcpSessionTurnOutcome = {
+        ok: false,
+        errorCode: 'ACP_CANCELLED',
+        error: 'Consult cancelled while an earlier turn in this session was running.',
+        partialAnswer: '',
+      };
+      return cancelled;
+    }
+    return runQueuedTurn(key, options);
+  });
+  turnQueue.set(key, turn);
+  const dequeue = (): void => {
+    if (turnQueue.get(key) === turn) turnQueue.delete(key);
+  };
+  turn.then(dequeue, dequeue);
+  return turn;
+}
+
+async function runQueuedTurn(key: string, options: AcpSessionTurnOptions): Promise<AcpSessionTurnOutcome> {
+  const { sessionName, toHarness, harnessBin, prompt, env = process.env } = options;
+  const started = Date.now();
+
+  const existing = pool.get(key);
+  if (existing && existing.connection.closed) await releasePooledSession(key);
+
+  let pooled = pool.get(key);
+  let resumed = Boolean(pooled);
+  let connection: AcpConnection | undefined = pooled?.connection;
+
+  const guard = guardAcpRun(() => connection, options);
+  const failWith = (errorCode: Extract<AcpTransportOutcome, { ok: false }>['errorCode'], error: string): AcpSessionTurnOutcome => {
+    guard.dispose();
+    connection?.kill();
+    pool.delete(key);
+    return { ok: false, errorCode, error };
+  };
+  const interrupted = async (phase: string): Promise<AcpSessionTurnOutcome> => {
+    await guard.done;
+    guard.dispose();
+    if (!guard.graceful || !pooled) {
+      connection?.kill();
+      pool.delete(key);
+    } else {
+      armIdleExpiry(key, pooled);
+    }
+    return interruptedFailure(guard, phase, connection?.partialAnswer ?? '');
+  };
+
+  if (!pooled) {
+    try {
+      connection = AcpConnection.spawn(harnessBin, env, options.clientPolicy);
+    } catch (err) {
+      return failWith('ACP_SPAWN_ERROR', `Failed to spawn ${harnessBin} --acp: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    try {
+      await connection.initialize();
+    } catch (err) {
+      if (guard.reason) return interrupted('during ACP initialize handshake');
+      if (connection.spawnError) return failWith('ACP_SPAWN_ERROR', `Failed to spawn ${harnessBin} --acp: ${connection.spawnError.message}`);
+      return failWith('ACP_HANDSHAKE_FAILED', `initialize failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (guard.reason) return interrupted('during ACP initialize handshake');
+
+    const record = loadConsultSession(sessionName, toHarness);
+    const previousId = record?.tier === 'acp' ? record.harnessSessionId : undefined;
+    let session: { sessionId: string; modelId?: string } | undefined;
+    if (previousId && connection.supportsLoadSession) {
+      try {
+        session = { sessionId: previousId, ...(await connection.loadSession(previousId)) };
+        resumed = true;
+      } catch {
+        // The agent no longer has it; fall through to a fresh session.
+        if (guard.reason) return interrupted('during session/load');
+      }
+    }
+    if (!session) {
+      try {
+        session = await connection.newSession();
+      } catch (err) {
+        if (guard.reason) return interrupted('during session/new');
+        return failWith('ACP_SESSION_NEW_FAILED', `session/new failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (guard.reason) return interrupted('during session/new');
+    pooled = { connection, ...session };
+    pool.set(key, pooled);
+  }
+
+  guard.sessionId = pooled.sessionId;
+  // Idle expiry must not close the child under a running turn.
+  if (pooled.idleTimer) clearTimeout(pooled.idleTimer);
+  if (pooled.modelId) options.onModelDetected?.(pooled.modelId);
+  // Requests during this turn are recorded on this consult's policy.
+  if (options.clientPolicy) pooled.connection.clientPolicy = options.clientPolicy;
+
+  let turn: AcpTurnResult;
+  try {
+    turn = await pooled.connection.prompt(pooled.sessionId, prompt, { onAnswerChunk: options.onAnswerChunk });
+  } catch (err) {
+    if (guard.reason) return interrupted('waiting for ACP answer');
+    return failWith('ACP_PROMPT_FAILED', `session/prompt error: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (guard.reason) return interrupted('waiting for ACP answer');
+  guard.dispose();
+
+  if (pooled.connection.closed) {
+    pool.delete(key);
+  } else {
+    armIdleExpiry(key, pooled);
+  }
+
+  if (!turn.answerText.trim()) {
+    return {
+      ok: false,
+      errorCode: 'ACP_EMPTY_ANSWER',
+      error: `${harnessBin} --acp returned no answer text. stderr: ${pooled.connection.stderr.trim().slice(0, 200)}`,
+    };
+  }
+
+  return {
+    ok: true,
+    answerText: turn.answerText.trim(),
+    sessionId: pooled.sessionId,
+    modelId: pooled.modelId,
+    stopReason: turn.stopReason,
+    durationMs: Date.now() - started,
+    toolActivity: turn.toolActivity,
+    resumed,
+  };
+}
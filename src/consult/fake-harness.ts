@@ -0,0 +1,373 @@
+/**
+ * Scriptable stand-in for the gemini, codex and claude CLIs.
+ *
+ * The consult unit tests mock `spawn`, so argv building, env stripping,
+ * process-group handling and the output parsers never meet a real process.
+ * This module is a small executable that answers the way each harness does:
+ *
+ *   gemini -p … -o json                      one JSON envelope with stats
+ *   codex exec … --json PROMPT               JSONL thread/item/turn events
+ *   claude -p … --output-format json         one `result` object
+ *   claude -p … --output-format stream-json  init, assistant, result lines
+ *   <any> --acp                              ACP JSON-RPC over stdio
+ *
+ * `installFakeHarnesses(dir)` writes `gemini`/`codex`/`claude` shims into a
+ * directory; put it first on PATH and every consult tier talks to the fake.
+ * `graphyn dev fake-harness install <dir>` does the same from the CLI.
+ *
+ * Behaviour comes from the environment, which the junction passes through
+ * (none of these names match the secret-stripping pattern):
+ *
+ *   GRAPHYN_FAKE_SCENARIO  comma-separated tokens:
+ *                            latency=<ms>  wait before answering
+ *                            malformed     truncated / unparseable output
+ *                            exit=<code>   fail with that exit code, no answer
+ *                            writes        report a file edit (gemini stats,
+ *                                          codex file_change, ACP edit tool call)
+ *                            mutate=<path> append to <path> (relative to the
+ *                                          cwd) without reporting it
+ *                            hang          never answer (until killed/cancelled)
+ *                            empty         answer with no text
+ *   GRAPHYN_FAKE_RESPONSE  answer text (default "Fake <harness> answer.")
+ *   GRAPHYN_FAKE_MODEL     model id reported when no -m/--model is given
+ *   GRAPHYN_FAKE_RECORD    file to append one JSON line per invocation (and
+ *                          per ACP prompt): harness, argv, env, cwd, prompt
+ *
+ * Only node: builtins are imported so the compiled file runs on its own.
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+export const FAKE_HARNESS_IDS = ['gemini', 'codex', 'claude'] as const;
+export type FakeHarnessId = (typeof FAKE_HARNESS_IDS)[number];
+
+export interface FakeScenario {
+  latencyMs: number;
+  malformed: boolean;
+  exitCode?: number;
+  writes: boolean;
+  /** File (relative to the cwd) the leaf silently appends to before answering. */
+  mutate?: string;
+  hang: boolean;
+  empty: boolean;
+}
+
+/** One line of GRAPHYN_FAKE_RECORD. */
+export interface FakeHarnessRecord {
+  harness: FakeHarnessId;
+  mode: 'subprocess' | 'acp';
+  argv: string[];
+  env: Record<string, string>;
+  cwd: string;
+  prompt?: string;
+}
+
+export function isFakeHarnessId(value: string): value is FakeHarnessId {
+  return (FAKE_HARNESS_IDS as readonly string[]).includes(value);
+}
+
+/** Parse GRAPHYN_FAKE_SCENARIO. Throws on an unknown token so a typo is not a silent pass. */
+export function parseFakeScenario(raw = ''): FakeScenario {
+  const scenario: FakeScenario = { latencyMs: 0, malformed: false, writes: false, hang: false, empty: false };
+  for (const token of raw.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, value] = token.split('=', 2);
+    if (name === 'ok') continue;
+    if (name === 'latency' && /^\d+$/.test(value ?? '')) scenario.latencyMs = Number(value);
+    else if (name === 'exit' && /^\d+$/.test(value ?? '')) scenario.exitCode = Number(value);
+    else if (name === 'malformed') scenario.malformed = true;
+    else if (name === 'writes') scenario.writes = true;
+    else if (name === 'mutate' && value) scenario.mutate = value;
+    else if (name === 'hang') scenario.hang = true;
+    else if (name === 'empty') scenario.empty = true;
+    else throw new Error(`unknown GRAPHYN_FAKE_SCENARIO token "${token}"`);
+  }
+  return scenario;
+}
+
+/**
+ * Write one shim per harness into `dir` that runs this module as that
+ * harness. `script` defaults to this file, which is only executable once
+ * compiled (dist/); tests pass a transpiled copy.
+ */
+export function installFakeHarnesses(
+  dir: string,
+  options: { script?: string; harnesses?: readonly FakeHarnessId[] } = {},
+): string[] {
+  const script = options.script ?? fileURLToPath(import.meta.url);
+  fs.mkdirSync(dir, { recursive: true });
+  return (options.harnesses ?? FAKE_HARNESS_IDS).map(id => {
+    const shim = path.join(dir, id);
+    fs.writeFileSync(shim, `#!/bin/sh\nexec "${process.execPath}" "${script}" --as ${id} "$@"\n`, { mode: 0o755 });
+    return shim;
+  });
+}
+
+// ─── Runtime ──────────────────────────────────────────────────────────────────
+
+interface FakeContext {
+  harness: FakeHarnessId;
+  argv: string[];
+  env: NodeJS.ProcessEnv;
+  scenario: FakeScenario;
+  out: (text: string) => void;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Resolves never; the process stays alive until it is signalled. */
+function hangForever(): Promise<never> {
+  return new Promise(() => {
+    setInterval(() => undefined, 60_000);
+  });
+}
+
+function flagValue(argv: string[], ...flags: string[]): string | undefined {
+  for (const flag of flags) {
+    const index = argv.indexOf(flag);
+    if (index >= 0 && index + 1 < argv.length) return argv[index + 1];
+  }
+  return undefined;
+}
+
+function promptFromArgv(harness: FakeHarnessId, argv: string[]): string | undefined {
+  // codex takes the prompt as the last positional; gemini and claude use -p.
+  return harness === 'codex' ? argv.at(-1) : flagValue(argv, '-p', '--prompt');
+}
+
+function answerText(ctx: FakeContext): string {
+  if (ctx.scenario.empty) return '';
+  return ctx.env.GRAPHYN_FAKE_RESPONSE ?? `Fake ${ctx.harness} answer.`;
+}
+
+function modelId(ctx: FakeContext): string {
+  return flagValue(ctx.argv, '-m', '--model') ?? ctx.env.GRAPHYN_FAKE_MODEL ?? `fake-${ctx.harness}`;
+}
+
+function record(ctx: FakeContext, mode: FakeHarnessRecord['mode'], prompt: string | undefined): void {
+  const target = ctx.env.GRAPHYN_FAKE_RECORD;
+  if (!target) return;
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(ctx.env)) {
+    if (value !== undefined) env[key] = value;
+  }
+  const entry: FakeHarnessRecord = { harness: ctx.harness, mode, argv: ctx.argv, env, cwd: process.cwd(), ...(prompt !== undefined ? { prompt } : {}) };
+  fs.appendFileSync(target, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+}
+
+const tokens = (text: string): number => Math.ceil(text.length / 4);
+
+function geminiOutput(ctx: FakeContext, prompt: string, answer: string): string {
+  return JSON.stringify({
+    response: answer,
+    session_id: flagValue(ctx.argv, '--resume') ?? randomUUID(),
+    stats: {
+      models: { [modelId(ctx)]: { tokens: { prompt: tokens(prompt), candidates: tokens(answer), thoughts: 0 } } },
+      files: { totalLinesAdded: ctx.scenario.writes ? 3 : 0, totalLinesRemoved: ctx.scenario.writes ? 1 : 0 },
+    },
+  });
+}
+
+function codexOutput(ctx: FakeContext, prompt: string, answer: string): string {
+  const resumeIndex = ctx.argv.indexOf('resume');
+  const threadId = resumeIndex >= 0 ? ctx.argv[resumeIndex + 1] : randomUUID();
+  const events: unknown[] = [{ type: 'thread.started', thread_id: threadId }, { type: 'turn.started' }];
+  if (ctx.scenario.writes) {
+    events.push({ type: 'item.completed', item: { id: 'item_0', type: 'file_change', changes: [{ path: 'README.md', kind: 'update' }], status: 'completed' } });
+  }
+  events.push({ type: 'item.completed', item: { id: 'item_1', type: 'agent_message', text: answer } });
+  events.push({ type: 'turn.completed', usage: { input_tokens: tokens(prompt), cached_input_tokens: 0, output_tokens: tokens(answer) } });
+  return events.map(event => JSON.stringify(event)).join('\n');
+}
+
+function claudeResult(ctx: FakeContext, prompt: string, answer: string): Record<string, unknown> {
+  return {
+    type: 'result',
+    subtype: 'success',
+    is_error: false,
+    result: answer,
+    stop_reason: 'end_turn',
+    session_id: flagValue(ctx.argv, '--resume') ?? randomUUID(),
+    total_cost_usd: 0,
+    modelUsage: { [modelId(ctx)]: { inputTokens: tokens(prompt), outputTokens: tokens(answer) } },
+  };
+}
+
+function claudeOutput(ctx: FakeContext, prompt: string, answer: string): string {
+  const result = claudeResult(ctx, prompt, answer);
+  if (flagValue(ctx.argv, '--output-format') !== 'stream-json') return JSON.stringify(result);
+  return [
+    { type: 'system', subtype: 'init', model: modelId(ctx), session_id: result.session_id },
+    { type: 'assistant', message: { model: modelId(ctx), content: [{ type: 'text', text: answer }] } },
+    result,
+  ].map(event => JSON.stringify(event)).join('\n');
+}
+
+async function runSubprocess(ctx: FakeContext): Promise<number> {
+  const prompt = promptFromArgv(ctx.harness, ctx.argv) ?? '';
+  record(ctx, 'subprocess', prompt);
+  if (ctx.scenario.latencyMs > 0) await sleep(ctx.scenario.latencyMs);
+  if (ctx.scenario.hang) await hangForever();
+  if (ctx.scenario.exitCode !== undefined) {
+    process.stderr.write(`fake ${ctx.harness}: simulated failure (exit ${ctx.scenario.exitCode})\n`);
+    return ctx.scenario.exitCode;
+  }
+  silentlyMutate(ctx);
+  const answer = answerText(ctx);
+  const output =
+    ctx.harness === 'gemini'
+      ? geminiOutput(ctx, prompt, answer)
+      : ctx.harness === 'codex'
+        ? codexOutput(ctx, prompt, answer)
+        : claudeOutput(ctx, prompt, answer);
+  ctx.out(`${ctx.scenario.malformed ? truncateLastLine(output) : output}\n`);
+  return 0;
+}
+
+/** `mutate=<path>`: a write the harness does not own up to. */
+function silentlyMutate(ctx: FakeContext): void {
+  if (ctx.scenario.mutate) fs.appendFileSync(path.resolve(ctx.scenario.mutate), `fake ${ctx.harness} was here\n`);
+}
+
+/** Cut the last line in half, so the only object (or the answer event) no longer parses. */
+function truncateLastLine(output: string): string {
+  const lines = output.split('\n');
+  const last = lines.pop() ?? '';
+  return [...lines, last.slice(0, Math.ceil(last.length / 2))].join('\n');
+}
+
+// ─── ACP ──────────────────────────────────────────────────────────────────────
+
+interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+function runAcp(ctx: FakeContext): Promise<number> {
+  return new Promise(resolve => {
+    const send = (message: Record<string, unknown>): void => ctx.out(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+    const notifyUpdate = (sessionId: string, update: Record<string, unknown>): void =>
+      send({ method: 'session/update', params: { sessionId, update } });
+    let pendingPrompt: JsonRpcMessage['id'];
+
+    const prompt = async (message: JsonRpcMessage): Promise<void> => {
+      const sessionId = String(message.params?.sessionId ?? '');
+      const blocks = Array.isArray(message.params?.prompt) ? (message.params.prompt as Array<{ text?: unknown }>) : [];
+      record(ctx, 'acp', blocks.map(block => (typeof block.text === 'string' ? block.text : '')).join(''));
+      pendingPrompt = message.id;
+      if (ctx.scenario.latencyMs > 0) await sleep(ctx.scenario.latencyMs);
+      // `hang` leaves the prompt open; only session/cancel (or a kill) ends it.
+      if (ctx.scenario.hang || pendingPrompt !== message.id) return;
+      if (ctx.scenario.exitCode !== undefined) {
+        process.stderr.write(`fake ${ctx.harness}: simulated failure (exit ${ctx.scenario.exitCode})\n`);
+        resolve(ctx.scenario.exitCode);
+        lines.close();
+        process.stdin.destroy();
+        return;
+      }
+      silentlyMutate(ctx);
+      if (ctx.scenario.writes) {
+        notifyUpdate(sessionId, {
+          sessionUpdate: 'tool_call',
+          toolCallId: 'fake-edit-1',
+          title: 'Edit README.md',
+          kind: 'edit',
+          status: 'completed',
+          locations: [{ path: path.join(process.cwd(), 'README.md') }],
+        });
+      }
+      if (ctx.scenario.malformed) {
+        ctx.out('{"jsonrpc": "2.0", "method": "session/update", "params": {"update": \n');
+      } else {
+        // Two chunks, so streaming consumers see more than one delta.
+        const answer = answerText(ctx);
+        const cut = Math.ceil(answer.length / 2);
+        for (const text of [answer.slice(0, cut), answer.slice(cut)]) {
+          if (text) notifyUpdate(sessionId, { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text } });
+        }
+      }
+      pendingPrompt = undefined;
+      send({ id: message.id, result: { stopReason: 'end_turn' } });
+    };
+
+    const lines = readline.createInterface({ input: process.stdin });
+    lines.on('line', line => {
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(line) as JsonRpcMessage;
+      } catch {
+        return;
+      }
+      switch (message.method) {
+        case 'initialize':
+          send({
+            id: message.id,
+            result: { protocolVersion: 1, agentCapabilities: { loadSession: true }, agentInfo: { name: `fake-${ctx.harness}` } },
+          });
+          return;
+        case 'session/new':
+          send({ id: message.id, result: { sessionId: `fake-${randomUUID()}`, modelId: modelId(ctx) } });
+          return;
+        case 'session/load':
+          send({ id: message.id, result: { modelId: modelId(ctx) } });
+          return;
+        case 'session/prompt':
+          void prompt(message);
+          return;
+        case 'session/cancel':
+          if (pendingPrompt !== undefined) {
+            send({ id: pendingPrompt, result: { stopReason: 'cancelled' } });
+            pendingPrompt = undefined;
+          }
+          return;
+        default:
+          // Responses to our own requests (none are sent) and unknown notifications are ignored.
+          if (message.id !== undefined && message.id !== null && message.method) {
+            send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+          }
+      }
+    });
+    lines.on('close', () => resolve(0));
+  });
+}
+
+/**
+ * Run the fake with harness-style argv. The identity comes from a leading
+ * `--as <id>`, else from the name it was invoked under. Returns the exit code.
+ */
+export async function runFakeHarness(
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  invokedAs = path.basename(process.argv[1] ?? ''),
+): Promise<number> {
+  let argv = args;
+  let harness = invokedAs;
+  if (argv[0] === '--as') {
+    harness = argv[1] ?? '';
+    argv = argv.slice(2);
+  }
+  if (!isFakeHarnessId(harness)) {
+    process.stderr.write(`fake-harness: unknown harness "${harness}" (expected ${FAKE_HARNESS_IDS.join(', ')})\n`);
+    return 2;
+  }
+  let scenario: FakeScenario;
+  try {
+    scenario = parseFakeScenario(env.GRAPHYN_FAKE_SCENARIO);
+  } catch (err) {
+    process.stderr.write(`fake-harness: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 2;
+  }
+  const ctx: FakeContext = { harness, argv, env, scenario, out: text => process.stdout.write(text) };
+  return argv.includes('--acp') ? runAcp(ctx) : runSubprocess(ctx);
+}
+
+if (process.argv[1] && pathToFileURL(process.argv[1]).href === import.meta.url) {
+  runFakeHarness(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * Harness fallback chains.
+ *
+ * `graphyn consult --to gemini --fallback codex,claude "question"` asks
+ * gemini first and, when it cannot answer for infrastructure reasons, tries
+ * codex, then claude. A chain can also come from consult.json
+ * (`fallback.byHarness.<id>` or `fallback.default`), so nightly agents keep
+ * working through a single vendor's outage without changing their call.
+ *
+ * Only failures that say nothing about the question move down the chain:
+ * a missing binary, a timeout (or no free harness slot, see harness-slots.ts),
+ * or output the junction could not parse.
+ * Everything else (bad request, budget, unsafe output, cancellation, a leaf
+ * that exited non-zero) is returned as-is.
+ *
+ * Every attempt is a full junction call with its own audit receipt, all on
+ * the same trace id and at the same depth: a retry is a sibling, not a
+ * nested consult. The returned envelope is the last attempt's result with
+ * `attempts` listing every harness tried.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  runHarnessConsult,
+  type HarnessConsultErrorCode,
+  type HarnessConsultRequest,
+  type HarnessConsultResult,
+  type HarnessId,
+} from './harness-adapter.js';
+import { loadConsultConfig } from './consult-config.js';
+import { junctionEnv } from './junction-env.js';
+
+/** Error codes that move a consult on to the next harness in the chain. */
+export const FALLBACK_ERROR_CODES: readonly HarnessConsultErrorCode[] = [
+  'HARNESS_UNAVAILABLE',
+  'HARNESS_TIMEOUT',
+  'HARNESS_QUEUE_TIMEOUT',
+  'HARNESS_UNPARSEABLE',
+];
+
+/** One harness tried by a fallback chain (`attempts` on the result envelope). */
+export interface ConsultAttempt {
+  toHarness: HarnessId;
+  ok: boolean;
+  errorCode?: HarnessConsultErrorCode;
+  durationMs: number;
+  receiptId?: string;
+}
+
+export interface HarnessFallbackRequest extends HarnessConsultRequest {
+  /**
+   * Harnesses to try, in order, after `toHarness` (`--fallback`). Undefined
+   * uses the consult.json chain; an empty list turns fallback off.
+   */
+  fallback?: HarnessId[];
+}
+
+/**
+ * The harnesses to try after `toHarness`: the explicit list, else
+ * consult.json `fallback.byHarness[toHarness]`, else `fallback.default`.
+ * The primary and duplicates are dropped.
+ */
+export function resolveFallbackChain(toHarness: HarnessId, explicit?: HarnessId[]): HarnessId[] {
+  const configured = loadConsultConfig().fallback;
+  const chain = explicit ?? configured?.byHarness?.[toHarness] ?? configured?.default ?? [];
+  return [...new Set(chain.filter(id => typeof id === 'string' && id && id !== toHarness))];
+}
+
+/**
+ * `runHarnessConsult` with a fallback chain. Without a chain this is exactly
+ * one `runHarnessConsult`. Never throws.
+ *
+ * `--model` names a model of the primary harness, so it is not passed on to
+ * fallbacks. Streaming callers see a `fallback` event between attempts and a
+ * single `final` event carrying the whole envelope.
+ */
+export async function runHarnessConsultWithFallback(req: HarnessFallbackRequest): Promise<HarnessConsultResult> {
+  const { fallback, onStreamEvent, ...base } = req;
+  const chain = [req.toHarness, ...resolveFallbackChain(req.toHarness, fallback)];
+  if (chain.length === 1) return runHarnessConsult({ ...base, onStreamEvent });
+
+  const traceId = req.traceId || junctionEnv().GRAPHYN_JUNCTION_TRACE_ID || randomUUID();
+  // Per-attempt `final` events are held back; the envelope with every attempt is final.
+  const forward = onStreamEvent
+    ? (event: Parameters<typeof onStreamEvent>[0]): void => {
+        if (event.type !== 'final') onStreamEvent(event);
+      }
+    : undefined;
+
+  const attempts: ConsultAttempt[] = [];
+  let result: HarnessConsultResult | undefined;
+  for (let i = 0; i < chain.length; i++) {
+    const toHarness = chain[i];
+    const started = Date.now();
+    result = await runHarnessConsult({
+      ...base,
+      toHarness,
+      traceId,
+      model: i === 0 ? base.model : undefined,
+      onStreamEvent: forward,
+    });
+    attempts.push({
+      toHarness,
+      ok: result.ok,
+      ...(result.ok ? {} : { errorCode: result.errorCode }),
+      durationMs: Date.now() - started,
+      ...(result.receiptId ? { receiptId: result.receiptId } : {}),
+    });
+
+    const next = chain[i + 1];
+    if (result.ok || !next || !FALLBACK_ERROR_CODES.includes(result.errorCode) || req.signal?.aborted) break;
+    onStreamEvent?.({ type: 'fallback', fromHarness: toHarness, toHarness: next, errorCode: result.errorCode });
+  }
+
+  const final = { ...result!, attempts };
+  onStreamEvent?.({ type: 'final', toHarness: final.toHarness, result: final });
+  return final;
+}
@@ -0,0 +1,77 @@
+/**
+ * Multi-harness fan-out consult.
+ *
+ * `graphyn consult --to gemini,codex,claude "question"` asks every listed
+ * harness the same question in parallel through `runHarnessConsult` and
+ * returns one comparison envelope. Each leaf keeps its own result (and, on
+ * success, its own receipt); all of them share a single junction trace id so
+ * the answers can be correlated across the agent-calling-agent chain.
+ *
+ * A failing leaf (timeout, missing binary, unparseable output) never sinks
+ * the whole call: its `HarnessConsultFailure` is reported next to the
+ * successes and the envelope is `ok` as long as one harness answered.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  runHarnessConsult,
+  type HarnessConsultRequest,
+  type HarnessConsultResult,
+  type HarnessId,
+} from './harness-adapter.js';
+import { junctionEnv } from './junction-env.js';
+
+export interface HarnessFanOutRequest extends Omit<HarnessConsultRequest, 'toHarness' | 'traceId'> {
+  /** Harnesses to ask. Duplicates are collapsed, order is preserved. */
+  toHarnesses: HarnessId[];
+}
+
+export interface HarnessFanOutEntry {
+  toHarness: HarnessId;
+  /** Wall-clock time for this leaf, measured around the whole junction call. */
+  durationMs: number;
+  result: HarnessConsultResult;
+}
+
+export interface HarnessFanOutResult {
+  /** True when at least one harness returned an answer. */
+  ok: boolean;
+  fromHarness: string;
+  /** Trace id shared by every leaf receipt in this fan-out. */
+  junctionTraceId: string;
+  /** Wall-clock time for the whole fan-out (the slowest leaf). */
+  durationMs: number;
+  succeeded: number;
+  failed: number;
+  results: HarnessFanOutEntry[];
+}
+
+/**
+ * Dispatch the same question to several harnesses in parallel.
+ * Never throws; per-harness failures are carried in `results`.
+ */
+export async function runHarnessFanOut(req: HarnessFanOutRequest): Promise<HarnessFanOutResult> {
+  const { toHarnesses, ...shared } = req;
+  const targets = [...new Set(toHarnesses)];
+  const traceId = junctionEnv().GRAPHYN_JUNCTION_TRACE_ID || randomUUID();
+  const started = Date.now();
+
+  const results = await Promise.all(
+    targets.map(async (toHarness): Promise<HarnessFanOutEntry> => {
+      const leafStarted = Date.now();
+      const result = await runHarnessConsult({ ...shared, toHarness, traceId });
+      return { toHarness, durationMs: Date.now() - leafStarted, result };
+    }),
+  );
+
+  const succeeded = results.filter(entry => entry.result.ok).length;
+  return {
+    ok: succeeded > 0,
+    fromHarness: req.fromHarness ?? 'claude',
+    junctionTraceId: traceId,
+    durationMs: Date.now() - started,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+}
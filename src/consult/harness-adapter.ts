@@ -15,22 +15,110 @@
  *   99-synthesis-and-design.md (HarnessAdapter behind CapabilityRouter).
  *
  * V1 scope: Gemini + Codex + Claude leaves, read-only one-shot subprocess (Tier 1, proven live).
+ * Further leaves are declared in harnesses.json (see harness-registry.ts).
  * Fast-follow: Tier 2 ACP-over-stdio. See §8 of the synthesis doc.
  */
 
 import { spawn } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
-import { applyConsultTransformPolicy, type TransformReceipt } from './transform-policy.js';
-import { runAcpTransport, type AcpTransportOptions } from './acp-transport.js';
+import {
+  applyConsultTransformPolicy,
+  redactSecrets,
+  type ConsultKnowledgeInput,
+  type ConsultTransformContext,
+  type TransformReceipt,
+} from './transform-policy.js';
+import { searchBaseDocs } from '../commands/base.js';
+import { readConsultAttachments, type ConsultAttachment } from './attachments.js';
+import { CONSULT_MODES, isConsultMode, type SessionMode } from './mode-contracts.js';
+import { ACP_WRITE_TOOL_KINDS, runAcpTransport, type AcpToolActivity, type AcpTransportOptions } from './acp-transport.js';
+import { createReadOnlyClientPolicy, type AcpAgentRequestRecord } from './acp-client-policy.js';
+import { recordConsultReceipt } from './receipt-log.js';
+import { terminateProcessTree } from './process-tree.js';
+import {
+  consultCacheKey,
+  isConsultCacheEnabled,
+  readCachedResponse,
+  storeCachedResponse,
+  type ConsultCacheInfo,
+} from './response-cache.js';
+import {
+  isValidSessionName,
+  loadConsultSession,
+  recordSessionTurn,
+  runAcpSessionTurn,
+  type ConsultSessionInfo,
+} from './consult-sessions.js';
+import { loadConsultConfig } from './consult-config.js';
+import type { ConsultAttempt } from './fallback.js';
+import { formatJunctionChain, planJunctionHop, resolveMaxJunctionDepth } from './junction-chain.js';
+import { junctionCwd, junctionEnv, junctionFsOptions } from './junction-env.js';
+import { acquireHarnessSlot, harnessSlotsDir, resolveHarnessConcurrency, type HarnessSlot, type HarnessSlotAcquisition } from './harness-slots.js';
+import {
+  diffWorkspace,
+  fingerprintWorkspace,
+  isFsVerificationEnabled,
+  isWorkspaceUnchanged,
+  type WorkspaceFingerprint,
+  type WorkspaceVerification,
+} from './workspace-fingerprint.js';
+import {
+  compileConsultSchema,
+  schemaInstructions,
+  schemaRetryQuestion,
+  validateStructuredData,
+  type ConsultSchema,
+  type SchemaCheck,
+} from './structured-output.js';
+import type { z } from 'zod';
+import {
+  OUTBOUND_POLICIES,
+  createDeltaRedactor,
+  hasOutboundFindings,
+  isOutboundPolicy,
+  resolveOutboundSettings,
+  scanConsultAnswer,
+  type OutboundPolicy,
+  type OutboundScan,
+  type OutboundSettings,
+} from './answer-scan.js';
+import {
+  priceLeafUsage,
+  recordTraceSpend,
+  resolveBudgetUsd,
+  traceSpendUsd,
+  type ConsultSpend,
+  type LeafUsage,
+} from './budget.js';
+import {
+  BUILTIN_HARNESS_IDS,
+  MODEL_PLACEHOLDER,
+  PROMPT_PLACEHOLDER,
+  loadHarnessRegistry,
+  readJsonPath,
+  type HarnessDefinition,
+} from './harness-registry.js';
 
 // Re-export so any existing callers that import redactSecrets from this file keep working.
 // (Canonical implementation now lives in transform-policy.ts.)
 export { redactSecrets } from './transform-policy.js';
 
-export type HarnessId = 'gemini' | 'codex' | 'claude';
+/** Harnesses with a hand-written adapter in this build. */
+export type BuiltinHarnessId = (typeof BUILTIN_HARNESS_IDS)[number];
+
+/**
+ * Any consult target: a built-in id, or one declared in harnesses.json
+ * (see harness-registry.ts). Unknown ids fail with HARNESS_NOT_WIRED.
+ */
+export type HarnessId = BuiltinHarnessId | (string & {});
 
 /** Harnesses with a wired adapter in this build. */
-export const SUPPORTED_HARNESSES: readonly HarnessId[] = ['gemini', 'codex', 'claude'];
+export const SUPPORTED_HARNESSES: readonly BuiltinHarnessId[] = BUILTIN_HARNESS_IDS;
+
+/** Built-in harnesses plus every valid declarative definition currently on disk. */
+export function listAvailableHarnesses(): HarnessId[] {
+  return [...SUPPORTED_HARNESSES, ...loadHarnessRegistry().definitions.keys()];
+}
 
 /**
  * Invoke tier selection for runHarnessConsult.
@@ -66,8 +154,116 @@ export interface HarnessConsultRequest {
    * Can also be set workspace-wide via GRAPHYN_CONSULT_TIER=acp env var.
    */
   tier?: ConsultTier;
+  /**
+   * Trace id to stamp on this consult. Defaults to the inherited
+   * GRAPHYN_JUNCTION_TRACE_ID (or a fresh UUID). Fan-out callers pass one
+   * shared id so every leaf of the same question lands on the same trace.
+   */
+  traceId?: string;
+  /**
+   * Streaming callback (`graphyn consult --stream`). When set, the junction
+   * uses the leaf's native streaming output where it has one and reports
+   * progress as it happens instead of only after the leaf exits.
+   */
+  onStreamEvent?: (event: ConsultStreamEvent) => void;
+  /**
+   * Keep the transformed (redacted) question and the answer in the consult
+   * audit log. Off by default: the log stores hashes only. Also enabled by
+   * GRAPHYN_CONSULT_STORE_CONTENT=1.
+   */
+  storeContent?: boolean;
+  /**
+   * USD spend cap for the whole junction trace (`--budget-usd`). Overrides an
+   * inherited GRAPHYN_JUNCTION_BUDGET_USD and `budget.maxUsdPerTrace` in
+   * consult.json. See budget.ts.
+   */
+  budgetUsd?: number;
+  /**
+   * Why the caller is asking (`--intent`). Injected into the session preamble
+   * with the caller, chain position, and workspace/thread ids so the leaf
+   * knows who it is advising.
+   */
+  intent?: string;
+  /**
+   * Answer-shape mode (`--mode`). Prepends the versioned contract for that
+   * mode (see mode-contracts.ts) so every harness answers in the same shape.
+   */
+  mode?: SessionMode;
+  /**
+   * Attach the top N local knowledge-base docs (`--with-knowledge[=N]`),
+   * found with the base binary's `search`. A missing or failing base
+   * degrades to no context; the receipt records why.
+   */
+  withKnowledge?: number;
+  /**
+   * Virtual paths (`/repo/src/foo.ts`) to inline into the question
+   * (`--attach`). Read through the VFS under the caller's runtime grant; any
+   * denied path fails the consult with ATTACHMENT_DENIED. See attachments.ts.
+   */
+  attach?: string[];
+  /**
+   * Named multi-turn session (`--session`). Follow-ups reach the same
+   * harness-side conversation: a pooled ACP session, or the subprocess
+   * leaf's own resume flag. See consult-sessions.ts.
+   */
+  session?: string;
+  /**
+   * Cancels the consult (the CLI wires Ctrl-C to it). ACP leaves get
+   * `session/cancel`, subprocess leaves SIGTERM; either is killed after a
+   * grace period. The result is HARNESS_CANCELLED with the partial answer.
+   */
+  signal?: AbortSignal;
+  /**
+   * Response cache (`--cache` / `--no-cache`). Defaults to consult.json
+   * `cache.enabled`, which is off. Ignored with `session`. See response-cache.ts.
+   */
+  cache?: boolean;
+  /**
+   * What a secret or prompt-injection finding in the answer does
+   * (`--outbound-policy`): `annotate` (default) redacts and records it,
+   * `block` fails with HARNESS_OUTPUT_BLOCKED. See answer-scan.ts.
+   */
+  outboundPolicy?: OutboundPolicy;
+  /**
+   * JSON Schema the answer must satisfy (`--schema`). The leaf is asked for
+   * JSON only and retried once on a mismatch; the parsed object is returned
+   * as `data`. See structured-output.ts.
+   */
+  schema?: ConsultSchema;
+  /**
+   * Receipt id of an earlier consult whose stored transformed input is this
+   * `question` (`consult replay`). The question goes to the leaf as-is:
+   * session preamble, mode contract, knowledge and attachments are not added
+   * again, and redaction runs over already-redacted text. See replay.ts.
+   */
+  replayOf?: string;
+  /**
+   * Fingerprint the working tree before and after the leaf (`--verify-fs`)
+   * and fail with HARNESS_UNSAFE_OUTPUT if anything changed, instead of
+   * trusting the leaf's own read-only report. Defaults to consult.json
+   * `readOnly.verifyFs`. See workspace-fingerprint.ts.
+   */
+  verifyFs?: boolean;
 }
 
+/**
+ * Progress events emitted while a consult runs. The CLI writes them as NDJSON
+ * (one JSON object per line); `final` is always the last event of a consult.
+ */
+export type ConsultStreamEvent =
+  | {
+      type: 'start';
+      toHarness: HarnessId | string;
+      tier: ConsultTier;
+      junctionTraceId: string;
+      junctionDepth: number;
+      timestamp: string;
+    }
+  | { type: 'delta'; toHarness: HarnessId | string; text: string }
+  | { type: 'model'; toHarness: HarnessId | string; model: string }
+  | { type: 'fallback'; fromHarness: HarnessId | string; toHarness: HarnessId | string; errorCode: HarnessConsultErrorCode }
+  | { type: 'final'; toHarness: HarnessId | string; result: HarnessConsultResult };
+
 export interface HarnessConsultReceipt {
   /** Deterministic transform-policy receipt (stage chain + SHA-256 hashes). */
   transform: TransformReceipt;
@@ -83,35 +279,82 @@ export interface HarnessConsultReceipt {
   junctionTraceId: string;
   /** Number of env keys stripped from the leaf environment (G2 audit). */
   strippedEnvKeyCount: number;
+  /** USD recorded for the whole trace, including this consult (budget audit). */
+  junctionSpendUsd: number;
+  /** Spend cap that applied to the trace, when one was set. */
+  junctionBudgetUsd?: number;
+  /** Session this consult ran in (`--session`). */
+  session?: ConsultSessionInfo;
+  /** ACP tier: every agent → client request and the read-only policy's decision. */
+  agentRequests?: AcpAgentRequestRecord[];
+  /** ACP tier: tool calls the leaf reported (kind, title, status, hashed locations). */
+  toolActivity?: AcpToolActivity[];
+  /** Outbound scan of the answer: secret rules that fired (and were redacted), injection markers. */
+  outbound?: OutboundScan;
+  /** `--verify-fs`: the working tree was fingerprinted around the leaf and found unchanged. */
+  fsVerification?: WorkspaceVerification;
 }
 
 export interface HarnessConsultSuccess {
   ok: true;
+  /** Id of this consult's entry in the hash-chained audit log (see receipt-log.ts). */
+  receiptId?: string;
   fromHarness: string;
   toHarness: HarnessId;
   /** Model the leaf reported answering with, when available. */
   answeredByModel?: string;
   response: string;
   durationMs: number;
+  /** Tokens and USD for this consult, when the leaf reports usage. */
+  usage?: ConsultSpend;
+  /** Set when the response cache was consulted: a hit names the receipt it replays. */
+  cache?: ConsultCacheInfo;
+  /** Every harness tried when a fallback chain ran (see fallback.ts). */
+  attempts?: ConsultAttempt[];
+  /** `--schema`: the answer's JSON object, validated against the schema. */
+  data?: unknown;
+  /** Time spent waiting for a machine-wide harness slot (see harness-slots.ts); not part of `durationMs`. */
+  queueWaitMs?: number;
   receipt: HarnessConsultReceipt;
 }
 
 export type HarnessConsultErrorCode =
   | 'BAD_REQUEST'
+  | 'ATTACHMENT_DENIED'
   | 'HARNESS_NOT_WIRED'
   | 'HARNESS_UNAVAILABLE'
   | 'HARNESS_TIMEOUT'
+  | 'HARNESS_QUEUE_TIMEOUT'
   | 'HARNESS_FAILED'
   | 'HARNESS_UNPARSEABLE'
   | 'HARNESS_UNSAFE_OUTPUT'
-  | 'JUNCTION_DEPTH_EXCEEDED';
+  | 'HARNESS_OUTPUT_BLOCKED'
+  | 'HARNESS_SCHEMA_MISMATCH'
+  | 'HARNESS_CANCELLED'
+  | 'JUNCTION_DEPTH_EXCEEDED'
+  | 'JUNCTION_LOOP_DETECTED'
+  | 'JUNCTION_BUDGET_EXCEEDED';
 
 export interface HarnessConsultFailure {
   ok: false;
+  /** Id of this consult's entry in the hash-chained audit log (see receipt-log.ts). */
+  receiptId?: string;
   toHarness: HarnessId | string;
   errorCode: HarnessConsultErrorCode;
   error: string;
   actionable: string;
+  /** HARNESS_CANCELLED: answer text the leaf streamed before it was stopped. */
+  partialResponse?: string;
+  /** HARNESS_OUTPUT_BLOCKED: what the outbound scan found. */
+  outbound?: OutboundScan;
+  /** HARNESS_SCHEMA_MISMATCH: why the last answer failed validation (`partialResponse` holds it). */
+  schemaErrors?: string[];
+  /** Every harness tried when a fallback chain ran (see fallback.ts). */
+  attempts?: ConsultAttempt[];
+  /** Time spent waiting for a harness slot; for HARNESS_QUEUE_TIMEOUT, the whole wait. */
+  queueWaitMs?: number;
+  /** HARNESS_UNSAFE_OUTPUT from `--verify-fs`: the hashed paths the leaf changed. */
+  fsVerification?: WorkspaceVerification;
 }
 
 export type HarnessConsultResult = HarnessConsultSuccess | HarnessConsultFailure;
@@ -160,6 +403,7 @@ interface ProcessResult {
   stdout: string;
   stderr: string;
   timedOut: boolean;
+  cancelled: boolean;
   spawnError?: NodeJS.ErrnoException;
 }
 
@@ -168,31 +412,66 @@ function runProcess(
   argv: string[],
   timeoutMs: number,
   env: NodeJS.ProcessEnv,
+  onStdoutLine?: (line: string) => void,
+  signal?: AbortSignal,
 ): Promise<ProcessResult> {
   return new Promise((resolve) => {
-    const child = spawn(command, argv, { stdio: ['ignore', 'pipe', 'pipe'], env });
+    // Own process group, so stopping the leaf also stops whatever it forked.
+    const child = spawn(command, argv, { stdio: ['ignore', 'pipe', 'pipe'], env, cwd: junctionCwd(), detached: true });
     let stdout = '';
     let stderr = '';
+    let lineBuffer = '';
     let timedOut = false;
+    let cancelled = false;
 
+    // Hand complete stdout lines to the streaming parser as they arrive.
+    const flushLines = (final: boolean): void => {
+      if (!onStdoutLine) return;
+      let nl: number;
+      while ((nl = lineBuffer.indexOf('\n')) >= 0) {
+        const line = lineBuffer.slice(0, nl).trim();
+        lineBuffer = lineBuffer.slice(nl + 1);
+        if (line) onStdoutLine(line);
+      }
+      if (final && lineBuffer.trim()) {
+        onStdoutLine(lineBuffer.trim());
+        lineBuffer = '';
+      }
+    };
+
+    // SIGTERM first, SIGKILL after the grace period (process-tree.ts).
     const timer = setTimeout(() => {
       timedOut = true;
-      child.kill('SIGKILL');
+      terminateProcessTree(child);
     }, timeoutMs);
+    const onAbort = (): void => {
+      if (timedOut || cancelled) return;
+      cancelled = true;
+      terminateProcessTree(child);
+    };
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+    const settle = (result: Omit<ProcessResult, 'timedOut' | 'cancelled'>): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve({ ...result, timedOut, cancelled });
+    };
 
     child.stdout.on('data', (chunk: Buffer) => {
-      stdout += chunk.toString();
+      const text = chunk.toString();
+      stdout += text;
+      lineBuffer += text;
+      flushLines(false);
     });
     child.stderr.on('data', (chunk: Buffer) => {
       stderr += chunk.toString();
     });
     child.on('error', (err: NodeJS.ErrnoException) => {
-      clearTimeout(timer);
-      resolve({ code: null, stdout, stderr, timedOut, spawnError: err });
+      settle({ code: null, stdout, stderr, spawnError: err });
     });
     child.on('close', (code) => {
-      clearTimeout(timer);
-      resolve({ code, stdout, stderr, timedOut });
+      flushLines(true);
+      settle({ code, stdout, stderr });
     });
   });
 }
@@ -214,31 +493,62 @@ function extractJson(raw: string): unknown {
 
 // ─── Adapter interface + leaves ───────────────────────────────────────────────
 
+interface ParsedLeafOutput {
+  response: string;
+  model?: string;
+  readOnlyVerified: boolean;
+  /** Token usage, for leaves whose output reports it (priced in budget.ts). */
+  usage?: LeafUsage;
+  /** The leaf's own conversation id, for leaves that can resume (`--session`). */
+  sessionId?: string;
+}
+
+/** Incremental information found in one line of a leaf's streaming output. */
+interface LeafStreamUpdate {
+  delta?: string;
+  model?: string;
+}
+
 interface HarnessAdapter {
   readonly id: HarnessId;
   /** The leaf binary on PATH. */
   readonly binary: string;
-  buildArgv(prompt: string, req: HarnessConsultRequest): string[];
+  /**
+   * True when the leaf can continue an earlier conversation: buildArgv then
+   * honours `resumeSessionId` and parseOutput reports `sessionId`.
+   */
+  readonly supportsResume?: boolean;
+  buildArgv(prompt: string, req: HarnessConsultRequest, resumeSessionId?: string): string[];
   /** Parse the leaf's stdout into a normalized answer + read-only verification. */
-  parseOutput(stdout: string): { response: string; model?: string; readOnlyVerified: boolean };
+  parseOutput(stdout: string): ParsedLeafOutput;
+  /**
+   * Streaming support (optional). Leaves without a line-oriented output
+   * format skip these and stream only the final answer.
+   */
+  buildStreamArgv?(prompt: string, req: HarnessConsultRequest, resumeSessionId?: string): string[];
+  parseStreamLine?(line: string): LeafStreamUpdate;
+  parseStreamOutput?(stdout: string): ParsedLeafOutput;
 }
 
 class GeminiHarnessAdapter implements HarnessAdapter {
   readonly id = 'gemini' as const;
   readonly binary = 'gemini';
+  readonly supportsResume = true;
 
-  buildArgv(prompt: string, req: HarnessConsultRequest): string[] {
+  buildArgv(prompt: string, req: HarnessConsultRequest, resumeSessionId?: string): string[] {
     // `--approval-mode plan` = read-only mode; `-o json` = machine-parseable envelope.
     const argv = ['-p', prompt, '--approval-mode', 'plan', '-o', 'json'];
     if (req.model) argv.push('-m', req.model);
+    if (resumeSessionId) argv.push('--resume', resumeSessionId);
     return argv;
   }
 
-  parseOutput(stdout: string): { response: string; model?: string; readOnlyVerified: boolean } {
+  parseOutput(stdout: string): ParsedLeafOutput {
     const parsed = extractJson(stdout) as {
       response?: string;
+      session_id?: string;
       stats?: {
-        models?: Record<string, unknown>;
+        models?: Record<string, { tokens?: { prompt?: number; candidates?: number; thoughts?: number } }>;
         files?: { totalLinesAdded?: number; totalLinesRemoved?: number };
       };
     };
@@ -246,34 +556,60 @@ class GeminiHarnessAdapter implements HarnessAdapter {
     const linesAdded = parsed.stats?.files?.totalLinesAdded ?? 0;
     const linesRemoved = parsed.stats?.files?.totalLinesRemoved ?? 0;
     const model = parsed.stats?.models ? Object.keys(parsed.stats.models)[0] : undefined;
-    return { response, model, readOnlyVerified: linesAdded === 0 && linesRemoved === 0 };
+    // stats.models carries per-model token counts; thinking tokens bill as output.
+    const usage: LeafUsage | undefined = parsed.stats?.models
+      ? {
+          models: Object.entries(parsed.stats.models).map(([modelId, entry]) => ({
+            model: modelId,
+            inputTokens: entry?.tokens?.prompt ?? 0,
+            outputTokens: (entry?.tokens?.candidates ?? 0) + (entry?.tokens?.thoughts ?? 0),
+          })),
+        }
+      : undefined;
+    return {
+      response,
+      model,
+      readOnlyVerified: linesAdded === 0 && linesRemoved === 0,
+      usage,
+      ...(typeof parsed.session_id === 'string' ? { sessionId: parsed.session_id } : {}),
+    };
   }
 }
 
 class CodexHarnessAdapter implements HarnessAdapter {
   readonly id = 'codex' as const;
   readonly binary = 'codex';
+  readonly supportsResume = true;
 
-  buildArgv(prompt: string, req: HarnessConsultRequest): string[] {
+  buildArgv(prompt: string, req: HarnessConsultRequest, resumeSessionId?: string): string[] {
     // `-s read-only` sandboxes the leaf at the OS level (no writes, no escalation).
     // `--ignore-user-config` is MANDATORY: the operator's ~/.codex/config.toml is
     // `danger-full-access` / `approval_policy = never` (W273 §6) and a consult must
     // never inherit it. `--skip-git-repo-check` lets the consult run outside a git repo.
     const argv = ['exec', '--skip-git-repo-check', '--ignore-user-config', '-s', 'read-only', '--json'];
     if (req.model) argv.push('-m', req.model);
+    // `exec resume <id>` continues a thread; the sandbox flags above still apply.
+    if (resumeSessionId) argv.push('resume', resumeSessionId);
     argv.push(prompt);
     return argv;
   }
 
-  parseOutput(stdout: string): { response: string; model?: string; readOnlyVerified: boolean } {
+  parseOutput(stdout: string): ParsedLeafOutput {
     // codex --json emits JSONL events; the answer is the text of the last
     // `item.completed` event whose `item.type` is `agent_message`. Non-JSON noise
     // lines (e.g. "Reading additional input from stdin…") are skipped.
     const messages: string[] = [];
+    let usage: LeafUsage | undefined;
+    let sessionId: string | undefined;
     for (const line of stdout.split('\n')) {
       const trimmed = line.trim();
       if (!trimmed) continue;
-      let evt: { type?: string; item?: { type?: string; text?: string } };
+      let evt: {
+        type?: string;
+        thread_id?: string;
+        item?: { type?: string; text?: string };
+        usage?: { input_tokens?: number; output_tokens?: number };
+      };
       try {
         evt = JSON.parse(trimmed);
       } catch {
@@ -282,38 +618,125 @@ class CodexHarnessAdapter implements HarnessAdapter {
       if (evt.type === 'item.completed' && evt.item?.type === 'agent_message' && typeof evt.item.text === 'string') {
         messages.push(evt.item.text);
       }
+      // `thread.started` carries the id `codex exec resume` takes.
+      if (evt.type === 'thread.started' && typeof evt.thread_id === 'string') {
+        sessionId = evt.thread_id;
+      }
+      // Each `turn.completed` event reports that turn's token usage.
+      if (evt.type === 'turn.completed' && evt.usage) {
+        usage ??= { models: [] };
+        usage.models.push({ inputTokens: evt.usage.input_tokens ?? 0, outputTokens: evt.usage.output_tokens ?? 0 });
+      }
     }
     const response = (messages.at(-1) ?? '').trim();
     // Read-only is guaranteed by the `-s read-only` OS sandbox in buildArgv (not
     // self-reported in the JSON), so a clean parse is sufficient verification.
     // codex --json does not surface the answering model, so `model` stays undefined.
-    return { response, readOnlyVerified: true };
+    return { response, readOnlyVerified: true, usage, ...(sessionId ? { sessionId } : {}) };
+  }
+
+  // `--json` is already JSONL, so the streaming argv is the normal argv.
+  buildStreamArgv(prompt: string, req: HarnessConsultRequest, resumeSessionId?: string): string[] {
+    return this.buildArgv(prompt, req, resumeSessionId);
+  }
+
+  parseStreamLine(line: string): LeafStreamUpdate {
+    try {
+      const evt = JSON.parse(line) as { type?: string; item?: { type?: string; text?: string } };
+      if (evt.type === 'item.completed' && evt.item?.type === 'agent_message' && typeof evt.item.text === 'string') {
+        return { delta: evt.item.text };
+      }
+    } catch {
+      // Non-JSON noise line.
+    }
+    return {};
   }
+
+  parseStreamOutput(stdout: string): ParsedLeafOutput {
+    return this.parseOutput(stdout);
+  }
+}
+
+interface ClaudeResultObject {
+  result?: string;
+  session_id?: string;
+  is_error?: boolean;
+  total_cost_usd?: number;
+  modelUsage?: Record<string, { inputTokens?: number; outputTokens?: number }>;
 }
 
 class ClaudeHarnessAdapter implements HarnessAdapter {
   readonly id = 'claude' as const;
   readonly binary = 'claude';
+  readonly supportsResume = true;
 
-  buildArgv(prompt: string, req: HarnessConsultRequest): string[] {
+  buildArgv(prompt: string, req: HarnessConsultRequest, resumeSessionId?: string): string[] {
     // Read-only is enforced by restricting --allowedTools to Read,Glob,Grep,
     // which excludes Write, Edit, and Bash. NEVER add bypassPermissions or
     // Write/Edit/Bash tools here — the consult contract requires advisory-only posture.
     // W273 §6 specifies these flags for the Claude leaf.
     const argv = ['-p', prompt, '--output-format', 'json', '--allowedTools', 'Read,Glob,Grep', '--permission-mode', 'default'];
     if (req.model) argv.push('--model', req.model);
+    if (resumeSessionId) argv.push('--resume', resumeSessionId);
     return argv;
   }
 
-  parseOutput(stdout: string): { response: string; model?: string; readOnlyVerified: boolean } {
+  parseOutput(stdout: string): ParsedLeafOutput {
     // `claude -p --output-format json` emits a single JSON object:
     //   { type, subtype, is_error, result, stop_reason, session_id, total_cost_usd,
     //     modelUsage: { "<model-id>": { inputTokens, outputTokens, ... }, ... }, ... }
-    const parsed = extractJson(stdout) as {
-      result?: string;
-      is_error?: boolean;
-      modelUsage?: Record<string, { inputTokens?: number; outputTokens?: number }>;
+    return this.parseResultObject(extractJson(stdout) as ClaudeResultObject);
+  }
+
+  buildStreamArgv(prompt: string, req: HarnessConsultRequest, resumeSessionId?: string): string[] {
+    // Same read-only tool restriction as buildArgv. `stream-json` in print mode
+    // requires --verbose; it emits one JSON event per line and ends with the
+    // same `result` object the json format returns.
+    const argv = ['-p', prompt, '--output-format', 'stream-json', '--verbose', '--allowedTools', 'Read,Glob,Grep', '--permission-mode', 'default'];
+    if (req.model) argv.push('--model', req.model);
+    if (resumeSessionId) argv.push('--resume', resumeSessionId);
+    return argv;
+  }
+
+  parseStreamLine(line: string): LeafStreamUpdate {
+    let evt: {
+      type?: string;
+      subtype?: string;
+      model?: string;
+      message?: { model?: string; content?: Array<{ type?: string; text?: string }> };
     };
+    try {
+      evt = JSON.parse(line);
+    } catch {
+      return {};
+    }
+    if (evt.type === 'system' && evt.subtype === 'init' && typeof evt.model === 'string') {
+      return { model: evt.model };
+    }
+    if (evt.type === 'assistant' && Array.isArray(evt.message?.content)) {
+      const text = evt.message.content
+        .filter(block => block.type === 'text' && typeof block.text === 'string')
+        .map(block => block.text)
+        .join('');
+      return text ? { delta: text } : {};
+    }
+    return {};
+  }
+
+  parseStreamOutput(stdout: string): ParsedLeafOutput {
+    const lines = stdout.split('\n').map(line => line.trim()).filter(Boolean).reverse();
+    for (const line of lines) {
+      try {
+        const evt = JSON.parse(line) as ClaudeResultObject & { type?: string };
+        if (evt.type === 'result') return this.parseResultObject(evt);
+      } catch {
+        continue;
+      }
+    }
+    throw new Error('no result event found in claude stream-json output');
+  }
+
+  private parseResultObject(parsed: ClaudeResultObject): ParsedLeafOutput {
 
     // If is_error is true the result field is an error string, not an answer.
     // Return empty response so the caller's empty-response guard maps it to HARNESS_UNPARSEABLE.
@@ -341,19 +764,125 @@ class ClaudeHarnessAdapter implements HarnessAdapter {
       }
     }
 
+    // claude reports its own dollar cost; the per-model counts are kept for audit.
+    const usage: LeafUsage | undefined = parsed.modelUsage
+      ? {
+          models: Object.entries(parsed.modelUsage).map(([modelId, entry]) => ({
+            model: modelId,
+            inputTokens: entry.inputTokens ?? 0,
+            outputTokens: entry.outputTokens ?? 0,
+          })),
+          ...(typeof parsed.total_cost_usd === 'number' ? { reportedCostUsd: parsed.total_cost_usd } : {}),
+        }
+      : undefined;
+
     // Read-only is guaranteed by --allowedTools "Read,Glob,Grep" in buildArgv
     // (excludes Write/Edit/Bash at the harness level, not self-reported).
     // Same pattern as the Codex -s read-only sandbox: a clean parse is sufficient.
-    return { response, model, readOnlyVerified: true };
+    const sessionId = typeof parsed.session_id === 'string' ? parsed.session_id : undefined;
+    return { response, model, readOnlyVerified: true, usage, ...(sessionId ? { sessionId } : {}) };
+  }
+}
+
+/**
+ * Leaf built from a harnesses.json definition. The registry has already
+ * checked that argv carries the definition's read-only flags and no
+ * permission-bypass flags, so — like Codex and Claude — read-only is enforced
+ * by invocation and a clean parse is sufficient verification.
+ */
+class DeclarativeHarnessAdapter implements HarnessAdapter {
+  readonly id: HarnessId;
+  readonly binary: string;
+
+  constructor(private readonly definition: HarnessDefinition) {
+    this.id = definition.id;
+    this.binary = definition.binary;
+  }
+
+  buildArgv(prompt: string, req: HarnessConsultRequest): string[] {
+    const argv = this.definition.argv.map(token => (token === PROMPT_PLACEHOLDER ? prompt : token));
+    if (req.model && this.definition.modelArgv) {
+      argv.push(...this.definition.modelArgv.map(token => token.split(MODEL_PLACEHOLDER).join(req.model!)));
+    }
+    return argv;
+  }
+
+  parseOutput(stdout: string): ParsedLeafOutput {
+    const { kind, responsePath, modelPath } = this.definition.output;
+    if (kind === 'text') {
+      return { response: stdout.trim(), readOnlyVerified: true };
+    }
+
+    const readString = (value: unknown, dottedPath: string | undefined): string | undefined => {
+      if (!dottedPath) return undefined;
+      const found = readJsonPath(value, dottedPath);
+      return typeof found === 'string' ? found : undefined;
+    };
+
+    if (kind === 'json') {
+      const parsed = extractJson(stdout);
+      return {
+        response: (readString(parsed, responsePath) ?? '').trim(),
+        model: readString(parsed, modelPath),
+        readOnlyVerified: true,
+      };
+    }
+
+    // jsonl-last: the answer is the last event carrying `responsePath`; the
+    // model is the first event carrying `modelPath`. Non-JSON lines are skipped.
+    let response: string | undefined;
+    let model: string | undefined;
+    for (const line of stdout.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      let evt: unknown;
+      try {
+        evt = JSON.parse(trimmed);
+      } catch {
+        continue;
+      }
+      response = readString(evt, responsePath) ?? response;
+      model = model ?? readString(evt, modelPath);
+    }
+    if (response === undefined) {
+      throw new Error(`no JSON line with "${responsePath}" found in harness output`);
+    }
+    return { response: response.trim(), model, readOnlyVerified: true };
   }
 }
 
-const ADAPTERS: Partial<Record<HarnessId, HarnessAdapter>> = {
+const ADAPTERS: Record<BuiltinHarnessId, HarnessAdapter> = {
   gemini: new GeminiHarnessAdapter(),
   codex: new CodexHarnessAdapter(),
   claude: new ClaudeHarnessAdapter(),
 };
 
+/**
+ * Find the adapter for a consult target: built-ins first, then harnesses.json.
+ * A refused definition surfaces its validation error instead of "not wired".
+ */
+function resolveHarnessAdapter(toHarness: HarnessId): { adapter: HarnessAdapter } | { error: string; actionable: string } {
+  if (Object.prototype.hasOwnProperty.call(ADAPTERS, toHarness)) {
+    return { adapter: ADAPTERS[toHarness as BuiltinHarnessId] };
+  }
+
+  const registry = loadHarnessRegistry();
+  const definition = registry.definitions.get(toHarness);
+  if (definition) return { adapter: new DeclarativeHarnessAdapter(definition) };
+
+  const refused = registry.errors.find(entry => entry.id === toHarness);
+  if (refused) {
+    return {
+      error: `Harness "${toHarness}" was refused: ${refused.error} (${refused.source}).`,
+      actionable: 'Fix the definition in harnesses.json; consult leaves must keep their read-only flags.',
+    };
+  }
+  return {
+    error: `Harness "${toHarness}" is not wired in this build.`,
+    actionable: `Available harnesses: ${[...SUPPORTED_HARNESSES, ...registry.definitions.keys()].join(', ')}. Add others in ~/.graphyn/harnesses.json.`,
+  };
+}
+
 function fail(
   toHarness: HarnessId | string,
   errorCode: HarnessConsultErrorCode,
@@ -370,55 +899,331 @@ function fail(
  * Read-only by default; redacts secrets; returns a receipt.
  */
 export async function runHarnessConsult(req: HarnessConsultRequest): Promise<HarnessConsultResult> {
+  // Resolve (or generate) the trace id propagated across the entire chain;
+  // a --schema retry stays on it.
+  const traceId = req.traceId || junctionEnv().GRAPHYN_JUNCTION_TRACE_ID || randomUUID();
+  const compiled = req.schema !== undefined ? compileConsultSchema(req.schema) : undefined;
+  const validator = compiled?.ok ? compiled.validator : undefined;
+
+  if (!validator || !req.schema || !req.question?.trim()) {
+    const { result } = await consultAndRecord({ ...req, traceId });
+    req.onStreamEvent?.({ type: 'final', toHarness: req.toHarness, result });
+    return result;
+  }
+
+  // --schema: ask for JSON, validate, and retry once with the errors fed back.
+  const schema = req.schema;
+  let { result, check } = await consultAndRecord(
+    { ...req, traceId, question: `${req.question}\n\n${schemaInstructions(schema)}` },
+    validator,
+  );
+  if (result.ok && check && !check.ok && !req.signal?.aborted) {
+    ({ result, check } = await consultAndRecord(
+      { ...req, traceId, question: schemaRetryQuestion(req.question, schema, check.errors, result.response) },
+      validator,
+    ));
+  }
+  if (result.ok && check) {
+    result = check.ok
+      ? { ...result, data: check.data }
+      : {
+          ...fail(
+            req.toHarness,
+            'HARNESS_SCHEMA_MISMATCH',
+            `${req.toHarness} answer did not match the schema after one retry: ${check.errors.join('; ')}`,
+            'Simplify the schema or the question; partialResponse holds the last answer.',
+          ),
+          ...(result.receiptId ? { receiptId: result.receiptId } : {}),
+          partialResponse: result.response,
+          schemaErrors: check.errors,
+        };
+  }
+  req.onStreamEvent?.({ type: 'final', toHarness: req.toHarness, result });
+  return result;
+}
+
+/** `extractJson` plus schema validation for a `--schema` answer. */
+function checkStructuredAnswer(answer: string, validator: z.ZodType): SchemaCheck {
+  let value: unknown;
+  try {
+    value = extractJson(answer);
+  } catch {
+    return { ok: false, errors: ['(root): the answer contains no JSON object'] };
+  }
+  return validateStructuredData(value, validator);
+}
+
+/**
+ * One leaf call: consult, outbound scan, schema check, audit log, cache.
+ * `req.traceId` is already resolved.
+ */
+async function consultAndRecord(
+  req: HarnessConsultRequest,
+  validator?: z.ZodType,
+): Promise<{ result: HarnessConsultResult; check?: SchemaCheck }> {
+  // Read the incoming depth from the env (set by the parent junction, if any).
+  const junction: JunctionContext = {
+    depth: parseInt(junctionEnv().GRAPHYN_JUNCTION_DEPTH ?? '0', 10) || 0,
+    traceId: req.traceId!,
+  };
+  const outbound = resolveOutboundSettings(req.outboundPolicy);
+  let leafResult: HarnessConsultResult;
+  try {
+    leafResult = await consultOnce(req, junction, outbound);
+    if (junction.fsBefore) leafResult = await verifyWorkspaceAfterLeaf(req.toHarness, leafResult, junction.fsBefore);
+  } finally {
+    junction.slot?.release();
+  }
+  const result = applyOutboundScan(req.toHarness, leafResult, outbound);
+  if (junction.queueWaitMs !== undefined) result.queueWaitMs = junction.queueWaitMs;
+  const check = validator && result.ok ? checkStructuredAnswer(result.response, validator) : undefined;
+
+  // Every consult, answered or not, lands in the hash-chained audit log.
+  const receiptId = recordConsultReceipt({
+    fromHarness: req.fromHarness ?? 'claude',
+    toHarness: req.toHarness,
+    question: req.question ?? '',
+    transformedInput: junction.transformedInput,
+    junctionDepth: junction.depth,
+    junctionTraceId: junction.traceId,
+    storeContent: req.storeContent,
+    vfsReceiptIds: junction.vfsReceiptIds,
+    ...(check ? { schemaValid: check.ok } : {}),
+    ...(req.replayOf ? { replayOf: req.replayOf } : {}),
+    result,
+  });
+  if (receiptId) result.receiptId = receiptId;
+
+  // A fresh answer under --cache is stored against the receipt that produced it
+  // (unless it failed --schema validation and is about to be retried).
+  if (result.ok && result.cache?.status === 'miss' && junction.cacheKey && check?.ok !== false) {
+    storeCachedResponse(junction.cacheKey, { toHarness: req.toHarness, model: req.model, mode: req.mode }, {
+      response: result.response,
+      answeredByModel: result.answeredByModel,
+      receiptId,
+    });
+  }
+  return { result, check };
+}
+
+/**
+ * `--verify-fs`: fingerprint the tree again now that the leaf is done. Any
+ * change replaces the result, answered or not, with HARNESS_UNSAFE_OUTPUT.
+ */
+async function verifyWorkspaceAfterLeaf(
+  toHarness: HarnessId,
+  result: HarnessConsultResult,
+  before: WorkspaceFingerprint,
+): Promise<HarnessConsultResult> {
+  const after = await fingerprintWorkspace(before.root);
+  if (!after.ok) {
+    return fail(toHarness, 'HARNESS_UNSAFE_OUTPUT', `Could not re-check the working tree after the ${toHarness} consult: ${after.error}.`, 'Refusing to return a consult result whose read-only posture is unverified.');
+  }
+  const verification = diffWorkspace(before, after.fingerprint);
+  if (isWorkspaceUnchanged(verification)) {
+    return result.ok ? { ...result, receipt: { ...result.receipt, fsVerification: verification } } : result;
+  }
+  const what = [
+    ...(verification.changedPathHashes.length > 0 ? [`${verification.changedPathHashes.length} path(s) changed`] : []),
+    ...(verification.gitStateChanged ? ['git state changed'] : []),
+  ].join(', ');
+  return {
+    ...fail(
+      toHarness,
+      'HARNESS_UNSAFE_OUTPUT',
+      `The working tree changed during a read-only ${toHarness} consult (${what}).`,
+      'Refusing to return a non-read-only consult result. Review the working tree (git status) before continuing.',
+    ),
+    fsVerification: verification,
+  };
+}
+
+/**
+ * Run the outbound scan (answer-scan.ts) over what the leaf returned. Under
+ * `block`, any finding turns the answer into HARNESS_OUTPUT_BLOCKED.
+ */
+function applyOutboundScan(
+  toHarness: HarnessId,
+  result: HarnessConsultResult,
+  settings: OutboundSettings,
+): HarnessConsultResult {
+  if (!result.ok) {
+    if (!result.partialResponse) return result;
+    const { text, scan } = scanConsultAnswer(result.partialResponse, settings);
+    const blocked = settings.policy === 'block' && hasOutboundFindings(scan);
+    return { ...result, partialResponse: blocked ? '' : text };
+  }
+
+  const { text, scan } = scanConsultAnswer(result.response, settings);
+  if (settings.policy === 'block' && hasOutboundFindings(scan)) {
+    const found = [...scan.redactionRuleIds, ...scan.injectionMarkers].join(', ');
+    return {
+      ...fail(
+        toHarness,
+        'HARNESS_OUTPUT_BLOCKED',
+        `${toHarness} answer was withheld by the outbound policy (${found}).`,
+        'Inspect the leaf by hand, or re-run with --outbound-policy annotate to get the redacted answer.',
+      ),
+      outbound: scan,
+    };
+  }
+  return { ...result, response: text, receipt: { ...result.receipt, outbound: scan } };
+}
+
+/** Chain position of one consult, shared between the entry point and the tiers. */
+interface JunctionContext {
+  depth: number;
+  traceId: string;
+  /** Set once the transform chain ran; the exact text handed to the leaf. */
+  transformedInput?: string;
+  /** VFS receipts left by `--attach` reads, allowed or denied. */
+  vfsReceiptIds?: string[];
+  /** Response-cache key, set when `--cache` looked this consult up. */
+  cacheKey?: string;
+  /** Harness slot held while the leaf runs; released once the consult settles. */
+  slot?: HarnessSlot;
+  queueWaitMs?: number;
+  /** `--verify-fs`: the working tree as it was just before the leaf started. */
+  fsBefore?: WorkspaceFingerprint;
+}
+
+async function consultOnce(
+  req: HarnessConsultRequest,
+  junction: JunctionContext,
+  outbound: OutboundSettings,
+): Promise<HarnessConsultResult> {
   const fromHarness = req.fromHarness ?? 'claude';
   const readOnly = req.readOnly !== false;
   const timeoutMs = req.timeoutMs ?? 120_000;
+  const incomingDepth = junction.depth;
+  const traceId = junction.traceId;
 
-  // ── Guardrail G3: recursion / depth cap ────────────────────────────────────
-  // Read the incoming depth from the env (set by the parent junction, if any).
-  const incomingDepth = parseInt(process.env.GRAPHYN_JUNCTION_DEPTH ?? '0', 10) || 0;
-  if (incomingDepth >= 3) {
+  // ── Guardrail G3: recursion / depth cap (consult.json junction.maxDepth) ──
+  const maxDepth = resolveMaxJunctionDepth();
+  if (incomingDepth >= maxDepth) {
     return fail(
       req.toHarness,
       'JUNCTION_DEPTH_EXCEEDED',
-      `Junction recursion depth ${incomingDepth} has reached the maximum of 3.`,
-      'An agent-calling-agent chain exceeded the depth cap. Review the calling chain for unbounded recursion.',
+      `Junction recursion depth ${incomingDepth} has reached the maximum of ${maxDepth}.`,
+      'An agent-calling-agent chain exceeded the depth cap. Review the calling chain for unbounded recursion, or raise junction.maxDepth in consult.json.',
     );
   }
-  // Resolve (or generate) the trace id propagated across the entire chain.
-  const traceId = process.env.GRAPHYN_JUNCTION_TRACE_ID || randomUUID();
 
   // ── Basic validation ───────────────────────────────────────────────────────
   if (!req.question || !req.question.trim()) {
     return fail(req.toHarness, 'BAD_REQUEST', 'Empty question.', 'Provide a question: graphyn consult --to gemini "your question".');
   }
+  if (req.mode !== undefined && !isConsultMode(req.mode)) {
+    return fail(req.toHarness, 'BAD_REQUEST', `Unknown consult mode "${req.mode}".`, `Use --mode ${CONSULT_MODES.join(' | ')}.`);
+  }
+  if (req.schema !== undefined) {
+    const compiled = compileConsultSchema(req.schema);
+    if (!compiled.ok) {
+      return fail(req.toHarness, 'BAD_REQUEST', `Unusable --schema: ${compiled.error}.`, 'Pass a JSON Schema object (draft 2020-12, 7, or 4).');
+    }
+  }
+  if (req.outboundPolicy !== undefined && !isOutboundPolicy(req.outboundPolicy)) {
+    return fail(req.toHarness, 'BAD_REQUEST', `Unknown outbound policy "${req.outboundPolicy}".`, `Use --outbound-policy ${OUTBOUND_POLICIES.join(' | ')}.`);
+  }
+  if (req.session !== undefined && !isValidSessionName(req.session)) {
+    return fail(req.toHarness, 'BAD_REQUEST', `Invalid session name "${req.session}".`, 'Use 1-64 letters, digits, dot, underscore, or dash: --session review-auth.');
+  }
 
-  const adapter = ADAPTERS[req.toHarness];
-  if (!adapter) {
+  // ── Loop detection: the same asker → target → question earlier in this chain ─
+  const chain = planJunctionHop(fromHarness, req.toHarness, req.question);
+  if (chain.repeats >= 0) {
     return fail(
       req.toHarness,
-      'HARNESS_NOT_WIRED',
-      `Harness "${req.toHarness}" is not wired in this build.`,
-      `Supported harnesses: ${SUPPORTED_HARNESSES.join(', ')}. (Codex/Claude leaves are the fast-follow — see W273 §8.)`,
+      'JUNCTION_LOOP_DETECTED',
+      `${chain.hop.asker} → ${req.toHarness} already asked this question at hop ${chain.repeats + 1} of trace ${traceId}.`,
+      'Two agents are bouncing the same question. Answer it at this level, or ask something narrower.',
     );
   }
 
+  const resolved = resolveHarnessAdapter(req.toHarness);
+  if (!('adapter' in resolved)) {
+    return fail(req.toHarness, 'HARNESS_NOT_WIRED', resolved.error, resolved.actionable);
+  }
+  const { adapter } = resolved;
+
+  // ── Junction budget: refuse once the trace has spent its USD cap ───────────
+  // The depth cap bounds recursion, not cost; spend is summed across every
+  // consult recorded on this trace (see budget.ts).
+  const budgetUsd = resolveBudgetUsd(req.budgetUsd);
+  const spentUsd = traceSpendUsd(traceId);
+  if (budgetUsd !== undefined && spentUsd >= budgetUsd) {
+    return fail(
+      req.toHarness,
+      'JUNCTION_BUDGET_EXCEEDED',
+      `Junction trace ${traceId} has spent $${spentUsd.toFixed(4)} of its $${budgetUsd.toFixed(2)} budget.`,
+      'Raise --budget-usd (or budget.maxUsdPerTrace in consult.json), or start a new trace.',
+    );
+  }
+
+  // ── Attachments: read through the VFS so grants and path policy apply ──────
+  let attachments: ConsultAttachment[] | undefined;
+  if (req.attach && req.attach.length > 0 && !req.replayOf) {
+    const read = await readConsultAttachments(req.attach);
+    junction.vfsReceiptIds = read.vfsReceiptIds;
+    if (!read.ok) {
+      return fail(
+        req.toHarness,
+        'ATTACHMENT_DENIED',
+        `Attachment ${read.virtualPath} was refused: ${read.reason}.`,
+        'Attach files under an allowed VFS mount (see `graphyn fs ls /`) with a runtime grant (GRAPHYN_VFS_GRANT_ID) that allows cat.',
+      );
+    }
+    attachments = read.attachments;
+  }
+
   // ── Guardrail G1 + redaction: apply the full transform chain on the RAW question.
   // Redaction now happens INSIDE applyConsultTransformPolicy (new contract from
   // transform-policy.ts). We pass the raw question; the chain handles redaction
   // before the deterministic transform stages, producing a combined receipt.
-  const { transformedInput, receipt, redacted } = applyConsultTransformPolicy(req.question);
+  // Stage 3 input: search the local knowledge base with the redacted question
+  // (the query lands in the base binary's argv).
+  const redaction = loadConsultConfig().redaction;
+  let knowledge: ConsultKnowledgeInput | undefined;
+  if (req.withKnowledge && req.withKnowledge > 0 && !req.replayOf) {
+    const search = await searchBaseDocs(redactSecrets(req.question, redaction).text, req.withKnowledge);
+    knowledge = search.ok
+      ? { docs: search.docs.map(doc => ({ path: doc.path, score: doc.score, snippet: doc.snippet })) }
+      : { docs: [], unavailableReason: `${search.code}: ${search.reason}` };
+  }
+
+  // Stage 1 gets the session context: caller, chain position, and the same
+  // workspace/thread ids `graphyn fs` reads from the environment.
+  // A replay already carries all of that in its stored input; only stage 4 runs.
+  const transformContext: ConsultTransformContext = req.replayOf ? { redaction } : {
+    session: {
+      fromHarness,
+      junctionDepth: incomingDepth,
+      junctionTraceId: traceId,
+      workspaceId: junctionEnv().GRAPHYN_WORKSPACE_ID,
+      threadId: junctionEnv().GRAPHYN_THREAD_ID,
+      intent: req.intent,
+    },
+    mode: req.mode,
+    knowledge,
+    attachments,
+    redaction,
+  };
+  const { transformedInput, receipt, redacted } = applyConsultTransformPolicy(req.question, transformContext);
+  junction.transformedInput = transformedInput;
 
   // ── Guardrail G2: build a secret-stripped leaf environment ─────────────────
   // The leaf inherits HOME, PATH, and other non-secret vars so CLIs can locate
   // their file-based auth (~/.codex, ~/.gemini). Secret-shaped keys are stripped.
   // GRAPHYN_JUNCTION_DEPTH and GRAPHYN_JUNCTION_TRACE_ID are explicitly set so
-  // any nested consult call is bounded and traceable.
-  // TODO(later-wave): junction_budget_usd needs a per-model cost map before USD
-  //   budgeting can be enforced here.
-  const { env: leafEnv, strippedCount } = buildLeafEnv(process.env, {
+  // any nested consult call is bounded and traceable; the depth cap, chain
+  // history (junction-chain.ts) and budget travel with them so nested leaves
+  // enforce the same limits.
+  const { env: leafEnv, strippedCount } = buildLeafEnv(junctionEnv(), {
     GRAPHYN_JUNCTION_DEPTH: String(incomingDepth + 1),
     GRAPHYN_JUNCTION_TRACE_ID: traceId,
+    GRAPHYN_JUNCTION_MAX_DEPTH: String(maxDepth),
+    GRAPHYN_JUNCTION_CHAIN: formatJunctionChain(chain.chain),
+    ...(budgetUsd !== undefined ? { GRAPHYN_JUNCTION_BUDGET_USD: String(budgetUsd) } : {}),
   });
 
   // ── Tier selection ─────────────────────────────────────────────────────────
@@ -432,18 +1237,172 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
   // Those fixes belong in a separate desktop session.  Tier 2 here is experimental.
   const effectiveTier: ConsultTier = req.tier ?? (process.env.GRAPHYN_CONSULT_TIER === 'acp' ? 'acp' : 'subprocess');
 
+  // ── Sessions (--session): continue the conversation recorded for this leaf ─
+  // A record from the other tier holds an id this tier cannot resume.
+  if (req.session && effectiveTier === 'subprocess' && !adapter.supportsResume) {
+    return fail(req.toHarness, 'BAD_REQUEST', `${req.toHarness} cannot resume a conversation, so --session is not available for it.`, 'Drop --session, or use --acp if the harness speaks ACP.');
+  }
+  const storedSession = req.session ? loadConsultSession(req.session, req.toHarness) : undefined;
+  const previousSession = storedSession?.tier === effectiveTier ? storedSession : undefined;
+  const sessionInfo = (harnessSessionId: string | undefined, resumed: boolean): ConsultSessionInfo | undefined => {
+    if (!req.session) return undefined;
+    // A turn that ran ahead of this one on the same session may have recorded itself meanwhile.
+    const latest = loadConsultSession(req.session, req.toHarness);
+    const record = recordSessionTurn(latest?.tier === effectiveTier ? latest : previousSession, {
+      name: req.session,
+      toHarness: req.toHarness,
+      tier: effectiveTier,
+      harnessSessionId,
+    });
+    return { name: req.session, ...(harnessSessionId ? { harnessSessionId } : {}), turn: record.turns, resumed };
+  };
+
+  // ── Streaming (--stream) ───────────────────────────────────────────────────
+  // Deltas and model detection are forwarded as they arrive; the `final` event
+  // is emitted by runHarnessConsult once the envelope is settled.
+  const emit = req.onStreamEvent;
+  let streamedDelta = false;
+  // Deltas are redacted a line at a time, so a secret an ACP chunk boundary
+  // splits still matches; a subprocess leaf's stream items are whole messages
+  // and go out as they are. Under `block` deltas are held back entirely and
+  // the scanned answer only leaves in the final event.
+  const deltaRedactor = createDeltaRedactor(outbound.redaction);
+  const sendDelta = (text: string): void => {
+    if (text) emit?.({ type: 'delta', toHarness: req.toHarness, text });
+  };
+  const emitDelta = (text: string, wholeMessage = false): void => {
+    if (!emit || !text || outbound.policy === 'block') return;
+    streamedDelta = true;
+    sendDelta(deltaRedactor.push(text) + (wholeMessage ? deltaRedactor.flush() : ''));
+  };
+  const emitModel = (model: string): void => {
+    emit?.({ type: 'model', toHarness: req.toHarness, model });
+  };
+  emit?.({
+    type: 'start',
+    toHarness: req.toHarness,
+    tier: effectiveTier,
+    junctionTraceId: traceId,
+    junctionDepth: incomingDepth,
+    timestamp: new Date().toISOString(),
+  });
+  // Leaves without native streaming still produce one delta with the whole answer.
+  const flushBufferedAnswer = (response: string): void => {
+    if (!streamedDelta) emitDelta(response);
+    sendDelta(deltaRedactor.flush());
+  };
+  const cancelled = (partialResponse: string): HarnessConsultFailure => ({
+    ...fail(req.toHarness, 'HARNESS_CANCELLED', `Consult to ${req.toHarness} was cancelled before it finished.`, 'Re-run the consult when ready; partialResponse holds what arrived.'),
+    partialResponse,
+  });
+  if (req.signal?.aborted) return cancelled('');
+
+  // ── Response cache (--cache): a repeat inside the TTL skips the leaf ───────
+  // Keyed on the transform without the per-consult trace id, so the same
+  // question from the same caller and chain position hashes the same.
+  const useCache = !req.session && isConsultCacheEnabled(req.cache);
+  const cacheMiss: { cache?: ConsultCacheInfo } = useCache ? { cache: { status: 'miss' } } : {};
+  if (useCache) {
+    const lookupStarted = Date.now();
+    const traceFree = applyConsultTransformPolicy(req.question, {
+      ...transformContext,
+      session: { ...transformContext.session, junctionTraceId: undefined },
+    });
+    junction.cacheKey = consultCacheKey(traceFree.receipt, { toHarness: req.toHarness, model: req.model, mode: req.mode }, outbound);
+    const cached = readCachedResponse(junction.cacheKey);
+    if (cached) {
+      if (cached.answeredByModel) emitModel(cached.answeredByModel);
+      flushBufferedAnswer(cached.response);
+      return {
+        ok: true,
+        fromHarness,
+        toHarness: req.toHarness,
+        answeredByModel: cached.answeredByModel,
+        response: cached.response,
+        durationMs: Date.now() - lookupStarted,
+        cache: { status: 'hit', ...(cached.receiptId ? { originalReceiptId: cached.receiptId } : {}), cachedAt: cached.createdAt },
+        receipt: {
+          transform: receipt,
+          redacted,
+          readOnlyEnforced: readOnly,
+          // No leaf ran.
+          invocationArgv: [],
+          junctionDepth: incomingDepth,
+          junctionTraceId: traceId,
+          strippedEnvKeyCount: strippedCount,
+          junctionSpendUsd: spentUsd,
+          ...(budgetUsd !== undefined ? { junctionBudgetUsd: budgetUsd } : {}),
+        },
+      };
+    }
+  }
+
+  // ── Concurrency: wait for a machine-wide slot on this harness ──────────────
+  // Cache hits never queue; nested consults ride on their root's slot. A slot
+  // lock held past the timeout, or a slots directory that cannot be used, is
+  // a queue timeout: the limit is never bypassed by running unslotted.
+  const slotLimit = incomingDepth === 0 ? resolveHarnessConcurrency(req.toHarness) : undefined;
+  if (slotLimit !== undefined) {
+    let queued: HarnessSlotAcquisition;
+    try {
+      queued = await acquireHarnessSlot(req.toHarness, slotLimit, { timeoutMs, ...(req.signal ? { signal: req.signal } : {}) });
+    } catch (err) {
+      return fail(
+        req.toHarness,
+        'HARNESS_QUEUE_TIMEOUT',
+        `Could not queue for a ${req.toHarness} slot: ${err instanceof Error ? err.message : String(err)}.`,
+        `Check that ${harnessSlotsDir()} is writable, or remove concurrency.byHarness.${req.toHarness} from consult.json.`,
+      );
+    }
+    junction.queueWaitMs = queued.ok ? queued.slot.waitedMs : queued.waitedMs;
+    if (!queued.ok) {
+      if (queued.reason === 'cancelled') return cancelled('');
+      return fail(
+        req.toHarness,
+        'HARNESS_QUEUE_TIMEOUT',
+        `No ${req.toHarness} slot freed up within ${timeoutMs}ms (${queued.ahead} consult(s) ahead, limit ${queued.limit}).`,
+        `Retry later, increase --timeout, or raise concurrency.byHarness.${req.toHarness} in consult.json.`,
+      );
+    }
+    junction.slot = queued.slot;
+  }
+
+  // ── Read-only verification (--verify-fs): fingerprint the tree the leaf runs in ─
+  // Checked again by consultAndRecord once the leaf is done. A tree that
+  // cannot be fingerprinted refuses the consult rather than run it unverified.
+  if (readOnly && isFsVerificationEnabled(req.verifyFs)) {
+    const before = await fingerprintWorkspace();
+    if (!before.ok) {
+      return fail(req.toHarness, 'BAD_REQUEST', `--verify-fs cannot fingerprint the working tree: ${before.error}.`, 'Run the consult from a smaller directory, or drop --verify-fs (consult.json readOnly.verifyFs).');
+    }
+    junction.fsBefore = before.fingerprint;
+  }
+
   if (effectiveTier === 'acp') {
+    // Bound now: a pooled session child outlives this request's scope.
+    const clientPolicy = createReadOnlyClientPolicy({ redaction, fsOptions: junctionFsOptions() });
     const acpOpts: AcpTransportOptions = {
       harnessBin: adapter.binary,
       prompt: transformedInput,
       timeoutMs,
       env: leafEnv,
+      clientPolicy,
+      ...(req.signal ? { signal: req.signal } : {}),
+      ...(emit ? { onAnswerChunk: emitDelta, onModelDetected: emitModel } : {}),
     };
     const acpStarted = Date.now();
-    const acpResult = await runAcpTransport(acpOpts);
+    const acpResult = req.session
+      ? await runAcpSessionTurn({ ...acpOpts, sessionName: req.session, toHarness: req.toHarness })
+      : await runAcpTransport(acpOpts);
     const acpDuration = Date.now() - acpStarted;
+    // Files the agent read through the client policy join the audit log like --attach reads.
+    const agentReadReceiptIds = clientPolicy.requests.flatMap(entry => (entry.vfsReceiptId ? [entry.vfsReceiptId] : []));
+    if (agentReadReceiptIds.length > 0) {
+      junction.vfsReceiptIds = [...(junction.vfsReceiptIds ?? []), ...agentReadReceiptIds];
+    }
 
     if (!acpResult.ok) {
+      if (acpResult.errorCode === 'ACP_CANCELLED') return cancelled(acpResult.partialAnswer ?? '');
       // Map ACP error codes to HarnessConsultErrorCode.
       const codeMap: Record<string, HarnessConsultErrorCode> = {
         ACP_SPAWN_ERROR: 'HARNESS_UNAVAILABLE',
@@ -457,11 +1416,22 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
       return fail(req.toHarness, mappedCode, acpResult.error, `ACP Tier-2 transport failed (${acpResult.errorCode}). See SHIP-GATE note in acp-transport.ts.`);
     }
 
-    // ACP Tier-2 has no filesystem-write evidence — trust the read-only posture
-    // enforced by the advisory consult contract (caller's readOnly flag is advisory;
-    // the ACP protocol does not surface file-write stats like Tier-1 gemini -o json).
-    // This mirrors the Codex + Claude Tier-1 adapters which also set readOnlyVerified: true
-    // by protocol rather than by self-report.
+    // The leaf's own tool reports are the ACP write evidence (Tier-1 gemini's
+    // `stats.files` equivalent): any write-capable kind, whatever its final
+    // status, means the leaf tried to change the workspace.
+    const writeTools = acpResult.toolActivity.filter(tool => ACP_WRITE_TOOL_KINDS.includes(tool.kind));
+    if (readOnly && writeTools.length > 0) {
+      const kinds = [...new Set(writeTools.map(tool => tool.kind))].join(', ');
+      return fail(
+        req.toHarness,
+        'HARNESS_UNSAFE_OUTPUT',
+        `${adapter.binary} --acp ran ${writeTools.length} write-capable tool call(s) (${kinds}) during a read-only consult.`,
+        'Refusing to return a non-read-only consult result.',
+      );
+    }
+
+    flushBufferedAnswer(acpResult.answerText);
+    const acpSession = sessionInfo(acpResult.sessionId, 'resumed' in acpResult && acpResult.resumed === true);
     return {
       ok: true,
       fromHarness,
@@ -469,6 +1439,7 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
       answeredByModel: acpResult.modelId,
       response: acpResult.answerText,
       durationMs: acpDuration,
+      ...cacheMiss,
       receipt: {
         transform: receipt,
         redacted,
@@ -477,16 +1448,39 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
         junctionDepth: incomingDepth,
         junctionTraceId: traceId,
         strippedEnvKeyCount: strippedCount,
+        junctionSpendUsd: spentUsd,
+        ...(budgetUsd !== undefined ? { junctionBudgetUsd: budgetUsd } : {}),
+        ...(acpSession ? { session: acpSession } : {}),
+        ...(clientPolicy.requests.length > 0 ? { agentRequests: clientPolicy.requests } : {}),
+        ...(acpResult.toolActivity.length > 0 ? { toolActivity: acpResult.toolActivity } : {}),
       },
     };
   }
 
   // ── Tier 1: one-shot subprocess (default) ─────────────────────────────────
-  const argv = adapter.buildArgv(transformedInput, req);
+  const streaming = Boolean(emit && adapter.parseStreamLine);
+  const resumeSessionId = previousSession?.harnessSessionId;
+  const argv = streaming && adapter.buildStreamArgv
+    ? adapter.buildStreamArgv(transformedInput, req, resumeSessionId)
+    : adapter.buildArgv(transformedInput, req, resumeSessionId);
+  // Streamed deltas double as the partial answer if the consult is cancelled.
+  let partialResponse = '';
+  const onStdoutLine = streaming
+    ? (line: string): void => {
+        const update = adapter.parseStreamLine!(line);
+        if (update.model) emitModel(update.model);
+        if (update.delta) {
+          partialResponse += update.delta;
+          emitDelta(update.delta, true);
+        }
+      }
+    : undefined;
   const started = Date.now();
-  const result = await runProcess(adapter.binary, argv, timeoutMs, leafEnv);
+  const result = await runProcess(adapter.binary, argv, timeoutMs, leafEnv, onStdoutLine, req.signal);
   const durationMs = Date.now() - started;
 
+  if (result.cancelled) return cancelled(partialResponse);
+
   if (result.spawnError) {
     if (result.spawnError.code === 'ENOENT') {
       return fail(req.toHarness, 'HARNESS_UNAVAILABLE', `"${adapter.binary}" is not installed or not on PATH.`, `Install the ${req.toHarness} CLI and ensure it is on PATH.`);
@@ -501,9 +1495,11 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
     return fail(req.toHarness, 'HARNESS_FAILED', `${adapter.binary} exited with code ${result.code}. ${detail}`, 'Check the harness CLI auth/config and retry.');
   }
 
-  let parsed: { response: string; model?: string; readOnlyVerified: boolean };
+  let parsed: ParsedLeafOutput;
   try {
-    parsed = adapter.parseOutput(result.stdout);
+    parsed = streaming && adapter.parseStreamOutput
+      ? adapter.parseStreamOutput(result.stdout)
+      : adapter.parseOutput(result.stdout);
   } catch (err) {
     return fail(req.toHarness, 'HARNESS_UNPARSEABLE', `Could not parse ${adapter.binary} output: ${err instanceof Error ? err.message : String(err)}`, 'The harness output format may have changed; inspect raw output.');
   }
@@ -516,6 +1512,20 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
     return fail(req.toHarness, 'HARNESS_UNPARSEABLE', `${adapter.binary} returned an empty answer.`, 'Retry; if it persists the harness may have errored silently.');
   }
 
+  // Record what this consult cost so later consults on the trace see it.
+  const usage = parsed.usage ? priceLeafUsage(req.toHarness, parsed.usage, req.model) : undefined;
+  if (usage) {
+    recordTraceSpend(traceId, {
+      timestamp: new Date().toISOString(),
+      toHarness: req.toHarness,
+      ...(parsed.model ? { model: parsed.model } : {}),
+      ...usage,
+    });
+  }
+
+  if (!streaming && parsed.model) emitModel(parsed.model);
+  flushBufferedAnswer(parsed.response);
+  const leafSession = sessionInfo(parsed.sessionId ?? resumeSessionId, Boolean(resumeSessionId));
   return {
     ok: true,
     fromHarness,
@@ -523,6 +1533,8 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
     answeredByModel: parsed.model,
     response: parsed.response,
     durationMs,
+    ...(usage ? { usage } : {}),
+    ...cacheMiss,
     receipt: {
       transform: receipt,
       redacted,
@@ -531,6 +1543,9 @@ export async function runHarnessConsult(req: HarnessConsultRequest): Promise<Har
       junctionDepth: incomingDepth,
       junctionTraceId: traceId,
       strippedEnvKeyCount: strippedCount,
+      junctionSpendUsd: spentUsd + (usage?.costUsd ?? 0),
+      ...(budgetUsd !== undefined ? { junctionBudgetUsd: budgetUsd } : {}),
+      ...(leafSession ? { session: leafSession } : {}),
     },
   };
 }
@@ -0,0 +1,331 @@
+/**
+ * Harness doctor — readiness checks for consult leaves (`graphyn consult doctor`).
+ *
+ * Most HARNESS_FAILED / HARNESS_UNAVAILABLE consults come down to the leaf
+ * install, not the junction: the binary is missing from PATH, it is too old
+ * for the flags `buildArgv` passes, or it was never logged in. For every
+ * built-in harness (and every harnesses.json definition) this reports:
+ *
+ *   - where the binary resolves on PATH,
+ *   - its `--version`, checked against the known-incompatibility table below,
+ *   - whether file-based auth exists. Only existence is checked; credential
+ *     files are never opened. API keys in the environment do not count: the
+ *     leaf environment strips secret-shaped variables (see buildLeafEnv).
+ *   - optionally, a canary consult with a one-word question (`--canary`),
+ *     which goes through the normal junction and lands in the audit log.
+ *
+ * `utils/doctor.ts` folds the same reports into `graphyn doctor`.
+ */
+
+import { spawn } from 'node:child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { SUPPORTED_HARNESSES, runHarnessConsult, type HarnessConsultErrorCode } from './harness-adapter.js';
+import { loadHarnessRegistry } from './harness-registry.js';
+
+/** How long `<binary> --version` may take before the probe gives up. */
+const VERSION_PROBE_TIMEOUT_MS = 5_000;
+
+const CANARY_QUESTION = 'Reply with the single word OK.';
+const CANARY_TIMEOUT_MS = 60_000;
+
+/** `degraded`: on PATH, but with a version, auth, or canary issue. */
+export type HarnessReadiness = 'ready' | 'degraded' | 'unavailable';
+
+export interface HarnessDoctorIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  actionable: string;
+}
+
+export interface HarnessAuthStatus {
+  /** `files`: found a credential file; `missing`: looked and found none; `unknown`: not checkable here. */
+  status: 'files' | 'missing' | 'unknown';
+  /** Credential paths that exist (never read). */
+  found: string[];
+  /** Paths that were looked for. */
+  checked: string[];
+}
+
+export interface HarnessCanaryResult {
+  ok: boolean;
+  durationMs: number;
+  receiptId?: string;
+  errorCode?: HarnessConsultErrorCode;
+  error?: string;
+}
+
+export interface HarnessDoctorReport {
+  harness: string;
+  binary: string;
+  /** True for harnesses.json definitions. */
+  declared: boolean;
+  readiness: HarnessReadiness;
+  /** Absolute path the binary resolves to on PATH. */
+  resolvedPath?: string;
+  /** First `x.y.z` in the `--version` output. */
+  version?: string;
+  auth: HarnessAuthStatus;
+  issues: HarnessDoctorIssue[];
+  canary?: HarnessCanaryResult;
+}
+
+export interface HarnessDoctorOptions {
+  /** Only check these harnesses (default: every built-in and declared one). */
+  harnesses?: string[];
+  /** Run the canary consult for every harness that resolved on PATH. */
+  canary?: boolean;
+  /** Overrides for tests. */
+  homeDir?: string;
+  pathEnv?: string;
+}
+
+/**
+ * Leaf versions known to break the invocation this build sends. Ranges are
+ * half-open: `below` is the first version that works.
+ */
+interface HarnessCompatRule {
+  harness: string;
+  below: string;
+  severity: HarnessDoctorIssue['severity'];
+  message: string;
+}
+
+export const HARNESS_COMPAT_RULES: readonly HarnessCompatRule[] = [
+  {
+    harness: 'gemini',
+    below: '0.42.0',
+    severity: 'warning',
+    message: 'ACP session/new is sent with cwd + mcpServers as gemini 0.42+ requires; older releases are untested on --tier acp.',
+  },
+  {
+    harness: 'gemini',
+    below: '0.20.0',
+    severity: 'error',
+    message: 'Missing `--approval-mode plan` / `-o json`, which the read-only consult argv relies on.',
+  },
+  {
+    harness: 'codex',
+    below: '0.40.0',
+    severity: 'error',
+    message: '`codex exec` lacks `--ignore-user-config` or `--json`; the read-only consult argv will be rejected.',
+  },
+  {
+    harness: 'claude',
+    below: '1.0.0',
+    severity: 'error',
+    message: 'Missing `--output-format json|stream-json` / `--allowedTools`, which the read-only consult argv relies on.',
+  },
+];
+
+/** Upgrade hint per built-in harness; declared harnesses get a generic one. */
+const UPGRADE_HINTS: Record<string, string> = {
+  gemini: 'npm install -g @google/gemini-cli@latest',
+  codex: 'npm install -g @openai/codex@latest',
+  claude: 'claude update',
+};
+
+const LOGIN_HINTS: Record<string, string> = {
+  gemini: 'Run `gemini` once and sign in.',
+  codex: 'Run `codex login`.',
+  claude: 'Run `claude` once and log in (`/login`).',
+};
+
+/** Where each built-in harness keeps file-based auth, relative to `home`. */
+function authCandidates(harness: string, home: string): string[] | undefined {
+  switch (harness) {
+    case 'codex': {
+      const codexHome = process.env.CODEX_HOME || path.join(home, '.codex');
+      return [path.join(codexHome, 'auth.json')];
+    }
+    case 'gemini':
+      return [path.join(home, '.gemini', 'oauth_creds.json'), path.join(home, '.gemini', 'google_accounts.json')];
+    case 'claude': {
+      const configDir = process.env.CLAUDE_CONFIG_DIR || path.join(home, '.claude');
+      return [path.join(configDir, '.credentials.json')];
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Existence (and non-emptiness) only: the file is stat'ed, never opened. */
+function checkAuth(harness: string, home: string): HarnessAuthStatus {
+  const checked = authCandidates(harness, home);
+  if (!checked) return { status: 'unknown', found: [], checked: [] };
+  const found = checked.filter(candidate => {
+    try {
+      return fs.statSync(candidate).size > 0;
+    } catch {
+      return false;
+    }
+  });
+  // Claude on macOS keeps credentials in the keychain, which we do not probe.
+  if (found.length === 0 && harness === 'claude' && process.platform === 'darwin') {
+    return { status: 'unknown', found, checked };
+  }
+  return { status: found.length > 0 ? 'files' : 'missing', found, checked };
+}
+
+/** Resolve `binary` the way the leaf spawn will: absolute as-is, else each PATH entry. */
+export function resolveOnPath(binary: string, pathEnv = process.env.PATH ?? ''): string | undefined {
+  const isExecutable = (candidate: string): boolean => {
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return fs.statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  };
+  if (binary.includes(path.sep)) return isExecutable(binary) ? path.resolve(binary) : undefined;
+  for (const dir of pathEnv.split(path.delimiter).filter(Boolean)) {
+    const candidate = path.join(dir, binary);
+    if (isExecutable(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/** Numeric compare of dotted versions; missing parts count as 0. */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/** `<binary> --version`, reduced to the first `x.y.z`. Undefined on failure or timeout. */
+function probeVersion(binary: string): Promise<string | undefined> {
+  return new Promise(resolve => {
+    let output = '';
+    let settled = false;
+    const finish = (version: string | undefined): void => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(version);
+    };
+    const child = spawn(binary, ['--version'], { stdio: ['ignore', 'pipe', 'pipe'] });
+    const timer = setTimeout(() => {
+      try { child.kill('SIGKILL'); } catch { /* ignore */ }
+      finish(undefined);
+    }, VERSION_PROBE_TIMEOUT_MS);
+    child.stdout?.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+    child.stderr?.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+    child.on('error', () => finish(undefined));
+    child.on('close', () => finish(output.match(/\d+\.\d+(?:\.\d+)?/)?.[0]));
+  });
+}
+
+async function runCanary(harness: string): Promise<HarnessCanaryResult> {
+  const started = Date.now();
+  const result = await runHarnessConsult({
+    fromHarness: 'graphyn-doctor',
+    toHarness: harness,
+    question: CANARY_QUESTION,
+    timeoutMs: CANARY_TIMEOUT_MS,
+    cache: false,
+  });
+  const durationMs = Date.now() - started;
+  return result.ok
+    ? { ok: true, durationMs, receiptId: result.receiptId }
+    : { ok: false, durationMs, receiptId: result.receiptId, errorCode: result.errorCode, error: result.error };
+}
+
+async function diagnoseHarness(
+  harness: string,
+  binary: string,
+  declared: boolean,
+  options: HarnessDoctorOptions,
+): Promise<HarnessDoctorReport> {
+  const home = options.homeDir ?? os.homedir();
+  const issues: HarnessDoctorIssue[] = [];
+  const upgrade = UPGRADE_HINTS[harness] ?? `Upgrade the ${binary} CLI.`;
+
+  const resolvedPath = resolveOnPath(binary, options.pathEnv);
+  const auth = checkAuth(harness, home);
+  if (!resolvedPath) {
+    issues.push({
+      severity: 'error',
+      message: `"${binary}" is not on PATH; consults to ${harness} fail with HARNESS_UNAVAILABLE.`,
+      actionable: declared ? `Install ${binary} or fix "binary" in harnesses.json.` : `Install it: ${upgrade}`,
+    });
+    return { harness, binary, declared, readiness: 'unavailable', auth, issues };
+  }
+
+  const version = await probeVersion(resolvedPath);
+  if (!version) {
+    issues.push({
+      severity: 'warning',
+      message: `Could not read a version from \`${binary} --version\`.`,
+      actionable: 'Check that the install is not broken; reinstall if the command hangs or errors.',
+    });
+  } else {
+    for (const rule of HARNESS_COMPAT_RULES) {
+      if (rule.harness === harness && compareVersions(version, rule.below) < 0) {
+        issues.push({
+          severity: rule.severity,
+          message: `${binary} ${version} < ${rule.below}: ${rule.message}`,
+          actionable: upgrade,
+        });
+      }
+    }
+  }
+
+  if (auth.status === 'missing') {
+    issues.push({
+      severity: 'warning',
+      message: `No ${harness} login found (${auth.checked.join(', ')}). API keys in the environment are stripped from leaves.`,
+      actionable: LOGIN_HINTS[harness] ?? `Log in to ${binary}.`,
+    });
+  }
+
+  const report: HarnessDoctorReport = {
+    harness,
+    binary,
+    declared,
+    readiness: issues.length > 0 ? 'degraded' : 'ready',
+    resolvedPath,
+    ...(version ? { version } : {}),
+    auth,
+    issues,
+  };
+
+  if (options.canary) {
+    report.canary = await runCanary(harness);
+    if (!report.canary.ok) {
+      report.issues.push({
+        severity: 'error',
+        message: `Canary consult failed with ${report.canary.errorCode}: ${report.canary.error}`,
+        actionable: 'Run the harness by hand with the same question to see its own error.',
+      });
+      report.readiness = 'degraded';
+    }
+  }
+  return report;
+}
+
+/** Diagnose every built-in and declared harness (or `options.harnesses`), in order. */
+export async function runHarnessDoctor(options: HarnessDoctorOptions = {}): Promise<HarnessDoctorReport[]> {
+  const targets: Array<{ harness: string; binary: string; declared: boolean }> = SUPPORTED_HARNESSES.map(harness => ({
+    harness,
+    binary: harness,
+    declared: false,
+  }));
+  for (const definition of loadHarnessRegistry().definitions.values()) {
+    targets.push({ harness: definition.id, binary: definition.binary, declared: true });
+  }
+
+  const wanted = options.harnesses ? new Set(options.harnesses) : undefined;
+  const reports: HarnessDoctorReport[] = [];
+  // Sequential: version probes and canaries are cheap, and this keeps output stable.
+  for (const target of targets) {
+    if (wanted && !wanted.has(target.harness)) continue;
+    reports.push(await diagnoseHarness(target.harness, target.binary, target.declared, options));
+  }
+  return reports;
+}
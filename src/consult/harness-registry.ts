@@ -0,0 +1,297 @@
+/**
+ * Declarative harness registry — consult leaves defined in JSON, not code.
+ *
+ * Gemini, Codex, and Claude ship as hand-written adapters in
+ * harness-adapter.ts. Any other local agent CLI (opencode, aider, goose,
+ * in-house tools) can be plugged in through a definition file:
+ *
+ *   ~/.graphyn/harnesses.json        user-level
+ *   <cwd>/.graphyn/harnesses.json    project-level (refines user entries only)
+ *
+ *   {
+ *     "harnesses": [
+ *       {
+ *         "id": "opencode",
+ *         "binary": "opencode",
+ *         "argv": ["run", "--agent", "plan", "--format", "json", "{prompt}"],
+ *         "modelArgv": ["-m", "{model}"],
+ *         "readOnlyFlags": ["--agent", "plan"],
+ *         "output": { "kind": "jsonl-last", "responsePath": "part.text", "modelPath": "model" }
+ *       }
+ *     ]
+ *   }
+ *
+ * The consult safety contract still holds for these leaves: a definition is
+ * refused (never half-loaded) when its `readOnlyFlags` are empty or missing
+ * from `argv`, when any argv token looks like a permission-bypass flag, or
+ * when it tries to shadow a built-in harness id.
+ *
+ * `readOnlyFlags` is the definition's own claim, so it only means something
+ * when the user wrote it. A project file arrives with whatever repo was
+ * cloned; it may change output parsing for an id the user already declared,
+ * but must keep that entry's binary, argv, modelArgv and readOnlyFlags. Any
+ * argv change could re-specify a read-only flag after the user's copy of it
+ * (`--agent plan … --agent build`), so argv is not refinable at all. It cannot
+ * introduce a binary of its own.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { graphynHomeDir } from '../vfs/paths.js';
+import { junctionCwd } from './junction-env.js';
+
+/** Harness ids with a hand-written adapter; definitions may not reuse them. */
+export const BUILTIN_HARNESS_IDS = ['gemini', 'codex', 'claude'] as const;
+
+/** Placeholder replaced by the (transformed) question in `argv`. */
+export const PROMPT_PLACEHOLDER = '{prompt}';
+/** Placeholder replaced by `--model` in `modelArgv`. */
+export const MODEL_PLACEHOLDER = '{model}';
+
+/**
+ * How a declarative leaf reports its answer on stdout.
+ *   json        one JSON object (leading/trailing noise tolerated)
+ *   jsonl-last  JSON lines; the last line whose `responsePath` is a string wins
+ *   text        the whole trimmed stdout is the answer
+ */
+export type HarnessOutputKind = 'json' | 'jsonl-last' | 'text';
+
+export interface HarnessOutputSpec {
+  kind: HarnessOutputKind;
+  /** Dotted path to the answer string (json / jsonl-last). */
+  responsePath?: string;
+  /** Dotted path to the answering model id, when the leaf reports one. */
+  modelPath?: string;
+}
+
+export interface HarnessDefinition {
+  id: string;
+  binary: string;
+  /** Full argv; exactly one token must be `{prompt}`. */
+  argv: string[];
+  /** Appended when the caller passes `--model`; `{model}` is substituted. */
+  modelArgv?: string[];
+  /** Flags that put the leaf in read-only mode. Must appear, in order, in `argv`. */
+  readOnlyFlags: string[];
+  output: HarnessOutputSpec;
+  /** File the definition was loaded from (set by the loader). */
+  source: string;
+}
+
+export interface HarnessDefinitionError {
+  id?: string;
+  source: string;
+  error: string;
+}
+
+export interface HarnessRegistry {
+  definitions: Map<string, HarnessDefinition>;
+  /** Refused definitions, keyed by id when one was readable. */
+  errors: HarnessDefinitionError[];
+}
+
+export interface HarnessRegistryOptions {
+  /** Project directory holding `.graphyn/harnesses.json`. Defaults to the caller's cwd. */
+  projectDir?: string;
+}
+
+/**
+ * Flags that grant a leaf write access or skip its permission prompts. Matched
+ * case-insensitively against every argv and modelArgv token.
+ */
+const DANGEROUS_FLAG_PATTERNS: readonly RegExp[] = [
+  /dangerous/i,
+  /danger-full-access/i,
+  /bypass/i,
+  /yolo/i,
+  /skip-permissions/i,
+  /full-auto/i,
+  /auto-?approve/i,
+  /^auto[_-]edit$/i,
+  /^--allow-all/i,
+  /^--no-sandbox$/i,
+  /^--write$/i,
+];
+
+const HARNESS_ID_PATTERN = /^[a-z][a-z0-9-]{0,31}$/;
+const OUTPUT_KINDS: readonly HarnessOutputKind[] = ['json', 'jsonl-last', 'text'];
+
+export function userHarnessesPath(): string {
+  return path.join(graphynHomeDir(), 'harnesses.json');
+}
+
+export function projectHarnessesPath(projectDir = junctionCwd()): string {
+  return path.join(projectDir, '.graphyn', 'harnesses.json');
+}
+
+/** Harness ids also name files (session records, slots), so the pattern keeps them path-safe. */
+export function isValidHarnessId(id: string): boolean {
+  return HARNESS_ID_PATTERN.test(id);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((token, offset) => haystack[start + offset] === token)) return true;
+  }
+  return false;
+}
+
+/**
+ * Validate one raw definition. Returns the definition, or the reason it was
+ * refused. Never throws.
+ */
+export function validateHarnessDefinition(
+  raw: unknown,
+  source: string,
+): { ok: true; definition: HarnessDefinition } | { ok: false; error: HarnessDefinitionError } {
+  const refuse = (error: string, id?: string) => ({ ok: false as const, error: { id, source, error } });
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return refuse('definition must be an object');
+
+  const value = raw as Record<string, unknown>;
+  const id = typeof value.id === 'string' ? value.id : undefined;
+  if (!id || !isValidHarnessId(id)) {
+    return refuse('id must be lowercase letters, digits, or dash (max 32 chars)', id);
+  }
+  if ((BUILTIN_HARNESS_IDS as readonly string[]).includes(id)) {
+    return refuse(`"${id}" is a built-in harness and cannot be redefined`, id);
+  }
+  if (typeof value.binary !== 'string' || !value.binary.trim()) {
+    return refuse('binary must be a non-empty string', id);
+  }
+  if (!isStringArray(value.argv) || value.argv.length === 0) {
+    return refuse('argv must be a non-empty array of strings', id);
+  }
+  if (value.argv.filter(token => token === PROMPT_PLACEHOLDER).length !== 1) {
+    return refuse(`argv must contain exactly one "${PROMPT_PLACEHOLDER}" token`, id);
+  }
+  if (value.modelArgv !== undefined && !isStringArray(value.modelArgv)) {
+    return refuse('modelArgv must be an array of strings', id);
+  }
+  if (!isStringArray(value.readOnlyFlags) || value.readOnlyFlags.length === 0) {
+    return refuse('readOnlyFlags must list the flags that keep the leaf read-only', id);
+  }
+  if (!containsSequence(value.argv, value.readOnlyFlags)) {
+    return refuse('argv does not include readOnlyFlags; a consult leaf must run read-only', id);
+  }
+
+  for (const token of [value.binary, ...value.argv, ...(value.modelArgv ?? [])]) {
+    if (DANGEROUS_FLAG_PATTERNS.some(pattern => pattern.test(token))) {
+      return refuse(`"${token}" looks like a permission-bypass flag`, id);
+    }
+  }
+
+  const output = value.output as Record<string, unknown> | undefined;
+  if (!output || typeof output !== 'object' || !OUTPUT_KINDS.includes(output.kind as HarnessOutputKind)) {
+    return refuse(`output.kind must be one of ${OUTPUT_KINDS.join(', ')}`, id);
+  }
+  const kind = output.kind as HarnessOutputKind;
+  if (kind !== 'text' && (typeof output.responsePath !== 'string' || !output.responsePath)) {
+    return refuse(`output.responsePath is required for ${kind} output`, id);
+  }
+  if (output.modelPath !== undefined && typeof output.modelPath !== 'string') {
+    return refuse('output.modelPath must be a string', id);
+  }
+
+  return {
+    ok: true,
+    definition: {
+      id,
+      binary: value.binary,
+      argv: value.argv,
+      ...(value.modelArgv ? { modelArgv: value.modelArgv } : {}),
+      readOnlyFlags: value.readOnlyFlags,
+      output: {
+        kind,
+        ...(typeof output.responsePath === 'string' ? { responsePath: output.responsePath } : {}),
+        ...(typeof output.modelPath === 'string' ? { modelPath: output.modelPath } : {}),
+      },
+      source,
+    },
+  };
+}
+
+/**
+ * Why a project definition may not stand in for the user's entry of the same
+ * id, or undefined when it keeps the user's binary and command line.
+ */
+function projectOverrideError(definition: HarnessDefinition, vouched: HarnessDefinition | undefined): string | undefined {
+  if (!vouched) {
+    return `project definitions can only refine a harness declared in ${userHarnessesPath()}; declare "${definition.id}" there first`;
+  }
+  if (definition.binary !== vouched.binary) {
+    return `binary "${definition.binary}" differs from "${vouched.binary}" in ${vouched.source}`;
+  }
+  if (definition.readOnlyFlags.join('\0') !== vouched.readOnlyFlags.join('\0')) {
+    return `readOnlyFlags differ from ${vouched.source}`;
+  }
+  if (definition.argv.join('\0') !== vouched.argv.join('\0')) {
+    return `argv differs from ${vouched.source}; a project file may only change output parsing`;
+  }
+  if ((definition.modelArgv ?? []).join('\0') !== (vouched.modelArgv ?? []).join('\0')) {
+    return `modelArgv differs from ${vouched.source}; a project file may only change output parsing`;
+  }
+  return undefined;
+}
+
+/**
+ * Load one harnesses.json into `registry`. With `vouched` (the user-level
+ * definitions), entries are project-level and checked against it.
+ */
+function loadFile(filePath: string, registry: HarnessRegistry, vouched?: ReadonlyMap<string, HarnessDefinition>): void {
+  if (!fs.existsSync(filePath)) return;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    registry.errors.push({ source: filePath, error: `invalid JSON: ${err instanceof Error ? err.message : String(err)}` });
+    return;
+  }
+
+  const entries = (parsed as { harnesses?: unknown })?.harnesses;
+  if (!Array.isArray(entries)) {
+    registry.errors.push({ source: filePath, error: 'expected { "harnesses": [...] }' });
+    return;
+  }
+
+  for (const entry of entries) {
+    let result = validateHarnessDefinition(entry, filePath);
+    const overrideError = result.ok && vouched ? projectOverrideError(result.definition, vouched.get(result.definition.id)) : undefined;
+    if (result.ok && overrideError) {
+      result = { ok: false, error: { id: result.definition.id, source: filePath, error: overrideError } };
+    }
+    if (result.ok) {
+      registry.definitions.set(result.definition.id, result.definition);
+    } else {
+      // A refused project definition must not leave a same-id user definition active.
+      if (result.error.id) registry.definitions.delete(result.error.id);
+      registry.errors.push(result.error);
+    }
+  }
+}
+
+/**
+ * Load user then project definitions. A project entry overrides the user
+ * entry with its id, provided it keeps that entry's binary and command line.
+ */
+export function loadHarnessRegistry(options: HarnessRegistryOptions = {}): HarnessRegistry {
+  const registry: HarnessRegistry = { definitions: new Map(), errors: [] };
+  loadFile(userHarnessesPath(), registry);
+  loadFile(projectHarnessesPath(options.projectDir), registry, new Map(registry.definitions));
+  return registry;
+}
+
+/** Read a dotted path ("a.b.0.c") from a parsed JSON value. */
+export function readJsonPath(value: unknown, dottedPath: string): unknown {
+  let current: unknown = value;
+  for (const segment of dottedPath.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
@@ -0,0 +1,210 @@
+/**
+ * Machine-wide concurrency limit per leaf harness.
+ *
+ * Every `graphyn consult` on the machine shares `~/.graphyn/consult/slots/`.
+ * Before a leaf is spawned the junction takes a numbered ticket in
+ * `slots/<harness>/` and waits until it is among the first N live tickets,
+ * N being the harness's limit. Tickets are handed out in order under a
+ * short mkdir lock (the same approach as `withReceiptLock`), so waiters are
+ * served first come, first served rather than by whoever polls luckiest.
+ *
+ * Stale recovery: a ticket whose process is gone, or whose heartbeat (the
+ * file's mtime, refreshed while it waits or runs) is older than 30s, is
+ * removed by the next process that scans the queue. A lock directory left
+ * behind by a crashed process is broken after 10s.
+ *
+ * Limits come from consult.json `concurrency.byHarness.<id>`, then
+ * `concurrency.default`, then 2. A limit of 0 turns the limiter off for that
+ * harness. Waiting, for the lock as for a slot, is bounded by the consult's
+ * own timeout; a consult that never gets a slot fails with
+ * HARNESS_QUEUE_TIMEOUT rather than running without one.
+ *
+ * Only top-level consults queue. A nested consult runs inside a leaf that
+ * already holds a slot, is bounded by the depth cap, and would deadlock a
+ * limit of 1 if it had to wait for its own parent.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { graphynHomeDir } from '../vfs/paths.js';
+import { loadConsultConfig } from './consult-config.js';
+
+export const DEFAULT_HARNESS_CONCURRENCY = 2;
+
+const POLL_MS = 100;
+const LOCK_POLL_MS = 20;
+const HEARTBEAT_MS = 5_000;
+const STALE_TICKET_MS = 30_000;
+const STALE_LOCK_MS = 10_000;
+const LOCK_WAIT_MS = 5_000;
+
+export interface HarnessSlot {
+  /** Milliseconds spent in the queue before the slot was granted. */
+  waitedMs: number;
+  release(): void;
+}
+
+export type HarnessSlotAcquisition =
+  | { ok: true; slot: HarnessSlot }
+  | { ok: false; reason: 'timeout' | 'cancelled'; waitedMs: number; limit: number; ahead: number };
+
+interface TicketInfo {
+  pid: number;
+  createdAt: string;
+}
+
+export function harnessSlotsDir(): string {
+  return path.join(graphynHomeDir(), 'consult', 'slots');
+}
+
+/** The harness's slot limit, or undefined when it is unlimited. */
+export function resolveHarnessConcurrency(toHarness: string): number | undefined {
+  const config = loadConsultConfig().concurrency;
+  const candidates = [config?.byHarness?.[toHarness], config?.default];
+  const configured = candidates.find((value): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0);
+  const limit = configured ?? DEFAULT_HARNESS_CONCURRENCY;
+  return limit === 0 ? undefined : limit;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to someone else.
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function isStaleTicket(file: string): boolean {
+  let info: TicketInfo | undefined;
+  try {
+    info = JSON.parse(fs.readFileSync(file, 'utf8')) as TicketInfo;
+  } catch {
+    // Empty or unreadable: half-written (the lock makes this brief), or left
+    // by a crash between create and write. Only its age can tell.
+  }
+  if (info && (!Number.isInteger(info.pid) || !processAlive(info.pid))) return true;
+  try {
+    return Date.now() - fs.statSync(file).mtimeMs > STALE_TICKET_MS;
+  } catch {
+    // Gone: released while we looked.
+    return false;
+  }
+}
+
+/**
+ * Mkdir lock around ticket numbering, breaking a lock older than STALE_LOCK_MS.
+ * Resolves undefined when the lock is still held at `deadline`.
+ */
+async function withSlotLock<T>(dir: string, deadline: number, fn: () => T): Promise<T | undefined> {
+  const lockDir = path.join(dir, '.lock');
+  while (true) {
+    try {
+      fs.mkdirSync(lockDir);
+      break;
+    } catch {
+      try {
+        if (Date.now() - fs.statSync(lockDir).mtimeMs > STALE_LOCK_MS) fs.rmSync(lockDir, { recursive: true, force: true });
+      } catch {
+        // Released between mkdir and stat.
+      }
+      if (Date.now() >= deadline) return undefined;
+      await sleep(Math.min(LOCK_POLL_MS, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockDir, { recursive: true, force: true });
+  }
+}
+
+/** A new ticket at the back of the queue, or undefined if the lock was not free by `deadline`. */
+function takeTicket(dir: string, deadline: number): Promise<string | undefined> {
+  return withSlotLock(dir, deadline, () => {
+    const seqFile = path.join(dir, 'seq');
+    const previous = fs.existsSync(seqFile) ? Number(fs.readFileSync(seqFile, 'utf8')) || 0 : 0;
+    const next = previous + 1;
+    fs.writeFileSync(seqFile, String(next));
+    const ticket = path.join(dir, `${String(next).padStart(12, '0')}.ticket`);
+    const info: TicketInfo = { pid: process.pid, createdAt: new Date().toISOString() };
+    fs.writeFileSync(ticket, JSON.stringify(info), { mode: 0o600 });
+    return ticket;
+  });
+}
+
+/** Live tickets in queue order; stale ones are removed on the way. */
+function liveTickets(dir: string): string[] {
+  const live: string[] = [];
+  for (const name of fs.readdirSync(dir).filter(entry => entry.endsWith('.ticket')).sort()) {
+    const file = path.join(dir, name);
+    if (isStaleTicket(file)) fs.rmSync(file, { force: true });
+    else live.push(file);
+  }
+  return live;
+}
+
+/**
+ * Wait for a slot on `toHarness`. Resolves once this process holds one, or
+ * with the reason it gave up. Always `release()` a granted slot.
+ */
+export async function acquireHarnessSlot(
+  toHarness: string,
+  limit: number,
+  options: { timeoutMs: number; signal?: AbortSignal },
+): Promise<HarnessSlotAcquisition> {
+  const dir = path.join(harnessSlotsDir(), toHarness);
+  fs.mkdirSync(dir, { recursive: true });
+  const started = Date.now();
+  const lockDeadline = (): number => Math.min(Date.now() + LOCK_WAIT_MS, started + options.timeoutMs);
+  const lockTimeout = (): HarnessSlotAcquisition => ({ ok: false, reason: 'timeout', waitedMs: Date.now() - started, limit, ahead: 0 });
+  const first = await takeTicket(dir, lockDeadline());
+  if (!first) return lockTimeout();
+  let ticket = first;
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    try {
+      fs.utimesSync(ticket, now, now);
+    } catch {
+      // Removed as stale; the wait loop takes a new ticket.
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  const release = (): void => {
+    clearInterval(heartbeat);
+    fs.rmSync(ticket, { force: true });
+  };
+
+  while (true) {
+    const queue = liveTickets(dir);
+    let position = queue.indexOf(ticket);
+    if (position === -1) {
+      // Someone judged our ticket stale (a long event-loop stall); rejoin at the back.
+      const rejoined = await takeTicket(dir, lockDeadline());
+      if (!rejoined) {
+        release();
+        return lockTimeout();
+      }
+      ticket = rejoined;
+      position = liveTickets(dir).indexOf(ticket);
+    }
+    if (position >= 0 && position < limit) {
+      return { ok: true, slot: { waitedMs: Date.now() - started, release } };
+    }
+    const waitedMs = Date.now() - started;
+    const ahead = Math.max(position, 0);
+    if (options.signal?.aborted) {
+      release();
+      return { ok: false, reason: 'cancelled', waitedMs, limit, ahead };
+    }
+    if (waitedMs >= options.timeoutMs) {
+      release();
+      return { ok: false, reason: 'timeout', waitedMs, limit, ahead };
+    }
+    await sleep(Math.min(POLL_MS, options.timeoutMs - waitedMs));
+  }
+}
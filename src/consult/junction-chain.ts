@@ -0,0 +1,87 @@
+/**
+ * Junction chain history — loop detection beyond the depth cap.
+ *
+ * GRAPHYN_JUNCTION_DEPTH bounds how deep a chain can nest, but a legitimate
+ * three-hop chain and A→B→A ping-pong over the same question look alike to
+ * it. Every consult therefore hands its leaf a compact history of the hops
+ * above it in GRAPHYN_JUNCTION_CHAIN:
+ *
+ *   claude>codex:3f2a9c1d0b7e;codex>claude:3f2a9c1d0b7e
+ *
+ * Each hop is `asker>target:hash`, the hash being the first 12 hex digits of
+ * the SHA-256 of the question (whitespace-collapsed, lower-cased, before any
+ * preamble). A consult whose (asker, target, hash) triple already appears in
+ * the history is refused with JUNCTION_LOOP_DETECTED. The history follows the
+ * chain downward only, so siblings (fan-out, fallback retries) asking the
+ * same thing are not loops.
+ *
+ * The asker of a nested consult is the harness the parent junction spawned
+ * (the last hop's target), not the caller's `--from`, so a leaf cannot hide
+ * the bounce by mislabelling itself.
+ *
+ * The depth cap itself is per workspace: consult.json `junction.maxDepth`
+ * (default 3, at most 10). The cap in force is propagated as
+ * GRAPHYN_JUNCTION_MAX_DEPTH and wins in nested junctions, so a leaf running
+ * in another directory cannot raise it.
+ */
+
+import { sha256Hex } from '../vfs/hash.js';
+import { loadConsultConfig } from './consult-config.js';
+import { junctionEnv } from './junction-env.js';
+
+export const DEFAULT_MAX_JUNCTION_DEPTH = 3;
+/** Upper bound for `junction.maxDepth`, whatever the config says. */
+export const HARD_MAX_JUNCTION_DEPTH = 10;
+
+export interface JunctionHop {
+  asker: string;
+  target: string;
+  inputHash: string;
+}
+
+/** GRAPHYN_JUNCTION_MAX_DEPTH from a parent junction, else consult.json `junction.maxDepth`, else 3. */
+export function resolveMaxJunctionDepth(): number {
+  const candidates = [
+    junctionEnv().GRAPHYN_JUNCTION_MAX_DEPTH ? Number(junctionEnv().GRAPHYN_JUNCTION_MAX_DEPTH) : undefined,
+    loadConsultConfig().junction?.maxDepth,
+  ];
+  const configured = candidates.find((value): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0);
+  return Math.min(configured ?? DEFAULT_MAX_JUNCTION_DEPTH, HARD_MAX_JUNCTION_DEPTH);
+}
+
+/** Short, stable hash of a question for chain history (never the text itself). */
+export function junctionInputHash(question: string): string {
+  return sha256Hex(question.trim().replace(/\s+/g, ' ').toLowerCase()).slice(0, 12);
+}
+
+/** Parse GRAPHYN_JUNCTION_CHAIN; malformed hops are dropped. */
+export function parseJunctionChain(raw = junctionEnv().GRAPHYN_JUNCTION_CHAIN ?? ''): JunctionHop[] {
+  const hops: JunctionHop[] = [];
+  for (const entry of raw.split(';')) {
+    const match = /^([^>;:]+)>([^>;:]+):([0-9a-f]{12})$/.exec(entry.trim());
+    if (match) hops.push({ asker: match[1], target: match[2], inputHash: match[3] });
+  }
+  return hops;
+}
+
+export function formatJunctionChain(hops: JunctionHop[]): string {
+  return hops.map(hop => `${hop.asker}>${hop.target}:${hop.inputHash}`).join(';');
+}
+
+/**
+ * This consult's hop, appended to the inherited history. `repeats` is the
+ * index of an earlier identical hop, or -1.
+ */
+export function planJunctionHop(
+  fromHarness: string,
+  toHarness: string,
+  question: string,
+  inherited: JunctionHop[] = parseJunctionChain(),
+): { hop: JunctionHop; chain: JunctionHop[]; repeats: number } {
+  const asker = inherited.length > 0 ? inherited[inherited.length - 1].target : fromHarness;
+  const hop: JunctionHop = { asker, target: toHarness, inputHash: junctionInputHash(question) };
+  const repeats = inherited.findIndex(
+    earlier => earlier.asker === hop.asker && earlier.target === hop.target && earlier.inputHash === hop.inputHash,
+  );
+  return { hop, chain: [...inherited, hop], repeats };
+}
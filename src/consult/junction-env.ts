@@ -0,0 +1,76 @@
+/**
+ * Junction environment for the consult currently running.
+ *
+ * A CLI consult reads its chain position (GRAPHYN_JUNCTION_DEPTH, _TRACE_ID,
+ * _CHAIN, _MAX_DEPTH, _BUDGET_USD) and session ids from process.env, where a
+ * parent junction put them. `graphyn serve` answers many callers from one
+ * process, so each request carries its caller's values instead and runs
+ * inside `withJunctionEnv`; everything that reads them goes through
+ * `junctionEnv()`. Concurrent requests each see their own values.
+ *
+ * The same goes for where the caller is and who it is to the VFS. The CLI
+ * runs in the caller's directory with the caller's grant; the daemon runs in
+ * neither. `junctionCwd()` (project consult.json and harnesses.json, the
+ * `--verify-fs` root, the leaf's cwd) and `junctionFsOptions()` (`--attach`,
+ * ACP fs reads) return the request's values when it sent them.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import { fsOptionsFromEnv } from '../commands/fs.js';
+import type { FsGlobalOptions } from '../vfs/types.js';
+
+/** Variables a caller may hand to the junction for one request. */
+export const JUNCTION_ENV_KEYS = [
+  'GRAPHYN_JUNCTION_DEPTH',
+  'GRAPHYN_JUNCTION_TRACE_ID',
+  'GRAPHYN_JUNCTION_CHAIN',
+  'GRAPHYN_JUNCTION_MAX_DEPTH',
+  'GRAPHYN_JUNCTION_BUDGET_USD',
+  'GRAPHYN_WORKSPACE_ID',
+  'GRAPHYN_THREAD_ID',
+] as const;
+
+export type JunctionEnvKey = (typeof JUNCTION_ENV_KEYS)[number];
+
+/** The caller's directory and VFS identity, for a request that did not start in them. */
+export interface JunctionCaller {
+  /** Absolute directory the request is about. */
+  cwd?: string;
+  fsOptions?: FsGlobalOptions;
+}
+
+interface JunctionScope extends JunctionCaller {
+  env: NodeJS.ProcessEnv;
+}
+
+const scope = new AsyncLocalStorage<JunctionScope>();
+
+/** process.env, with the current request's junction variables laid over it. */
+export function junctionEnv(): NodeJS.ProcessEnv {
+  return scope.getStore()?.env ?? process.env;
+}
+
+/** The current request's directory, else process.cwd(). */
+export function junctionCwd(): string {
+  return scope.getStore()?.cwd ?? process.cwd();
+}
+
+/** The current request's VFS identity, else the one `graphyn fs` would use. */
+export function junctionFsOptions(): FsGlobalOptions {
+  return scope.getStore()?.fsOptions ?? fsOptionsFromEnv(junctionEnv());
+}
+
+/**
+ * Run `fn` with `overrides` laid over process.env, and in `caller`'s
+ * directory and VFS identity when given. Only JUNCTION_ENV_KEYS are taken;
+ * like the env vars a parent junction sets, they are trusted as given.
+ */
+export function withJunctionEnv<T>(overrides: Partial<Record<JunctionEnvKey, string>>, fn: () => T, caller: JunctionCaller = {}): T {
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  for (const key of JUNCTION_ENV_KEYS) {
+    const value = overrides[key];
+    if (typeof value === 'string') env[key] = value;
+  }
+  return scope.run({ env, ...caller }, fn);
+}
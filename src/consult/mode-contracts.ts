@@ -0,0 +1,69 @@
+/**
+ * Mode contracts — versioned answer-shape instructions for consult modes.
+ *
+ * `graphyn consult --mode ask|plan-first|code` prepends the contract for that
+ * mode (transform stage 2, applyModeContractInjection) so every harness is
+ * asked for the same answer shape and downstream agents can parse it. Modes
+ * are the `SessionMode` values base agents already declare.
+ *
+ * Contracts are immutable once shipped: changing the wording means adding a
+ * new id (`.v2`) so receipts keep pointing at the exact text a leaf saw. The
+ * receipt records the contract id and the SHA-256 of its text.
+ */
+
+import { createHash } from 'crypto';
+
+import type { SessionMode } from '../commands/base.js';
+
+export type { SessionMode };
+
+export interface ModeContract {
+  /** Stable, versioned id, e.g. `consult.mode.plan-first.v1`. */
+  id: string;
+  mode: SessionMode;
+  text: string;
+}
+
+export const CONSULT_MODES: readonly SessionMode[] = ['ask', 'plan-first', 'code'];
+
+export const MODE_CONTRACTS: Readonly<Record<SessionMode, ModeContract>> = {
+  ask: {
+    id: 'consult.mode.ask.v1',
+    mode: 'ask',
+    text: [
+      'Advisory only: do not modify files or run commands.',
+      'Answer the question directly in one short paragraph, then list supporting points as "- " bullets.',
+      'No code blocks longer than 20 lines.',
+    ].join('\n'),
+  },
+  'plan-first': {
+    id: 'consult.mode.plan-first.v1',
+    mode: 'plan-first',
+    text: [
+      'Advisory only: do not modify files or run commands.',
+      'Return a numbered plan ("1.", "2.", ...) with one concrete action per step.',
+      'Follow the plan with a "Risks:" section listing open risks as "- " bullets.',
+      'No code blocks longer than 10 lines.',
+    ].join('\n'),
+  },
+  code: {
+    id: 'consult.mode.code.v1',
+    mode: 'code',
+    text: [
+      'Advisory only: propose code, but do not write files or run commands.',
+      'Start with a one-paragraph summary of the change.',
+      'Give each proposed change as a fenced code block whose first line is a comment naming the file path.',
+      'No code block longer than 80 lines.',
+      'End with a "Verification:" section listing how to check the change.',
+    ].join('\n'),
+  },
+};
+
+export function isConsultMode(value: unknown): value is SessionMode {
+  return typeof value === 'string' && (CONSULT_MODES as readonly string[]).includes(value);
+}
+
+/** SHA-256 (hex) of the contract text, as recorded in the transform receipt. */
+export function modeContractHash(contract: ModeContract): string {
+  return createHash('sha256').update(contract.text, 'utf-8').digest('hex');
+}
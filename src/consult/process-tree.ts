@@ -0,0 +1,45 @@
+/**
+ * Leaf process-tree signalling for consult cancellation and timeouts.
+ *
+ * Leaves are spawned `detached`, which makes each one the leader of its own
+ * process group. Signals go to the whole group, so helpers a harness forks
+ * (node workers, MCP servers, shells) die with it instead of being orphaned.
+ * It also keeps a terminal Ctrl-C away from the leaves: the junction decides
+ * how they stop (see `runHarnessConsult`'s `signal`).
+ *
+ * Stopping is graceful first: SIGTERM (or ACP `session/cancel`), then SIGKILL
+ * once the grace period runs out.
+ */
+
+import type { ChildProcess } from 'node:child_process';
+
+/** How long a leaf gets to exit after SIGTERM / `session/cancel` before SIGKILL. */
+export const LEAF_KILL_GRACE_MS = 2_000;
+
+/** Signal the child's process group, falling back to the child alone. */
+export function signalProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (typeof child.pid === 'number') {
+    try {
+      process.kill(-child.pid, signal);
+      return;
+    } catch {
+      // Not a group leader (spawned without `detached`) or already gone.
+    }
+  }
+  try { child.kill(signal); } catch { /* ignore */ }
+}
+
+/**
+ * SIGTERM the tree now and SIGKILL it after `graceMs` unless the leader has
+ * exited. When the leader exits first, stragglers left in its group are
+ * killed right away so nothing outlives the consult.
+ */
+export function terminateProcessTree(child: ChildProcess, graceMs = LEAF_KILL_GRACE_MS): void {
+  signalProcessTree(child, 'SIGTERM');
+  const timer = setTimeout(() => signalProcessTree(child, 'SIGKILL'), graceMs);
+  child.once('close', () => {
+    clearTimeout(timer);
+    if (typeof child.pid !== 'number') return;
+    try { process.kill(-child.pid, 'SIGKILL'); } catch { /* group already empty */ }
+  });
+}
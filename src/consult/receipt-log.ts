@@ -0,0 +1,292 @@
+/**
+ * Consult audit log — a hash-chained JSONL record of every consult.
+ *
+ * `runHarnessConsult` hands its receipt back to the caller; this module keeps
+ * a durable copy so reviewers can prove which harness was asked what, and
+ * when, across an agent-calling-agent chain. The layout mirrors the VFS
+ * receipt store (`vfs/receipts.ts`): one JSONL file per UTC day under
+ * `~/.graphyn/consult/receipts/`, each row carrying `previousReceiptHash` and
+ * its own `receiptHash`, appended under the same mkdir lock.
+ *
+ * Question and answer are stored as SHA-256 hashes only. The transformed
+ * (already redacted) question and the answer text are kept only when the
+ * caller opts in (`storeContent` / GRAPHYN_CONSULT_STORE_CONTENT=1). The raw
+ * question is never written.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+import { sha256Hex } from '../vfs/hash.js';
+import { graphynHomeDir } from '../vfs/paths.js';
+import { lastReceiptHash, withReceiptLock } from '../vfs/receipts.js';
+import type {
+  HarnessConsultErrorCode,
+  HarnessConsultResult,
+} from './harness-adapter.js';
+
+export interface ConsultAuditRecord {
+  schemaVersion: 'consult.v1';
+  id: string;
+  timestamp: string;
+  junctionTraceId: string;
+  junctionDepth: number;
+  fromHarness: string;
+  toHarness: string;
+  ok: boolean;
+  errorCode?: HarnessConsultErrorCode;
+  answeredByModel?: string;
+  durationMs?: number;
+  /** Time spent waiting for a harness slot before the leaf ran. */
+  queueWaitMs?: number;
+  /** USD charged to the junction trace for this consult (see budget.ts). */
+  costUsd?: number;
+  /** `sha256:` of the raw operator question. */
+  questionHash: string;
+  /** `sha256:` of the transformed text handed to the leaf (= transform input_hash_after). */
+  transformedInputHash?: string;
+  answerHash?: string;
+  redacted?: boolean;
+  /** Redaction rule ids that fired on the question (transform `redaction_rule_ids`). */
+  redactionRuleIds?: string[];
+  readOnlyEnforced?: boolean;
+  /** `--verify-fs`: working-tree fingerprint diff around the leaf; changed paths are HMAC hashes. */
+  fsVerification?: { scope: 'git' | 'tree'; fileCount: number; changedPathHashes: string[]; gitStateChanged?: boolean };
+  /** Leaf argv with the prompt argument replaced by its hash. */
+  invocationArgv?: string[];
+  strippedEnvKeyCount?: number;
+  /** `--session` name and the turn this consult answered within it. */
+  session?: { name: string; turn: number };
+  /** `--cache`: whether the answer came from the response cache, and from which receipt. */
+  cache?: 'hit' | 'miss';
+  cachedFromReceiptId?: string;
+  /** VFS receipts of the `--attach` reads and agent file reads (see vfs/receipts.ts). */
+  vfsReceiptIds?: string[];
+  /** ACP tier: agent → client requests and the decision on each. */
+  agentRequests?: Array<{ method: string; decision: string; reason: string; virtualPath?: string; pathHash?: string }>;
+  /** ACP tier: tool calls the leaf reported; titles are kept, locations are hashes. */
+  toolActivity?: Array<{ kind: string; title?: string; status?: string; locationHashes: string[] }>;
+  /** `--schema`: whether the answer validated (a failed first answer is retried once). */
+  schemaValid?: boolean;
+  /** `consult replay`: the receipt whose stored input this consult re-sent. */
+  replayOfReceiptId?: string;
+  /** Outbound scan of the answer: secret rule ids redacted from it, injection markers found. */
+  outbound?: { policy: string; redactionRuleIds: string[]; injectionMarkers: string[] };
+  /** Opt-in plain content: the transformed question and the answer. */
+  content?: {
+    transformedInput: string;
+    answer?: string;
+  };
+  previousReceiptHash: string | null;
+  receiptHash: string;
+}
+
+export interface ConsultReceiptInput {
+  fromHarness: string;
+  toHarness: string;
+  question: string;
+  transformedInput?: string;
+  junctionDepth: number;
+  junctionTraceId: string;
+  storeContent?: boolean;
+  vfsReceiptIds?: string[];
+  /** `--schema`: whether this answer validated. */
+  schemaValid?: boolean;
+  /** `consult replay`: the receipt this consult re-sent. */
+  replayOf?: string;
+  result: HarnessConsultResult;
+}
+
+export interface ConsultReceiptVerification {
+  ok: boolean;
+  checked: number;
+  /** First row that failed, when the chain is broken. */
+  broken?: {
+    id?: string;
+    file: string;
+    line: number;
+    reason: 'malformed' | 'hash_mismatch' | 'chain_mismatch';
+  };
+}
+
+export function consultReceiptsDir(): string {
+  return path.join(graphynHomeDir(), 'consult', 'receipts');
+}
+
+function prefixedHash(value: string): string {
+  return `sha256:${sha256Hex(value)}`;
+}
+
+function storeContentEnabled(flag: boolean | undefined): boolean {
+  return flag === true || process.env.GRAPHYN_CONSULT_STORE_CONTENT === '1';
+}
+
+/**
+ * Append one consult to the audit log and return the new receipt.
+ * Throws on filesystem errors; see `recordConsultReceipt` for the
+ * never-throwing variant used on the consult path.
+ */
+export function appendConsultReceipt(input: ConsultReceiptInput): ConsultAuditRecord {
+  const receiptsDir = consultReceiptsDir();
+  fs.mkdirSync(receiptsDir, { recursive: true });
+
+  const { result } = input;
+  const withContent = storeContentEnabled(input.storeContent);
+  const prompt = input.transformedInput;
+
+  return withReceiptLock(receiptsDir, () => {
+    const previousReceiptHash = lastReceiptHash(receiptsDir);
+    const recordWithoutHash: Omit<ConsultAuditRecord, 'receiptHash'> = {
+      schemaVersion: 'consult.v1',
+      id: `crcpt_${randomUUID()}`,
+      timestamp: new Date().toISOString(),
+      junctionTraceId: input.junctionTraceId,
+      junctionDepth: input.junctionDepth,
+      fromHarness: input.fromHarness,
+      toHarness: input.toHarness,
+      ok: result.ok,
+      ...(result.ok ? {} : { errorCode: result.errorCode }),
+      ...(result.ok && result.answeredByModel ? { answeredByModel: result.answeredByModel } : {}),
+      ...(result.ok ? { durationMs: result.durationMs } : {}),
+      ...(result.queueWaitMs !== undefined ? { queueWaitMs: result.queueWaitMs } : {}),
+      ...(result.ok && result.usage ? { costUsd: result.usage.costUsd } : {}),
+      questionHash: prefixedHash(input.question),
+      ...(prompt !== undefined ? { transformedInputHash: prefixedHash(prompt) } : {}),
+      ...(result.ok
+        ? {
+            answerHash: prefixedHash(result.response),
+            redacted: result.receipt.redacted,
+            redactionRuleIds: result.receipt.transform.redaction_rule_ids,
+            readOnlyEnforced: result.receipt.readOnlyEnforced,
+            invocationArgv: result.receipt.invocationArgv.map(arg =>
+              prompt !== undefined && arg === prompt ? prefixedHash(arg) : arg,
+            ),
+            strippedEnvKeyCount: result.receipt.strippedEnvKeyCount,
+            ...(result.receipt.session
+              ? { session: { name: result.receipt.session.name, turn: result.receipt.session.turn } }
+              : {}),
+            ...(result.cache ? { cache: result.cache.status } : {}),
+            ...(result.cache?.status === 'hit' && result.cache.originalReceiptId
+              ? { cachedFromReceiptId: result.cache.originalReceiptId }
+              : {}),
+            ...(result.receipt.agentRequests
+              ? {
+                  agentRequests: result.receipt.agentRequests.map(({ method, decision, reason, virtualPath, pathHash }) => ({
+                    method,
+                    decision,
+                    reason,
+                    ...(virtualPath ? { virtualPath } : {}),
+                    ...(pathHash ? { pathHash } : {}),
+                  })),
+                }
+              : {}),
+            ...(result.receipt.toolActivity
+              ? {
+                  toolActivity: result.receipt.toolActivity.map(({ kind, title, status, locations }) => ({
+                    kind,
+                    ...(title ? { title } : {}),
+                    ...(status ? { status } : {}),
+                    locationHashes: locations.map(location => location.pathHash),
+                  })),
+                }
+              : {}),
+          }
+        : {}),
+      ...(input.schemaValid !== undefined ? { schemaValid: input.schemaValid } : {}),
+      ...(input.replayOf ? { replayOfReceiptId: input.replayOf } : {}),
+      ...(result.ok
+        ? result.receipt.outbound ? { outbound: result.receipt.outbound } : {}
+        : result.outbound ? { outbound: result.outbound } : {}),
+      ...(result.ok
+        ? result.receipt.fsVerification ? { fsVerification: result.receipt.fsVerification } : {}
+        : result.fsVerification ? { fsVerification: result.fsVerification } : {}),
+      ...(input.vfsReceiptIds && input.vfsReceiptIds.length > 0 ? { vfsReceiptIds: input.vfsReceiptIds } : {}),
+      ...(withContent && prompt !== undefined
+        ? { content: { transformedInput: prompt, ...(result.ok ? { answer: result.response } : {}) } }
+        : {}),
+      previousReceiptHash,
+    };
+
+    const record: ConsultAuditRecord = {
+      ...recordWithoutHash,
+      receiptHash: prefixedHash(JSON.stringify(recordWithoutHash)),
+    };
+    const filePath = path.join(receiptsDir, `${record.timestamp.slice(0, 10)}.jsonl`);
+    fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`, { encoding: 'utf8', mode: 0o600 });
+    return record;
+  });
+}
+
+/**
+ * Audit-log a consult without ever failing it: a consult that answered is
+ * still returned when the log cannot be written (the id is then omitted).
+ */
+export function recordConsultReceipt(input: ConsultReceiptInput): string | undefined {
+  try {
+    return appendConsultReceipt(input).id;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Read every row in chain order (oldest first), tagged with its file and line. */
+function readRows(): Array<{ file: string; line: number; raw: string }> {
+  const receiptsDir = consultReceiptsDir();
+  if (!fs.existsSync(receiptsDir)) return [];
+  const rows: Array<{ file: string; line: number; raw: string }> = [];
+  const files = fs.readdirSync(receiptsDir).filter(file => file.endsWith('.jsonl')).sort();
+  for (const file of files) {
+    const lines = fs.readFileSync(path.join(receiptsDir, file), 'utf8').split(/\r?\n/);
+    lines.forEach((raw, index) => {
+      if (raw.trim()) rows.push({ file, line: index + 1, raw });
+    });
+  }
+  return rows;
+}
+
+/** All parseable receipts, oldest first. Malformed rows are skipped. */
+export function listConsultReceipts(filter: { traceId?: string } = {}): ConsultAuditRecord[] {
+  const records: ConsultAuditRecord[] = [];
+  for (const row of readRows()) {
+    try {
+      const record = JSON.parse(row.raw) as ConsultAuditRecord;
+      if (filter.traceId && record.junctionTraceId !== filter.traceId) continue;
+      records.push(record);
+    } catch {
+      // Malformed rows are reported by verifyConsultReceipts, not listed.
+    }
+  }
+  return records;
+}
+
+export function findConsultReceipt(id: string): ConsultAuditRecord | null {
+  return listConsultReceipts().find(record => record.id === id) ?? null;
+}
+
+/**
+ * Recompute every row hash and check each row points at its predecessor.
+ * Stops at the first broken row.
+ */
+export function verifyConsultReceipts(): ConsultReceiptVerification {
+  let previous: string | null = null;
+  let checked = 0;
+  for (const row of readRows()) {
+    let record: ConsultAuditRecord;
+    try {
+      record = JSON.parse(row.raw) as ConsultAuditRecord;
+    } catch {
+      return { ok: false, checked, broken: { file: row.file, line: row.line, reason: 'malformed' } };
+    }
+    const { receiptHash, ...withoutHash } = record;
+    if (receiptHash !== prefixedHash(JSON.stringify(withoutHash))) {
+      return { ok: false, checked, broken: { id: record.id, file: row.file, line: row.line, reason: 'hash_mismatch' } };
+    }
+    if (record.previousReceiptHash !== previous) {
+      return { ok: false, checked, broken: { id: record.id, file: row.file, line: row.line, reason: 'chain_mismatch' } };
+    }
+    previous = receiptHash;
+    checked++;
+  }
+  return { ok: true, checked };
+}
@@ -0,0 +1,183 @@
+/**
+ * Consult replay — re-ask a recorded question and diff the answers.
+ *
+ * `graphyn consult replay <receipt-id> --to codex` takes the transformed
+ * input an earlier consult handed its leaf (kept in the audit log when that
+ * consult ran with --store-content) and sends it, byte for byte, to another
+ * harness or model. Replays are for comparing harnesses and upgrades on
+ * yesterday's questions without copy-paste.
+ *
+ * Byte identity is checked, not assumed. The stored input must hash to the
+ * receipt's `transformedInputHash` (the original transform's
+ * `input_hash_after`), and today's redaction rules must leave it unchanged.
+ * Either failing refuses the replay rather than comparing answers to
+ * different questions.
+ *
+ * The diff reports:
+ *   - similarity: Jaccard overlap of the two answers' word sets (0-1), when
+ *     the original answer was stored
+ *   - length and latency deltas, replay minus original
+ *   - whether the answering model changed
+ *   - redaction parity: whether the outbound scan redacted the same secret
+ *     rules from both answers
+ *
+ * The replay is itself a consult: it lands in the audit log with
+ * `replayOfReceiptId` pointing at the original, on a new trace.
+ */
+
+import { sha256Hex } from '../vfs/hash.js';
+import { loadConsultConfig } from './consult-config.js';
+import { findConsultReceipt } from './receipt-log.js';
+import { applyConsultTransformPolicy } from './transform-policy.js';
+import {
+  runHarnessConsult,
+  type ConsultTier,
+  type HarnessConsultResult,
+  type HarnessId,
+} from './harness-adapter.js';
+
+export interface ConsultReplayOptions {
+  receiptId: string;
+  /** Defaults to the harness that answered the original. */
+  toHarness?: HarnessId;
+  model?: string;
+  tier?: ConsultTier;
+  timeoutMs?: number;
+  storeContent?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ConsultReplaySide {
+  receiptId?: string;
+  toHarness: string;
+  ok: boolean;
+  errorCode?: string;
+  model?: string;
+  durationMs?: number;
+  /** Answer length in characters, when the answer is known. */
+  answerLength?: number;
+  /** Secret rules the outbound scan redacted from the answer. */
+  outboundRedactionRuleIds: string[];
+}
+
+export interface ConsultReplayDiff {
+  /** Word-set Jaccard similarity, 0-1. Absent when either answer is unknown. */
+  similarity?: number;
+  lengthDelta?: number;
+  latencyDeltaMs?: number;
+  modelChanged: boolean;
+  redactionParity: boolean;
+}
+
+export type ConsultReplayReport =
+  | {
+      ok: true;
+      /** `sha256:` of the input both consults received. */
+      inputHash: string;
+      original: ConsultReplaySide;
+      replay: ConsultReplaySide;
+      diff: ConsultReplayDiff;
+      result: HarnessConsultResult;
+    }
+  | { ok: false; error: string; actionable: string };
+
+/** Jaccard similarity of the lower-cased word sets, rounded to 3 places. */
+export function answerSimilarity(a: string, b: string): number {
+  const words = (text: string): Set<string> => new Set(text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []);
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 && right.size === 0) return 1;
+  let shared = 0;
+  for (const word of left) if (right.has(word)) shared++;
+  return Math.round((shared / (left.size + right.size - shared)) * 1000) / 1000;
+}
+
+const sameIds = (a: string[], b: string[]): boolean => [...a].sort().join(',') === [...b].sort().join(',');
+
+export async function replayConsult(options: ConsultReplayOptions): Promise<ConsultReplayReport> {
+  const record = findConsultReceipt(options.receiptId);
+  if (!record) {
+    return { ok: false, error: `Receipt not found: ${options.receiptId}`, actionable: 'List receipts with `graphyn consult receipts list`.' };
+  }
+  const input = record.content?.transformedInput;
+  if (input === undefined || !record.transformedInputHash) {
+    return {
+      ok: false,
+      error: `Receipt ${record.id} has no stored input.`,
+      actionable: 'Only consults run with --store-content (or GRAPHYN_CONSULT_STORE_CONTENT=1) can be replayed.',
+    };
+  }
+  const inputHash = `sha256:${sha256Hex(input)}`;
+  if (inputHash !== record.transformedInputHash) {
+    return {
+      ok: false,
+      error: `Stored input of ${record.id} does not match its transformedInputHash.`,
+      actionable: 'The audit log may have been edited; check it with `graphyn consult receipts verify`.',
+    };
+  }
+  const resent = applyConsultTransformPolicy(input, { redaction: loadConsultConfig().redaction });
+  if (`sha256:${resent.receipt.input_hash_after}` !== inputHash) {
+    return {
+      ok: false,
+      error: `Current redaction rules would change the stored input of ${record.id} (${resent.receipt.redaction_rule_ids.join(', ')}).`,
+      actionable: 'Replays must be byte-identical; replay with the redaction rules the original ran under.',
+    };
+  }
+
+  const toHarness = options.toHarness ?? record.toHarness;
+  const result = await runHarnessConsult({
+    fromHarness: 'graphyn-replay',
+    toHarness,
+    question: input,
+    replayOf: record.id,
+    ...(options.model ? { model: options.model } : {}),
+    ...(options.tier ? { tier: options.tier } : {}),
+    ...(options.timeoutMs ? { timeoutMs: options.timeoutMs } : {}),
+    ...(options.signal ? { signal: options.signal } : {}),
+    storeContent: options.storeContent,
+    cache: false,
+  });
+
+  const originalAnswer = record.content?.answer;
+  const original: ConsultReplaySide = {
+    receiptId: record.id,
+    toHarness: record.toHarness,
+    ok: record.ok,
+    ...(record.errorCode ? { errorCode: record.errorCode } : {}),
+    ...(record.answeredByModel ? { model: record.answeredByModel } : {}),
+    ...(record.durationMs !== undefined ? { durationMs: record.durationMs } : {}),
+    ...(originalAnswer !== undefined ? { answerLength: originalAnswer.length } : {}),
+    outboundRedactionRuleIds: record.outbound?.redactionRuleIds ?? [],
+  };
+  const replay: ConsultReplaySide = result.ok
+    ? {
+        ...(result.receiptId ? { receiptId: result.receiptId } : {}),
+        toHarness,
+        ok: true,
+        ...(result.answeredByModel ? { model: result.answeredByModel } : {}),
+        durationMs: result.durationMs,
+        answerLength: result.response.length,
+        outboundRedactionRuleIds: result.receipt.outbound?.redactionRuleIds ?? [],
+      }
+    : {
+        ...(result.receiptId ? { receiptId: result.receiptId } : {}),
+        toHarness,
+        ok: false,
+        errorCode: result.errorCode,
+        outboundRedactionRuleIds: result.outbound?.redactionRuleIds ?? [],
+      };
+
+  const diff: ConsultReplayDiff = {
+    ...(result.ok && originalAnswer !== undefined ? { similarity: answerSimilarity(originalAnswer, result.response) } : {}),
+    ...(original.answerLength !== undefined && replay.answerLength !== undefined
+      ? { lengthDelta: replay.answerLength - original.answerLength }
+      : {}),
+    ...(original.durationMs !== undefined && replay.durationMs !== undefined
+      ? { latencyDeltaMs: replay.durationMs - original.durationMs }
+      : {}),
+    modelChanged: original.model !== replay.model,
+    redactionParity: sameIds(original.outboundRedactionRuleIds, replay.outboundRedactionRuleIds),
+  };
+
+  return { ok: true, inputHash, original, replay, diff, result };
+}
@@ -0,0 +1,209 @@
+/**
+ * Consult response cache — opt-in, content-addressed answers (`--cache`).
+ *
+ * CI bots and looping agents ask the same question over and over; with the
+ * cache on, a repeat inside the TTL is answered from disk instead of a fresh
+ * paid leaf call. The key is a SHA-256 over exactly what decides the answer:
+ *
+ *   - the transform receipt's `input_hash_after` (the redacted, fully
+ *     transformed text the leaf would see), computed with the per-consult
+ *     junction trace id left out of the preamble so repeats can match,
+ *   - the target harness, the requested model, and the `--mode`,
+ *   - the VFS content hash of every attachment,
+ *   - the outbound settings (policy, injection check, redaction). The stored
+ *     answer is already scanned and redacted, so rescanning it on a hit finds
+ *     nothing; a consult under a stricter policy must miss and scan afresh.
+ *
+ * Entries live in `~/.graphyn/consult/cache/<key>.json` (0600) and hold the
+ * answer text plus the audit receipt id of the consult that produced it.
+ * Unlike the audit log, which keeps hashes only, the cache stores the answer,
+ * so it is off unless `--cache` or consult.json `cache.enabled` turns it on.
+ * `--session` consults are never cached: their answer depends on the
+ * conversation so far, which the key cannot see.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { sha256Hex } from '../vfs/hash.js';
+import { graphynHomeDir } from '../vfs/paths.js';
+import { loadConsultConfig } from './consult-config.js';
+import type { OutboundSettings } from './answer-scan.js';
+import type { TransformReceipt } from './transform-policy.js';
+
+export const DEFAULT_CACHE_TTL_MINUTES = 24 * 60;
+
+export interface ConsultCacheEntry {
+  schemaVersion: 'consult-cache.v1';
+  key: string;
+  toHarness: string;
+  /** Model requested with `--model`, if any (part of the key). */
+  model?: string;
+  mode?: string;
+  answeredByModel?: string;
+  response: string;
+  /** Audit receipt of the consult that produced the answer. */
+  receiptId?: string;
+  createdAt: string;
+  expiresAt: string;
+  hits: number;
+  lastHitAt?: string;
+}
+
+/** What a consult reports about the cache (`cache` on the success envelope). */
+export type ConsultCacheInfo =
+  | { status: 'hit'; originalReceiptId?: string; cachedAt: string }
+  | { status: 'miss' };
+
+export interface ConsultCacheTarget {
+  toHarness: string;
+  model?: string;
+  mode?: string;
+}
+
+export interface ConsultCacheStats {
+  entries: number;
+  expired: number;
+  bytes: number;
+  hits: number;
+  oldestAt?: string;
+  newestAt?: string;
+}
+
+export function consultCacheDir(): string {
+  return path.join(graphynHomeDir(), 'consult', 'cache');
+}
+
+function entryPath(key: string): string {
+  return path.join(consultCacheDir(), `${key}.json`);
+}
+
+/** `--cache` / `--no-cache` win; otherwise consult.json `cache.enabled` (default off). */
+export function isConsultCacheEnabled(requested?: boolean): boolean {
+  return requested ?? loadConsultConfig().cache?.enabled === true;
+}
+
+/** TTL from consult.json `cache.ttlMinutes` (default 24h). */
+export function consultCacheTtlMs(): number {
+  const minutes = loadConsultConfig().cache?.ttlMinutes;
+  return (typeof minutes === 'number' && minutes > 0 ? minutes : DEFAULT_CACHE_TTL_MINUTES) * 60_000;
+}
+
+export function consultCacheKey(transform: TransformReceipt, target: ConsultCacheTarget, outbound: OutboundSettings): string {
+  return sha256Hex(
+    JSON.stringify({
+      v: 2,
+      inputHashAfter: transform.input_hash_after,
+      toHarness: target.toHarness,
+      model: target.model ?? null,
+      mode: target.mode ?? null,
+      attachments: (transform.attachments ?? []).map(attachment => attachment.content_hash),
+      outbound: { policy: outbound.policy, injectionCheck: outbound.injectionCheck, redaction: outbound.redaction ?? null },
+    }),
+  );
+}
+
+function readEntry(filePath: string): ConsultCacheEntry | undefined {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ConsultCacheEntry;
+    return parsed?.schemaVersion === 'consult-cache.v1' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isExpired(entry: ConsultCacheEntry, now = Date.now()): boolean {
+  const expiresAt = Date.parse(entry.expiresAt);
+  return !Number.isFinite(expiresAt) || expiresAt <= now;
+}
+
+function writeEntry(entry: ConsultCacheEntry): void {
+  fs.mkdirSync(consultCacheDir(), { recursive: true });
+  fs.writeFileSync(entryPath(entry.key), `${JSON.stringify(entry, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+}
+
+/**
+ * The live entry for `key`, counting the hit. Expired entries are removed
+ * and reported as a miss.
+ */
+export function readCachedResponse(key: string): ConsultCacheEntry | undefined {
+  const filePath = entryPath(key);
+  const entry = readEntry(filePath);
+  if (!entry) return undefined;
+  if (isExpired(entry)) {
+    fs.rmSync(filePath, { force: true });
+    return undefined;
+  }
+  const hit: ConsultCacheEntry = { ...entry, hits: entry.hits + 1, lastHitAt: new Date().toISOString() };
+  try {
+    writeEntry(hit);
+  } catch {
+    // Hit counters are best-effort.
+  }
+  return hit;
+}
+
+/** Store an answer. Never throws: a consult is not failed over caching. */
+export function storeCachedResponse(
+  key: string,
+  target: ConsultCacheTarget,
+  answer: { response: string; answeredByModel?: string; receiptId?: string },
+): void {
+  const now = Date.now();
+  try {
+    writeEntry({
+      schemaVersion: 'consult-cache.v1',
+      key,
+      toHarness: target.toHarness,
+      ...(target.model ? { model: target.model } : {}),
+      ...(target.mode ? { mode: target.mode } : {}),
+      ...(answer.answeredByModel ? { answeredByModel: answer.answeredByModel } : {}),
+      response: answer.response,
+      ...(answer.receiptId ? { receiptId: answer.receiptId } : {}),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + consultCacheTtlMs()).toISOString(),
+      hits: 0,
+    });
+  } catch {
+    // The answer is still returned; the next repeat just misses.
+  }
+}
+
+function listEntryFiles(): string[] {
+  const dir = consultCacheDir();
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir).filter(file => file.endsWith('.json')).map(file => path.join(dir, file));
+}
+
+/** Remove expired (or, with `all`, every) entry. Unreadable files count as expired. */
+export function pruneConsultCache(options: { all?: boolean } = {}): { removed: number; kept: number } {
+  let removed = 0;
+  let kept = 0;
+  const now = Date.now();
+  for (const filePath of listEntryFiles()) {
+    const entry = readEntry(filePath);
+    if (options.all || !entry || isExpired(entry, now)) {
+      fs.rmSync(filePath, { force: true });
+      removed++;
+    } else {
+      kept++;
+    }
+  }
+  return { removed, kept };
+}
+
+export function consultCacheStats(): ConsultCacheStats {
+  const stats: ConsultCacheStats = { entries: 0, expired: 0, bytes: 0, hits: 0 };
+  const now = Date.now();
+  for (const filePath of listEntryFiles()) {
+    const entry = readEntry(filePath);
+    if (!entry) continue;
+    stats.entries++;
+    stats.bytes += fs.statSync(filePath).size;
+    stats.hits += entry.hits;
+    if (isExpired(entry, now)) stats.expired++;
+    if (!stats.oldestAt || entry.createdAt < stats.oldestAt) stats.oldestAt = entry.createdAt;
+    if (!stats.newestAt || entry.createdAt > stats.newestAt) stats.newestAt = entry.createdAt;
+  }
+  return stats;
+}
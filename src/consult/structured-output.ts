@@ -0,0 +1,99 @@
+/**
+ * Structured-output consults (`--schema ./review.schema.json`).
+ *
+ * Agents that consume consult answers programmatically pass a JSON Schema.
+ * The junction appends instructions asking for one JSON object that
+ * validates against it, pulls the JSON out of the answer (the same
+ * `extractJson` the adapters use on leaf output), and validates it.
+ *
+ * A failing answer gets one retry: the leaf is asked again with the
+ * validation errors and its previous answer. If that also fails the consult
+ * is HARNESS_SCHEMA_MISMATCH, with the last answer in `partialResponse`. On
+ * success the parsed object is the envelope's `data`.
+ *
+ * Validation uses zod's JSON Schema import (draft 2020-12, draft 7, draft 4).
+ * Keywords zod cannot express make the schema a BAD_REQUEST up front rather
+ * than a silently looser check.
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+
+/** Longest previous answer echoed back in the retry prompt. */
+const MAX_ECHOED_ANSWER_CHARS = 4_000;
+/** Validation errors listed in the retry prompt and the failure message. */
+const MAX_REPORTED_ERRORS = 10;
+
+export type ConsultSchema = Record<string, unknown>;
+
+export type SchemaCheck = { ok: true; data: unknown } | { ok: false; errors: string[] };
+
+/** Compile a JSON Schema, or say why it cannot be used. */
+export function compileConsultSchema(schema: unknown): { ok: true; validator: z.ZodType } | { ok: false; error: string } {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return { ok: false, error: 'the schema must be a JSON object' };
+  }
+  try {
+    return { ok: true, validator: z.fromJSONSchema(schema as ConsultSchema) };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Read `--schema <file>`. Throws with a message fit for the CLI. */
+export function loadConsultSchemaFile(filePath: string): ConsultSchema {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, 'utf8');
+  } catch (err) {
+    throw new Error(`Cannot read schema ${filePath}: ${(err as NodeJS.ErrnoException).code ?? String(err)}`);
+  }
+  try {
+    return JSON.parse(raw) as ConsultSchema;
+  } catch (err) {
+    throw new Error(`Schema ${filePath} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Appended to the question so the leaf answers with JSON only. */
+export function schemaInstructions(schema: ConsultSchema): string {
+  return [
+    'Answer with a single JSON object that validates against the JSON Schema below.',
+    'Output only the JSON object: no prose before or after it, no code fences.',
+    '',
+    JSON.stringify(schema, null, 2),
+  ].join('\n');
+}
+
+/** The follow-up question after an answer failed validation. */
+export function schemaRetryQuestion(question: string, schema: ConsultSchema, errors: string[], previousAnswer: string): string {
+  const echoed =
+    previousAnswer.length > MAX_ECHOED_ANSWER_CHARS
+      ? `${previousAnswer.slice(0, MAX_ECHOED_ANSWER_CHARS)}\n[... truncated]`
+      : previousAnswer;
+  return [
+    question,
+    '',
+    schemaInstructions(schema),
+    '',
+    'Your previous answer did not validate:',
+    ...errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`),
+    '',
+    'Previous answer:',
+    echoed,
+    '',
+    'Reply again with only the corrected JSON object.',
+  ].join('\n');
+}
+
+/** Validate already-extracted JSON. Errors read `path: message`. */
+export function validateStructuredData(value: unknown, validator: z.ZodType): SchemaCheck {
+  const parsed = validator.safeParse(value);
+  if (parsed.success) return { ok: true, data: parsed.data };
+  return {
+    ok: false,
+    errors: parsed.error.issues
+      .slice(0, MAX_REPORTED_ERRORS)
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`),
+  };
+}
@@ -1,5 +1,8 @@
 import { createHash } from 'crypto';
 
+import { redactText, type RedactionOptions } from '../utils/secret-redaction.js';
+import { MODE_CONTRACTS, modeContractHash, type SessionMode } from './mode-contracts.js';
+
 export interface TransformReceipt {
   [key: string]: unknown;
   original_input: string;
@@ -11,82 +14,268 @@ export interface TransformReceipt {
   ];
   input_hash_before: string;
   input_hash_after: string;
+  /**
+   * Hash of the text entering stage 4. Stages 1-3 add context, so redaction
+   * is proven by `pre_guardrail_hash !== input_hash_after`, not by comparing
+   * against the raw input.
+   */
+  pre_guardrail_hash: string;
+  /** Session fields stage 1 wrote into the preamble, in preamble order. */
+  session_fields_injected: SessionField[];
+  /** Contract stage 2 prepended (`--mode`); `hash` is the SHA-256 of its text. */
+  mode_contract?: { id: string; hash: string };
+  /** What stage 3 attached (`--with-knowledge`); `hash` is the SHA-256 of the injected block. */
+  knowledge_context?: KnowledgeContextReceipt;
+  /** Files stage 3 inlined (`--attach`), with the VFS receipt of each read. */
+  attachments?: AttachmentReceipt[];
+  /** Ids of the redaction rules stage 4 fired (e.g. `aws.access-key-id`); never the secret itself. */
+  redaction_rule_ids: string[];
+}
+
+export interface KnowledgeContextReceipt {
+  /** injected: docs attached; empty: search found nothing; unavailable: base could not be queried. */
+  status: 'injected' | 'empty' | 'unavailable';
+  docs: Array<{ path: string; score: number }>;
+  hash?: string;
+  reason?: string;
+}
+
+export interface AttachmentReceipt {
+  virtual_path: string;
+  /** `sha256:` of the file as read, before truncation and redaction. */
+  content_hash: string;
+  vfs_receipt_id: string;
+  truncated: boolean;
 }
 
+/** A file read through the VFS for `--attach` (see attachments.ts). */
+export interface ConsultAttachmentInput {
+  virtualPath: string;
+  content: string;
+  contentHash: string;
+  vfsReceiptId: string;
+  truncated: boolean;
+}
+
+/** One knowledge-base hit, as returned by the base `search` command. */
+export interface KnowledgeDoc {
+  path: string;
+  score: number;
+  snippet: string;
+}
+
+/** Result of the knowledge search the caller ran before the (synchronous) chain. */
+export interface ConsultKnowledgeInput {
+  docs: KnowledgeDoc[];
+  /** Set when the base binary was missing or failed; the chain degrades to a passthrough. */
+  unavailableReason?: string;
+}
+
+/**
+ * Who is asking, from where, and why — the context stage 1 hands to the leaf.
+ * Every field is optional; only the ones present are injected.
+ */
+export interface ConsultSessionContext {
+  /** Caller harness (`--from`). */
+  fromHarness?: string;
+  junctionDepth?: number;
+  junctionTraceId?: string;
+  /** Same ids `graphyn fs` reads from GRAPHYN_WORKSPACE_ID / GRAPHYN_THREAD_ID. */
+  workspaceId?: string;
+  threadId?: string;
+  /** Why the caller is asking (`--intent`). */
+  intent?: string;
+}
+
+/** Everything the context-injecting stages (1-3) may add to the question. */
+export interface ConsultTransformContext {
+  session?: ConsultSessionContext;
+  /** Answer-shape contract to prepend (see mode-contracts.ts). */
+  mode?: SessionMode;
+  /** Knowledge-base docs to attach; omitted when `--with-knowledge` is off. */
+  knowledge?: ConsultKnowledgeInput;
+  /** Files to inline ahead of the question; omitted when nothing is attached. */
+  attachments?: ConsultAttachmentInput[];
+  /** Rule packs and org rules for stage 4 (consult.json `redaction`); defaults to every pack. */
+  redaction?: RedactionOptions;
+}
+
+export type SessionField =
+  | 'from_harness'
+  | 'junction_depth'
+  | 'junction_trace_id'
+  | 'workspace_id'
+  | 'thread_id'
+  | 'intent';
+
 function sha256hex(input: string): string {
   return createHash('sha256').update(input, 'utf-8').digest('hex');
 }
 
 // ─── Secret redaction (W274 guardrail G1) ──────────────────────────────────────
-// Strip obvious secret material before any external harness CLI sees the question.
-// Proof of redaction is the hash mismatch in the transform receipt.
-// Canonical home: this file. harness-adapter.ts imports from here.
-
-const SECRET_PATTERNS: RegExp[] = [
-  /\bsk-[A-Za-z0-9_\-]{16,}\b/g,                                              // OpenAI-style keys
-  /\bAIza[0-9A-Za-z_\-]{30,}\b/g,                                             // Google API keys
-  /\bghp_[A-Za-z0-9]{20,}\b/g,                                                // GitHub PATs
-  /\bxox[baprs]-[A-Za-z0-9-]{10,}\b/g,                                        // Slack tokens
-  /\b(?:api[_-]?key|token|secret|password|passwd|bearer)\b\s*[:=]\s*['"]?[^\s'"]{6,}/gi,
-];
+// Strip secret material before any external harness CLI sees the question.
+// Proof of redaction is the hash mismatch in the transform receipt; which
+// rules fired is recorded in `redaction_rule_ids`. The rule packs live in
+// utils/secret-redaction.ts, shared with the config registry's secret check.
 
 /**
- * Redact obvious secret material from a string.
- * Each match is replaced with `[REDACTED]`.
- * Returns the cleaned text and a flag indicating whether anything was stripped.
+ * Redact secret material from a string.
+ * Each match is replaced with `[REDACTED]` (database URLs keep everything but
+ * the password). Returns the cleaned text, whether anything was stripped, and
+ * the ids of the rules that fired.
  * Canonical home for W274 G1; harness-adapter.ts re-exports this.
  */
-export function redactSecrets(input: string): { text: string; redacted: boolean } {
-  let redacted = false;
-  let text = input;
-  for (const pattern of SECRET_PATTERNS) {
-    // Reset lastIndex so repeated calls with the same /g pattern work correctly.
-    pattern.lastIndex = 0;
-    text = text.replace(pattern, () => {
-      redacted = true;
-      return '[REDACTED]';
-    });
-  }
-  return { text, redacted };
+export function redactSecrets(
+  input: string,
+  options: RedactionOptions = {},
+): { text: string; redacted: boolean; ruleIds: string[] } {
+  return redactText(input, options);
 }
 
 // ─── Stage implementations ────────────────────────────────────────────────────
 
-function resolveSessionWhoHowWhat(text: string): string {
-  // Stage 1 — session/WHO/HOW/WHAT injection: Wave 3+, documented passthrough for now.
-  return text;
+/** Longest value written into the preamble; intent is free text from the caller. */
+const SESSION_VALUE_MAX_CHARS = 500;
+
+/** One line per value: collapse whitespace so a value cannot fake extra preamble lines. */
+function sessionValue(value: string): string {
+  return value.replace(/\s+/g, ' ').trim().slice(0, SESSION_VALUE_MAX_CHARS);
+}
+
+function resolveSessionWhoHowWhat(
+  text: string,
+  session: ConsultSessionContext,
+): { output: string; injected: SessionField[] } {
+  // Stage 1 — session/WHO/HOW/WHAT injection. Tells the leaf who is asking
+  // (caller harness), where in the chain (depth, trace), for which
+  // workspace/thread, and why. Without any context this stage is a passthrough.
+  const fields: Array<[SessionField, string | undefined]> = [
+    ['from_harness', session.fromHarness],
+    ['junction_depth', session.junctionDepth === undefined ? undefined : String(session.junctionDepth)],
+    ['junction_trace_id', session.junctionTraceId],
+    ['workspace_id', session.workspaceId],
+    ['thread_id', session.threadId],
+    ['intent', session.intent],
+  ];
+
+  const lines: string[] = [];
+  const injected: SessionField[] = [];
+  for (const [field, raw] of fields) {
+    const value = raw === undefined ? '' : sessionValue(raw);
+    if (!value) continue;
+    lines.push(`${field}: ${value}`);
+    injected.push(field);
+  }
+  if (lines.length === 0) return { output: text, injected };
+
+  const preamble = ['[graphyn-consult session]', ...lines, '[/graphyn-consult session]'].join('\n');
+  return { output: `${preamble}\n\n${text}`, injected };
 }
 
-function applyModeContractInjection(text: string): string {
-  // Stage 2 — mode-contract injection: Wave 3+, documented passthrough for now.
-  return text;
+function applyModeContractInjection(
+  text: string,
+  mode: SessionMode | undefined,
+): { output: string; contract?: { id: string; hash: string } } {
+  // Stage 2 — mode-contract injection. Prepends the versioned answer-shape
+  // contract for the requested mode; passthrough when no mode is set.
+  if (!mode) return { output: text };
+  const contract = MODE_CONTRACTS[mode];
+  const block = [`[graphyn-consult contract ${contract.id}]`, contract.text, '[/graphyn-consult contract]'].join('\n');
+  return {
+    output: `${block}\n\n${text}`,
+    contract: { id: contract.id, hash: modeContractHash(contract) },
+  };
 }
 
-function applyKnowledgeContextInjection(text: string): string {
-  // Stage 3 — KB context injection: Wave 3+, documented passthrough for now.
-  return text;
+function applyAttachmentBlocks(
+  text: string,
+  attachments: ConsultAttachmentInput[] | undefined,
+): { output: string; receipt?: AttachmentReceipt[] } {
+  if (!attachments || attachments.length === 0) return { output: text };
+  const blocks = attachments.map(attachment =>
+    [
+      `[graphyn-consult attachment ${attachment.virtualPath}]`,
+      attachment.content,
+      ...(attachment.truncated ? ['[... truncated]'] : []),
+      '[/graphyn-consult attachment]',
+    ].join('\n'),
+  );
+  return {
+    output: `${blocks.join('\n\n')}\n\n${text}`,
+    receipt: attachments.map(attachment => ({
+      virtual_path: attachment.virtualPath,
+      content_hash: attachment.contentHash,
+      vfs_receipt_id: attachment.vfsReceiptId,
+      truncated: attachment.truncated,
+    })),
+  };
+}
+
+function applyKnowledgeContextInjection(
+  text: string,
+  knowledge: ConsultKnowledgeInput | undefined,
+  attachments?: ConsultAttachmentInput[],
+): { output: string; receipt?: KnowledgeContextReceipt; attachments?: AttachmentReceipt[] } {
+  // Stage 3 — KB context injection. Attaches the top local knowledge-base
+  // snippets so the leaf does not re-derive facts we already hold. Runs before
+  // stage 4, so the snippets are redacted like the question. Attached files
+  // (`--attach`) are inlined here too, between the knowledge docs and the contract.
+  const { output: withAttachments, receipt: attachmentReceipt } = applyAttachmentBlocks(text, attachments);
+  const withKnowledge = injectKnowledgeDocs(withAttachments, knowledge);
+  return { ...withKnowledge, ...(attachmentReceipt ? { attachments: attachmentReceipt } : {}) };
+}
+
+function injectKnowledgeDocs(
+  text: string,
+  knowledge: ConsultKnowledgeInput | undefined,
+): { output: string; receipt?: KnowledgeContextReceipt } {
+  if (!knowledge) return { output: text };
+  const docs = knowledge.docs.map(doc => ({ path: doc.path, score: doc.score }));
+  if (knowledge.unavailableReason) {
+    return { output: text, receipt: { status: 'unavailable', docs: [], reason: knowledge.unavailableReason } };
+  }
+  if (knowledge.docs.length === 0) return { output: text, receipt: { status: 'empty', docs } };
+
+  const entries = knowledge.docs.map(
+    (doc, index) => `${index + 1}. ${doc.path || '(untitled)'} (score ${doc.score.toFixed(2)})\n${doc.snippet}`,
+  );
+  const block = ['[graphyn-consult knowledge]', ...entries, '[/graphyn-consult knowledge]'].join('\n');
+  return {
+    output: `${block}\n\n${text}`,
+    receipt: { status: 'injected', docs, hash: sha256hex(block) },
+  };
 }
 
-function applyPolicyGuardrails(text: string): { output: string; redacted: boolean } {
+function applyPolicyGuardrails(
+  text: string,
+  options: RedactionOptions | undefined,
+): { output: string; redacted: boolean; ruleIds: string[] } {
   // Stage 4 — policy guardrails: redact secrets. This is the active G1 stage.
-  // Hash mismatch between input_hash_before and input_hash_after is the
+  // Hash mismatch between pre_guardrail_hash and input_hash_after is the
   // machine-verifiable proof that redaction ran.
-  const { text: output, redacted } = redactSecrets(text);
-  return { output, redacted };
+  const { text: output, redacted, ruleIds } = redactSecrets(text, options);
+  return { output, redacted, ruleIds };
 }
 
 // ─── Transform chain ──────────────────────────────────────────────────────────
 
-export function applyTransformChain(input: string): { output: string; receipt: TransformReceipt; redacted: boolean } {
+export function applyTransformChain(
+  input: string,
+  context: ConsultTransformContext = {},
+): { output: string; receipt: TransformReceipt; redacted: boolean } {
   const rawInput = input;
 
-  // Stages 1-3 are documented passthroughs (Wave 3+ will inject session/mode/KB context).
-  let text = resolveSessionWhoHowWhat(rawInput);
-  text = applyModeContractInjection(text);
-  text = applyKnowledgeContextInjection(text);
+  // Stages 1-3 add context: session preamble, mode contract, KB snippets and attachments.
+  const { output: withSession, injected } = resolveSessionWhoHowWhat(rawInput, context.session ?? {});
+  const { output: withContract, contract } = applyModeContractInjection(withSession, context.mode);
+  const {
+    output: text,
+    receipt: knowledgeReceipt,
+    attachments: attachmentReceipt,
+  } = applyKnowledgeContextInjection(withContract, context.knowledge, context.attachments);
 
   // Stage 4 is the active G1 guardrail: secret redaction.
-  const { output, redacted } = applyPolicyGuardrails(text);
+  const { output, redacted, ruleIds } = applyPolicyGuardrails(text, context.redaction);
 
   const receipt: TransformReceipt = {
     original_input: rawInput,
@@ -98,6 +287,12 @@ export function applyTransformChain(input: string): { output: string; receipt: T
     ],
     input_hash_before: sha256hex(rawInput),
     input_hash_after: sha256hex(output),
+    pre_guardrail_hash: sha256hex(text),
+    session_fields_injected: injected,
+    ...(contract ? { mode_contract: contract } : {}),
+    ...(knowledgeReceipt ? { knowledge_context: knowledgeReceipt } : {}),
+    ...(attachmentReceipt ? { attachments: attachmentReceipt } : {}),
+    redaction_rule_ids: ruleIds,
   };
 
   return { output, receipt, redacted };
@@ -107,18 +302,24 @@ export function applyTransformChain(input: string): { output: string; receipt: T
  * Apply the full consult transform policy to the raw operator question.
  *
  * Returns:
- *   - `transformedInput`: the text to hand to the leaf harness (secrets redacted).
+ *   - `transformedInput`: the text to hand to the leaf harness (knowledge,
+ *     mode contract, and session preamble prepended, secrets redacted).
  *   - `receipt`: deterministic SHA-256 before/after + 4-stage attribution.
- *     Hash mismatch (`input_hash_before !== input_hash_after`) is machine-verifiable
+ *     Hash mismatch (`pre_guardrail_hash !== input_hash_after`) is machine-verifiable
  *     proof that stage 4 (applyPolicyGuardrails) stripped at least one secret.
+ *     `session_fields_injected` lists the stage-1 preamble fields,
+ *     `mode_contract` the stage-2 contract id + hash, and `knowledge_context`
+ *     the stage-3 doc paths, scores, and block hash; `attachments` the
+ *     inlined files and their VFS receipt ids. `redaction_rule_ids`
+ *     names the stage-4 rules that fired.
  *   - `redacted`: true iff any secret pattern matched and was replaced.
  */
-export function applyConsultTransformPolicy(input: string): {
+export function applyConsultTransformPolicy(input: string, context: ConsultTransformContext = {}): {
   transformedInput: string;
   receipt: TransformReceipt;
   redacted: boolean;
 } {
-  const { output, receipt, redacted } = applyTransformChain(input);
+  const { output, receipt, redacted } = applyTransformChain(input, context);
   return {
     transformedInput: output,
     receipt,
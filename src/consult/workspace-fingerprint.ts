@@ -0,0 +1,203 @@
+/**
+ * Filesystem-diff verification of a consult's read-only posture.
+ *
+ * Only gemini's Tier-1 output carries write evidence (`stats.files`); codex
+ * and claude answers, and ACP tool reports, are read-only by the leaf's own
+ * account. With `--verify-fs` (or consult.json `readOnly.verifyFs`) the
+ * junction fingerprints the working tree before the leaf starts and again
+ * once it has finished. Any difference it sees fails the consult with
+ * HARNESS_UNSAFE_OUTPUT.
+ *
+ * The fingerprint covers the current directory:
+ *   - inside a git work tree: `git status --porcelain=v2 --branch` (HEAD,
+ *     index and worktree state) plus every tracked, untracked and ignored
+ *     file listed by `git ls-files`;
+ *   - elsewhere: every file under the directory except `.git`.
+ * Either way `.git/config` and the files in `.git/hooks` are included: they
+ * are not work-tree files, but a leaf that writes them runs code on the
+ * user's next commit.
+ * Each file contributes its size, mtime and, up to 4 MiB, the SHA-256 of its
+ * content. GRAPHYN_HOME is skipped when it lies inside the directory, since
+ * the junction writes its own receipts there while a consult runs.
+ *
+ * Known gap: git lists a wholly ignored directory (`node_modules/`, build
+ * output) as one entry, and only that directory's own mtime is compared. A
+ * file added or removed directly inside it is seen; an edit deeper down is
+ * not. The rest of `.git` (objects, refs, the index) is covered through
+ * `git status` rather than file by file.
+ *
+ * The check is about the window, not the writer: anything that changes the
+ * tree while the leaf runs (a fan-out sibling, an editor) fails the consult.
+ * Changed paths leave this module only as HMAC hashes (`hmacArg`, the same
+ * hash ACP tool locations get), so the audit log never holds file names.
+ */
+
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { hmacArg, sha256Hex } from '../vfs/hash.js';
+import { graphynHomeDir } from '../vfs/paths.js';
+import { loadConsultConfig } from './consult-config.js';
+import { junctionCwd } from './junction-env.js';
+
+/** Past this many files the tree is not fingerprinted and the consult is refused. */
+export const MAX_FINGERPRINT_FILES = 20_000;
+/** Larger files are compared on size and mtime only. */
+const MAX_HASHED_FILE_BYTES = 4 * 1024 * 1024;
+
+export interface WorkspaceFingerprint {
+  root: string;
+  scope: 'git' | 'tree';
+  /** `git status --porcelain=v2 --branch` for the root; git scope only. */
+  gitStatus?: string;
+  /** Path relative to root → `size:mtimeMs:sha256` (`missing` for a listed path that is gone). */
+  files: Map<string, string>;
+}
+
+export type WorkspaceFingerprintResult =
+  | { ok: true; fingerprint: WorkspaceFingerprint }
+  | { ok: false; error: string };
+
+/** What `--verify-fs` found; lands on the receipt and in the audit log. */
+export interface WorkspaceVerification {
+  scope: 'git' | 'tree';
+  /** Files fingerprinted before the leaf ran. */
+  fileCount: number;
+  /** `hmac-sha256:` of each absolute path that was added, changed or removed. */
+  changedPathHashes: string[];
+  /** Git scope: HEAD, the index or a file's status changed. */
+  gitStateChanged?: boolean;
+}
+
+/** `--verify-fs` on the request wins; otherwise consult.json `readOnly.verifyFs`. */
+export function isFsVerificationEnabled(flag: boolean | undefined): boolean {
+  return flag ?? loadConsultConfig().readOnly?.verifyFs === true;
+}
+
+function runGit(args: string[], cwd: string): Promise<{ code: number | null; stdout: string }> {
+  return new Promise(resolve => {
+    // GIT_OPTIONAL_LOCKS=0: `git status` must not refresh (write) the index it is observing.
+    const child = spawn('git', args, { cwd, stdio: ['ignore', 'pipe', 'ignore'], env: { ...process.env, GIT_OPTIONAL_LOCKS: '0' } });
+    const chunks: Buffer[] = [];
+    child.stdout?.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.on('error', () => resolve({ code: null, stdout: '' }));
+    child.on('close', code => resolve({ code, stdout: Buffer.concat(chunks).toString('utf8') }));
+  });
+}
+
+function fileEntry(file: string): string {
+  let stat: fs.Stats;
+  try {
+    stat = fs.lstatSync(file);
+  } catch {
+    return 'missing';
+  }
+  if (stat.isSymbolicLink()) return `link:${fs.readlinkSync(file)}`;
+  if (stat.isDirectory()) return `dir:${stat.mtimeMs}`;
+  if (!stat.isFile()) return `other:${stat.mode}`;
+  const hash = stat.size <= MAX_HASHED_FILE_BYTES ? sha256Hex(fs.readFileSync(file)) : '';
+  return `${stat.size}:${stat.mtimeMs}:${hash}`;
+}
+
+/** Every file under `root`, relative, skipping `.git` and `excluded`; undefined past the cap. */
+function walkTree(root: string, excluded: string | undefined): string[] | undefined {
+  const files: string[] = [];
+  const pending = [''];
+  while (pending.length > 0) {
+    const relative = pending.pop()!;
+    for (const entry of fs.readdirSync(path.join(root, relative), { withFileTypes: true })) {
+      const child = path.join(relative, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== '.git' && path.join(root, child) !== excluded) pending.push(child);
+        continue;
+      }
+      files.push(child);
+      if (files.length > MAX_FINGERPRINT_FILES) return undefined;
+    }
+  }
+  return files;
+}
+
+/** `config` and every hook under `gitDir`, relative to `root`. */
+function gitControlFiles(root: string, gitDir: string): string[] {
+  const files = fs.existsSync(path.join(gitDir, 'config')) ? [path.join(gitDir, 'config')] : [];
+  const hooksDir = path.join(gitDir, 'hooks');
+  if (fs.existsSync(hooksDir)) {
+    const hooks = walkTree(hooksDir, undefined) ?? [];
+    files.push(...hooks.map(hook => path.join(hooksDir, hook)));
+  }
+  return files.map(file => path.relative(root, file));
+}
+
+/**
+ * Fingerprint `root` (default: the caller's cwd). Fails when the tree is too large or
+ * unreadable; the caller refuses the consult rather than run it unverified.
+ */
+export async function fingerprintWorkspace(root = junctionCwd()): Promise<WorkspaceFingerprintResult> {
+  const home = path.resolve(graphynHomeDir());
+  const insideHome = (relative: string): boolean => {
+    const absolute = path.join(root, relative);
+    return absolute === home || absolute.startsWith(`${home}${path.sep}`);
+  };
+  try {
+    const probe = await runGit(['rev-parse', '--is-inside-work-tree'], root);
+    let scope: WorkspaceFingerprint['scope'] = 'tree';
+    let gitStatus: string | undefined;
+    let listed: string[] | undefined;
+    if (probe.code === 0 && probe.stdout.trim() === 'true') {
+      const status = await runGit(['status', '--porcelain=v2', '-z', '--branch', '--untracked-files=all', '--', '.'], root);
+      const files = await runGit(['ls-files', '-z', '--cached', '--others', '--exclude-standard', '--', '.'], root);
+      const ignored = await runGit(['ls-files', '-z', '--others', '--ignored', '--exclude-standard', '--directory', '--', '.'], root);
+      const gitDir = await runGit(['rev-parse', '--git-common-dir'], root);
+      if (status.code !== 0 || files.code !== 0 || ignored.code !== 0 || gitDir.code !== 0) {
+        return { ok: false, error: `git could not list ${root}` };
+      }
+      scope = 'git';
+      gitStatus = status.stdout;
+      // --cached lists a path once per stage during a merge.
+      listed = [
+        ...new Set([
+          ...`${files.stdout}\0${ignored.stdout}`.split('\0').filter(Boolean),
+          ...gitControlFiles(root, path.resolve(root, gitDir.stdout.trim())),
+        ]),
+      ];
+      if (listed.length > MAX_FINGERPRINT_FILES) listed = undefined;
+    } else {
+      listed = walkTree(root, home);
+      if (listed && fs.existsSync(path.join(root, '.git'))) listed.push(...gitControlFiles(root, path.join(root, '.git')));
+    }
+    if (!listed) return { ok: false, error: `${root} holds more than ${MAX_FINGERPRINT_FILES} files` };
+
+    const files = new Map<string, string>();
+    for (const relative of listed.sort()) {
+      if (!insideHome(relative)) files.set(relative, fileEntry(path.join(root, relative)));
+    }
+    return { ok: true, fingerprint: { root, scope, ...(gitStatus !== undefined ? { gitStatus } : {}), files } };
+  } catch (err) {
+    return { ok: false, error: `could not fingerprint ${root}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+/** Compare two fingerprints of the same root; an empty `changedPathHashes` with no git change means untouched. */
+export function diffWorkspace(before: WorkspaceFingerprint, after: WorkspaceFingerprint): WorkspaceVerification {
+  const changed = new Set<string>();
+  for (const [relative, entry] of before.files) {
+    if (after.files.get(relative) !== entry) changed.add(relative);
+  }
+  for (const relative of after.files.keys()) {
+    if (!before.files.has(relative)) changed.add(relative);
+  }
+  // A leaf that ran `git init` (or removed .git) changed the scope itself.
+  const gitStateChanged = before.scope !== after.scope || before.gitStatus !== after.gitStatus;
+  return {
+    scope: before.scope,
+    fileCount: before.files.size,
+    changedPathHashes: [...changed].sort().map(relative => hmacArg(path.join(before.root, relative))),
+    ...(gitStateChanged ? { gitStateChanged } : {}),
+  };
+}
+
+export function isWorkspaceUnchanged(verification: WorkspaceVerification): boolean {
+  return verification.changedPathHashes.length === 0 && !verification.gitStateChanged;
+}
@@ -70,21 +70,53 @@ export function parseArgs(args: string[]): { options: CLIOptions; query: string;
   };
 }
 
-/**
- * Parse `consult --to <harness> "question"` args (cross-harness A2A junction).
- * queryArgs[0] is the literal "consult" token.
- */
-export function parseHarnessConsultArgs(queryArgs: string[]): {
+/** Flags accepted by `graphyn consult --to <harness> "question"`. */
+export interface HarnessConsultArgs {
+  /** The first `--to` harness; the only one unless `toHarnesses` fans out. */
   toHarness?: string;
+  /** `--to a,b,c` split into harness ids; more than one entry means fan-out. */
+  toHarnesses?: string[];
   from?: string;
   model?: string;
   question?: string;
   json?: boolean;
+  /** Emit NDJSON progress events while the leaf runs. */
+  stream?: boolean;
+  /** Keep the redacted question and the answer in the consult audit log. */
+  storeContent?: boolean;
+  /** USD spend cap for the junction trace. */
+  budgetUsd?: number;
+  /** Why the caller is asking; passed to the leaf in the session preamble. */
+  intent?: string;
+  /** Answer-shape contract: ask, plan-first, or code. Validated by the junction. */
+  mode?: 'ask' | 'plan-first' | 'code';
+  /** Number of local knowledge-base docs to attach (`--with-knowledge[=N]`, default 3). */
+  withKnowledge?: number;
+  /** Virtual paths to inline through the VFS (`--attach`, repeatable). */
+  attach?: string[];
+  /** Named multi-turn session; follow-ups continue the same leaf conversation. */
+  session?: string;
+  /** `--cache` / `--no-cache`: answer repeats from the response cache (default: consult.json). */
+  cache?: boolean;
+  /** `--schema <file>`: JSON Schema the answer must validate against. */
+  schemaPath?: string;
+  /** `--outbound-policy`: annotate (default) or block answers carrying secrets or injection markers. */
+  outboundPolicy?: 'annotate' | 'block';
+  /** `--fallback a,b`: harnesses to try when the leaf is unavailable; `--no-fallback` gives `[]`. */
+  fallback?: string[];
+  /** `--verify-fs`: fail the consult if the working tree changed while the leaf ran. */
+  verifyFs?: boolean;
   timeoutMs?: number;
   /** Invoke tier. 'subprocess' (default, Tier 1) or 'acp' (Tier 2, opt-in). */
   tier?: 'subprocess' | 'acp';
-} {
-  const out: { toHarness?: string; from?: string; model?: string; question?: string; json?: boolean; timeoutMs?: number; tier?: 'subprocess' | 'acp' } = {};
+}
+
+/**
+ * Parse `consult --to <harness> "question"` args (cross-harness A2A junction).
+ * queryArgs[0] is the literal "consult" token.
+ */
+export function parseHarnessConsultArgs(queryArgs: string[]): HarnessConsultArgs {
+  const out: HarnessConsultArgs = {};
   const questionParts: string[] = [];
 
   for (let i = 1; i < queryArgs.length; i++) {
@@ -99,7 +131,10 @@ export function parseHarnessConsultArgs(queryArgs: string[]): {
     };
 
     if (token === '--to' || token === '--harness') {
-      out.toHarness = takeValue();
+      const value = takeValue();
+      out.toHarnesses = value ? [...new Set(value.split(',').map(id => id.trim()).filter(Boolean))] : undefined;
+      // `--to gemini,` is still just gemini.
+      out.toHarness = out.toHarnesses?.[0];
     } else if (token === '--from') {
       out.from = takeValue();
     } else if (token === '--model' || token === '-m') {
@@ -109,6 +144,40 @@ export function parseHarnessConsultArgs(queryArgs: string[]): {
       if (!Number.isNaN(value)) out.timeoutMs = value;
     } else if (token === '--json') {
       out.json = true;
+    } else if (token === '--stream') {
+      out.stream = true;
+    } else if (token === '--store-content') {
+      out.storeContent = true;
+    } else if (token === '--verify-fs') {
+      out.verifyFs = true;
+    } else if (token === '--with-knowledge' || token.startsWith('--with-knowledge=')) {
+      const raw = token.includes('=') ? Number(token.slice(token.indexOf('=') + 1)) : 3;
+      if (Number.isInteger(raw) && raw > 0) out.withKnowledge = raw;
+    } else if (token === '--session') {
+      out.session = takeValue();
+    } else if (token === '--cache' || token === '--no-cache') {
+      out.cache = token === '--cache';
+    } else if (token === '--schema') {
+      out.schemaPath = takeValue();
+    } else if (token === '--outbound-policy') {
+      // Unknown values are rejected as BAD_REQUEST by the junction.
+      out.outboundPolicy = takeValue() as HarnessConsultArgs['outboundPolicy'];
+    } else if (token === '--fallback') {
+      const value = takeValue();
+      out.fallback = value ? [...new Set(value.split(',').map(id => id.trim()).filter(Boolean))] : undefined;
+    } else if (token === '--no-fallback') {
+      out.fallback = [];
+    } else if (token === '--attach') {
+      const value = takeValue();
+      if (value) out.attach = [...(out.attach ?? []), value];
+    } else if (token === '--mode') {
+      // Unknown values are rejected as BAD_REQUEST by the junction.
+      out.mode = takeValue() as HarnessConsultArgs['mode'];
+    } else if (token === '--intent') {
+      out.intent = takeValue();
+    } else if (token === '--budget-usd') {
+      const value = Number(takeValue());
+      if (!Number.isNaN(value)) out.budgetUsd = value;
     } else if (token === '--acp') {
       // Shorthand for --tier acp.
       out.tier = 'acp';
@@ -161,11 +230,32 @@ ${colors.highlight('Examples:')}
 ${colors.highlight('Commands:')}
   base <task>         Deterministic local KB retrieval (JSON output)
   consult --to <h>    Ask another agent harness (A2A junction). e.g. consult --to gemini "Q"
+                      Comma-separate harnesses to fan out: --to gemini,codex,claude
                       Flags: --tier <subprocess|acp>  (default: subprocess/Tier-1; --acp is shorthand for --tier acp)
+                             --stream  NDJSON progress events (start, delta, model, final)
+                             --store-content  keep redacted question + answer in the audit log
+                             --budget-usd <n>  USD cap for the whole consult trace (nested consults included)
+                             --intent <text>  why you are asking; sent to the leaf with caller + trace context
+                             --mode <ask|plan-first|code>  prepend a versioned answer-shape contract
+                             --with-knowledge[=N]  attach the top N (default 3) local base docs to the question
+                             --attach <vfs-path>  inline a file read through the VFS (repeatable, e.g. /repo/src/foo.ts)
+                             --session <name>  continue a named multi-turn conversation with the leaf
+                             --cache / --no-cache  answer repeats of the same question from the local response cache
+                             --schema <file>  answer as JSON valid against this JSON Schema (one retry); parsed into data
+                             --outbound-policy <annotate|block>  redact and flag (default) or withhold answers with secrets or injection markers
+                             --fallback <h,...>  try these harnesses in order if the leaf is unavailable, times out, or is unparseable
+                             --verify-fs  fingerprint the working tree around the leaf; any change fails with HARNESS_UNSAFE_OUTPUT
+  consult receipts    Hash-chained consult audit log (list, show <id>, verify)
+  consult sessions    Named consult sessions (ls, close <name> [--to <harness>])
+  consult cache       Consult response cache (stats, prune [--all])
+  consult doctor      Check each harness: PATH, version, login ([--to <h>] [--canary] [--json])
+  consult replay <id> Re-ask a --store-content consult's exact input ([--to <h>] [--model <m>]) and diff the answers
   fs <subcommand>      ACL-gated local VFS inspection (JSON output)
   env <subcommand>    Manage environment files (setup, check, list)
   config <subcommand> Non-secret config registry checks
   schedule <sub>      Schedule agent runs (create, list, show, edit, enable, disable, delete, run-now, runs, grant, grants)
+  serve               Long-lived local junction: consult, base, fs over a Unix socket ([--port N] for token-gated HTTP)
+  dev fake-harness    Fake gemini/codex/claude for offline consult tests (install <dir>, --as <h> [argv])
   analyze [options]    Analyze repository
   doctor              Check system requirements
   init [options]      Initialize project
@@ -228,33 +318,162 @@ async function routeCommand(query: string, options: CLIOptions, queryArgs: strin
 
   // Cross-harness consult (A2A junction): graphyn consult --to <harness> "question"
   if (query === 'consult' || query.startsWith('consult ')) {
-    const { runHarnessConsult, SUPPORTED_HARNESSES } = await import('./consult/harness-adapter.js');
+    // Subcommands: graphyn consult receipts|sessions|cache|doctor ...
+    const { CONSULT_SUBCOMMANDS, runHarnessConsultCommand } = await import('./commands/harness-consult.js');
+    if ((CONSULT_SUBCOMMANDS as readonly string[]).includes(queryArgs[1])) {
+      await runHarnessConsultCommand(queryArgs);
+      return true;
+    }
+
+    const { listAvailableHarnesses } = await import('./consult/harness-adapter.js');
     const parsed = parseHarnessConsultArgs(queryArgs);
 
     if (!parsed.toHarness || !parsed.question) {
-      console.error(colors.error('❌ Usage: graphyn consult --to <harness> "question" [--model M] [--from H] [--json] [--timeout MS] [--tier subprocess|acp] [--acp]'));
-      console.log(colors.info(`Supported harnesses: ${SUPPORTED_HARNESSES.join(', ')}`));
+      console.error(colors.error('❌ Usage: graphyn consult --to <harness> "question" [--model M] [--from H] [--json] [--stream] [--store-content] [--budget-usd N] [--intent TEXT] [--mode ask|plan-first|code] [--with-knowledge[=N]] [--attach VFS_PATH]... [--session NAME] [--cache|--no-cache] [--fallback H,...] [--outbound-policy annotate|block] [--schema FILE] [--verify-fs] [--timeout MS] [--tier subprocess|acp] [--acp]'));
+      console.log(colors.info(`Supported harnesses: ${listAvailableHarnesses().join(', ')}`));
       process.exitCode = 1;
       return true;
     }
 
-    const consultResult = await runHarnessConsult({
-      toHarness: parsed.toHarness as any,
+    let schema: Record<string, unknown> | undefined;
+    if (parsed.schemaPath) {
+      const { loadConsultSchemaFile } = await import('./consult/structured-output.js');
+      try {
+        schema = loadConsultSchemaFile(parsed.schemaPath);
+      } catch (err) {
+        console.error(colors.error(`❌ ${err instanceof Error ? err.message : String(err)}`));
+        process.exitCode = 1;
+        return true;
+      }
+    }
+
+    // Ctrl-C cancels in-flight leaves cleanly (HARNESS_CANCELLED with the
+    // partial answer); a second Ctrl-C falls through to the default exit.
+    const cancellation = new AbortController();
+    const onSigint = (): void => cancellation.abort();
+    process.once('SIGINT', onSigint);
+
+    // One CLI run is one turn: pooled ACP children are released so the process
+    // can exit; the next run reattaches through the session record.
+    const finishConsult = async (): Promise<void> => {
+      process.removeListener('SIGINT', onSigint);
+      if (!parsed.session) return;
+      const { closeAllPooledSessions } = await import('./consult/consult-sessions.js');
+      await closeAllPooledSessions();
+    };
+
+    // --stream: one JSON event per line on stdout (start, delta, model, final).
+    const onStreamEvent = parsed.stream
+      ? (event: unknown): void => {
+          console.log(JSON.stringify(event));
+        }
+      : undefined;
+
+    // Fan-out: --to gemini,codex,claude asks every harness in parallel.
+    if (parsed.toHarnesses && parsed.toHarnesses.length > 1) {
+      if (parsed.fallback?.length) {
+        console.error(colors.error('❌ --fallback applies to a single --to harness; a fan-out already asks every harness.'));
+        process.exitCode = 1;
+        await finishConsult();
+        return true;
+      }
+      if (parsed.model) {
+        console.error(colors.error('❌ --model names one harness\'s model; drop it to fan out, or ask each harness separately.'));
+        process.exitCode = 1;
+        await finishConsult();
+        return true;
+      }
+      const { runHarnessFanOut } = await import('./consult/fan-out.js');
+      const fanOut = await runHarnessFanOut({
+        toHarnesses: parsed.toHarnesses,
+        fromHarness: parsed.from,
+        question: parsed.question,
+        timeoutMs: parsed.timeoutMs,
+        tier: parsed.tier,
+        storeContent: parsed.storeContent,
+        budgetUsd: parsed.budgetUsd,
+        intent: parsed.intent,
+        mode: parsed.mode,
+        withKnowledge: parsed.withKnowledge,
+        attach: parsed.attach,
+        session: parsed.session,
+        cache: parsed.cache,
+        outboundPolicy: parsed.outboundPolicy,
+        verifyFs: parsed.verifyFs,
+        schema,
+        signal: cancellation.signal,
+        onStreamEvent,
+      });
+
+      if (parsed.stream) {
+        console.log(JSON.stringify({ type: 'fanout', result: fanOut }));
+      } else if (parsed.json) {
+        console.log(JSON.stringify(fanOut, null, 2));
+      } else {
+        for (const entry of fanOut.results) {
+          console.log(colors.bold(`── ${entry.toHarness} (${entry.durationMs}ms) ──`));
+          if (entry.result.ok) {
+            console.log(entry.result.response);
+          } else {
+            console.error(colors.error(`❌ [${entry.result.errorCode}]: ${entry.result.error}`));
+            console.error(colors.info(entry.result.actionable));
+          }
+          console.log('');
+        }
+        console.log(colors.info(`trace ${fanOut.junctionTraceId}: ${fanOut.succeeded} answered, ${fanOut.failed} failed`));
+      }
+      await finishConsult();
+      process.exitCode = fanOut.ok ? 0 : 1;
+      return true;
+    }
+
+    const { runHarnessConsultWithFallback } = await import('./consult/fallback.js');
+    const consultResult = await runHarnessConsultWithFallback({
+      toHarness: parsed.toHarness,
       fromHarness: parsed.from,
       question: parsed.question,
       model: parsed.model,
       timeoutMs: parsed.timeoutMs,
       tier: parsed.tier,
+      storeContent: parsed.storeContent,
+      budgetUsd: parsed.budgetUsd,
+      intent: parsed.intent,
+      mode: parsed.mode,
+      withKnowledge: parsed.withKnowledge,
+      attach: parsed.attach,
+      session: parsed.session,
+      cache: parsed.cache,
+      outboundPolicy: parsed.outboundPolicy,
+      verifyFs: parsed.verifyFs,
+      schema,
+      fallback: parsed.fallback,
+      signal: cancellation.signal,
+      onStreamEvent,
     });
 
-    if (parsed.json) {
-      console.log(JSON.stringify(consultResult, null, 2));
-    } else if (consultResult.ok) {
-      console.log(consultResult.response);
-    } else {
-      console.error(colors.error(`❌ consult failed [${consultResult.errorCode}]: ${consultResult.error}`));
-      console.error(colors.info(consultResult.actionable));
+    // With --stream the envelope was already written as the `final` event.
+    if (!parsed.stream) {
+      if (parsed.json) {
+        console.log(JSON.stringify(consultResult, null, 2));
+      } else if (consultResult.ok) {
+        console.log(consultResult.data !== undefined ? JSON.stringify(consultResult.data, null, 2) : consultResult.response);
+        const outbound = consultResult.receipt.outbound;
+        if (outbound?.injectionMarkers.length) {
+          console.error(colors.warning(`⚠ answer contains possible prompt-injection text (${outbound.injectionMarkers.join(', ')}); treat it as data, not instructions`));
+        }
+        if (consultResult.attempts && consultResult.attempts.length > 1) {
+          const tried = consultResult.attempts.map(a => `${a.toHarness} ${a.ok ? 'ok' : a.errorCode} (${a.durationMs}ms)`);
+          console.error(colors.info(`answered by ${consultResult.toHarness} after fallback: ${tried.join(' → ')}`));
+        }
+        if (consultResult.queueWaitMs && consultResult.queueWaitMs >= 1_000) {
+          console.error(colors.info(`waited ${consultResult.queueWaitMs}ms for a free ${consultResult.toHarness} slot`));
+        }
+      } else {
+        console.error(colors.error(`❌ consult failed [${consultResult.errorCode}]: ${consultResult.error}`));
+        console.error(colors.info(consultResult.actionable));
+      }
     }
+    await finishConsult();
     process.exitCode = consultResult.ok ? 0 : 1;
     return true;
   }
@@ -352,6 +571,18 @@ async function routeCommand(query: string, options: CLIOptions, queryArgs: strin
     return true;
   }
 
+  if (query === 'serve' || query.startsWith('serve ')) {
+    const { runServeCommand } = await import('./commands/serve.js');
+    await runServeCommand(queryArgs);
+    return true;
+  }
+
+  if (query === 'dev' || query.startsWith('dev ')) {
+    const { runDevCommand } = await import('./commands/dev.js');
+    await runDevCommand(queryArgs);
+    return true;
+  }
+
   if (query === 'mcp' || query === 'mcp-server') {
     const { runMCPServer } = await import('./commands/mcp-server.js');
     await runMCPServer();
@@ -0,0 +1,499 @@
+/**
+ * Local junction daemon — `graphyn serve`.
+ *
+ * Every `graphyn consult`, `base` or `fs` call pays for a Node start plus
+ * adapter setup. The daemon keeps one junction process alive and takes the
+ * same calls as JSON over HTTP:
+ *
+ *   GET  /v1/health    liveness, version, listeners, requests in flight
+ *   POST /v1/consult   HarnessConsultRequest fields (+ toHarnesses, fallback, cwd, grantId, ...)
+ *   POST /v1/base      { args: [...] }   as in `graphyn base ...`
+ *   POST /v1/fs        { args: [...], grantId?, workspaceId?, ... }
+ *   POST /v1/invoke    a CapabilityRouter request { domain, method, path, body?, query? }
+ *
+ * Responses are the envelopes the CLI prints, receipts included, with HTTP
+ * 200 whether the envelope is ok or not. Transport problems (bad JSON,
+ * unknown route, missing token) get a 4xx/5xx and an `{ ok: false, error }`
+ * envelope of their own.
+ *
+ * Listeners: a Unix socket (default `~/.graphyn/serve/junction.sock`, mode
+ * 0600 in a 0700 directory — filesystem permissions are its auth) and,
+ * optionally, HTTP on 127.0.0.1 that requires `Authorization: Bearer <token>`
+ * on every route. Consult and invoke bodies may carry `env` with the caller's
+ * GRAPHYN_JUNCTION_* variables, so a leaf calling back through the daemon
+ * keeps its depth, trace and chain (see consult/junction-env.ts).
+ *
+ * The daemon's own directory and env say nothing about the caller. Consult,
+ * invoke and fs bodies name the caller's `cwd` (project consult.json and
+ * harnesses.json, the `--verify-fs` root, the leaf's working directory) and
+ * its VFS identity (`grantId`, `workspaceId`, `threadId`, `sessionId`,
+ * `agentId`, `subject`; `--attach` and ACP fs reads). Ids left out fall back
+ * to the daemon's env, as `graphyn fs` does without flags.
+ *
+ * Shutdown stops accepting, lets in-flight requests finish for the drain
+ * period, then cancels the rest (consults end HARNESS_CANCELLED) and removes
+ * the socket. A client that disconnects cancels its own request.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import net from 'node:net';
+import path from 'node:path';
+
+import { getDefaultCapabilityRouter } from '../adapters/capability-router.js';
+import type { BackyardCapabilityRequest } from '../adapters/backyard-cli-adapter.js';
+import { executeBaseQuery } from '../commands/base.js';
+import { fsOptionsFromEnv } from '../commands/fs.js';
+import { runHarnessConsultWithFallback } from '../consult/fallback.js';
+import { runHarnessFanOut } from '../consult/fan-out.js';
+import type { ConsultTier, HarnessConsultRequest, HarnessId } from '../consult/harness-adapter.js';
+import { JUNCTION_ENV_KEYS, withJunctionEnv, type JunctionCaller, type JunctionEnvKey } from '../consult/junction-env.js';
+import { PACKAGE_VERSION } from '../package-version.js';
+import { executeFsCommand } from '../vfs/service.js';
+import type { FsGlobalOptions } from '../vfs/types.js';
+import { subjectHashFromInput } from '../vfs/policy.js';
+import { graphynHomeDir } from '../vfs/paths.js';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_DRAIN_TIMEOUT_MS = 10_000;
+/** After cancelling, how long to wait for cancelled requests to answer before dropping connections. */
+const CANCEL_GRACE_MS = 5_000;
+
+export interface JunctionServerOptions {
+  /** Unix socket path. Defaults to `~/.graphyn/serve/junction.sock`. */
+  socketPath?: string;
+  /** Also listen on 127.0.0.1:<port>; 0 picks a free port. Off when undefined. */
+  httpPort?: number;
+  /**
+   * Bearer token for the HTTP listener. Defaults to GRAPHYN_SERVE_TOKEN;
+   * otherwise one is generated and written to `~/.graphyn/serve/token` (0600).
+   */
+  token?: string;
+  /** How long shutdown waits for in-flight requests before cancelling them (default 10s). */
+  drainTimeoutMs?: number;
+  /** One line per finished request, e.g. `POST /v1/consult 200 812ms`. */
+  log?: (line: string) => void;
+}
+
+export interface JunctionServer {
+  socketPath: string;
+  /** Bound HTTP port, when the HTTP listener is on. */
+  httpPort?: number;
+  /** Where the generated bearer token was written, when one was generated. */
+  tokenFile?: string;
+  /** Graceful shutdown; resolves once both listeners are closed and the socket is removed. */
+  close(): Promise<void>;
+}
+
+type TransportErrorCode =
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'INVALID_INPUT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'SHUTTING_DOWN'
+  | 'INTERNAL_ERROR';
+
+const TRANSPORT_STATUS: Record<TransportErrorCode, number> = {
+  UNAUTHORIZED: 401,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  INVALID_INPUT: 400,
+  PAYLOAD_TOO_LARGE: 413,
+  SHUTTING_DOWN: 503,
+  INTERNAL_ERROR: 500,
+};
+
+class TransportError extends Error {
+  constructor(
+    readonly code: TransportErrorCode,
+    message: string,
+    readonly actionable: string,
+  ) {
+    super(message);
+  }
+}
+
+type JsonBody = Record<string, unknown>;
+type RouteHandler = (body: JsonBody, signal: AbortSignal) => Promise<unknown>;
+
+export function defaultJunctionSocketPath(): string {
+  return path.join(graphynHomeDir(), 'serve', 'junction.sock');
+}
+
+export function junctionTokenPath(): string {
+  return path.join(graphynHomeDir(), 'serve', 'token');
+}
+
+// ─── Body fields ──────────────────────────────────────────────────────────────
+
+function optionalString(body: JsonBody, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new TransportError('INVALID_INPUT', `"${key}" must be a string.`, `Send "${key}" as a JSON string.`);
+  return value;
+}
+
+function optionalNumber(body: JsonBody, key: string): number | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new TransportError('INVALID_INPUT', `"${key}" must be a number.`, `Send "${key}" as a JSON number.`);
+  return value;
+}
+
+function optionalBoolean(body: JsonBody, key: string): boolean | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'boolean') throw new TransportError('INVALID_INPUT', `"${key}" must be true or false.`, `Send "${key}" as a JSON boolean.`);
+  return value;
+}
+
+function optionalStringArray(body: JsonBody, key: string): string[] | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new TransportError('INVALID_INPUT', `"${key}" must be an array of strings.`, `Send "${key}" as a JSON array of strings.`);
+  }
+  return value as string[];
+}
+
+/** `env`: the caller's junction variables; other keys are ignored. */
+function junctionOverrides(body: JsonBody): Partial<Record<JunctionEnvKey, string>> {
+  const raw = body.env;
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new TransportError('INVALID_INPUT', '"env" must be an object.', 'Send the caller\'s GRAPHYN_JUNCTION_* variables as { "env": { ... } }.');
+  }
+  const overrides: Partial<Record<JunctionEnvKey, string>> = {};
+  for (const key of JUNCTION_ENV_KEYS) {
+    const value = (raw as JsonBody)[key];
+    if (typeof value === 'string') overrides[key] = value;
+  }
+  return overrides;
+}
+
+/**
+ * `cwd`, `grantId`, `workspaceId`, `threadId`, `sessionId`, `agentId`,
+ * `subject`: the caller's VFS identity, and the directory mounted at /repo.
+ */
+function fsOptionsFromBody(body: JsonBody): FsGlobalOptions {
+  const cwd = optionalString(body, 'cwd');
+  if (cwd !== undefined && (!path.isAbsolute(cwd) || !fs.statSync(cwd, { throwIfNoEntry: false })?.isDirectory())) {
+    throw new TransportError('INVALID_INPUT', '"cwd" must be an absolute path to a directory.', 'Send the caller\'s working directory, e.g. process.cwd().');
+  }
+  // Same identity as the CLI: the env (with the caller's junction variables), with the `--grant-id`-style flags taken from the body.
+  // The grant itself is still checked by the VFS.
+  const defaults = fsOptionsFromEnv({ ...process.env, ...junctionOverrides(body) });
+  const subject = optionalString(body, 'subject');
+  return {
+    ...defaults,
+    ...(cwd !== undefined ? { cwd } : {}),
+    grantId: optionalString(body, 'grantId') ?? defaults.grantId,
+    workspaceId: optionalString(body, 'workspaceId') ?? defaults.workspaceId,
+    threadId: optionalString(body, 'threadId') ?? defaults.threadId,
+    sessionId: optionalString(body, 'sessionId') ?? defaults.sessionId,
+    agentId: optionalString(body, 'agentId') ?? defaults.agentId,
+    ...(subject ? { subjectHash: subjectHashFromInput(subject) } : {}),
+  };
+}
+
+/** Who is asking, and from where. */
+function callerFromBody(body: JsonBody): JunctionCaller {
+  const fsOptions = fsOptionsFromBody(body);
+  return { ...(fsOptions.cwd !== undefined ? { cwd: fsOptions.cwd } : {}), fsOptions };
+}
+
+// ─── Routes ───────────────────────────────────────────────────────────────────
+
+async function consultRoute(body: JsonBody, signal: AbortSignal): Promise<unknown> {
+  const toHarnesses = optionalStringArray(body, 'toHarnesses');
+  const toHarness = optionalString(body, 'toHarness');
+  if (!toHarness && !toHarnesses?.length) {
+    throw new TransportError('INVALID_INPUT', 'Missing "toHarness".', 'Send { "toHarness": "gemini", "question": "..." }, or "toHarnesses" to fan out.');
+  }
+  const schema = body.schema;
+  if (schema !== undefined && (!schema || typeof schema !== 'object' || Array.isArray(schema))) {
+    throw new TransportError('INVALID_INPUT', '"schema" must be a JSON Schema object.', 'Send the schema itself, not a path to it.');
+  }
+  // Enum-typed fields are passed through as sent; the junction rejects unknown values with BAD_REQUEST.
+  const shared: Omit<HarnessConsultRequest, 'toHarness'> = {
+    question: optionalString(body, 'question') ?? '',
+    fromHarness: optionalString(body, 'fromHarness'),
+    model: optionalString(body, 'model'),
+    timeoutMs: optionalNumber(body, 'timeoutMs'),
+    tier: optionalString(body, 'tier') as ConsultTier | undefined,
+    storeContent: optionalBoolean(body, 'storeContent'),
+    budgetUsd: optionalNumber(body, 'budgetUsd'),
+    intent: optionalString(body, 'intent'),
+    mode: optionalString(body, 'mode') as HarnessConsultRequest['mode'],
+    withKnowledge: optionalNumber(body, 'withKnowledge'),
+    attach: optionalStringArray(body, 'attach'),
+    session: optionalString(body, 'session'),
+    cache: optionalBoolean(body, 'cache'),
+    outboundPolicy: optionalString(body, 'outboundPolicy') as HarnessConsultRequest['outboundPolicy'],
+    verifyFs: optionalBoolean(body, 'verifyFs'),
+    ...(schema !== undefined ? { schema: schema as HarnessConsultRequest['schema'] } : {}),
+    signal,
+  };
+  if (toHarnesses && toHarnesses.length > 1 && shared.model) {
+    throw new TransportError('INVALID_INPUT', '"model" names one harness\'s model and cannot go to a fan-out.', 'Drop "model", or consult each harness separately.');
+  }
+  const fallback = optionalStringArray(body, 'fallback');
+  const traceId = optionalString(body, 'traceId');
+
+  return withJunctionEnv(
+    junctionOverrides(body),
+    () =>
+      toHarnesses && toHarnesses.length > 1
+        ? runHarnessFanOut({ ...shared, toHarnesses: toHarnesses as HarnessId[] })
+        : runHarnessConsultWithFallback({ ...shared, toHarness: (toHarness ?? toHarnesses![0]) as HarnessId, traceId, fallback }),
+    callerFromBody(body),
+  );
+}
+
+async function baseRoute(body: JsonBody): Promise<unknown> {
+  const args = optionalStringArray(body, 'args');
+  if (!args?.length) throw new TransportError('INVALID_INPUT', 'Missing "args".', 'Send the `graphyn base` arguments: { "args": ["--docs-only", "billing refactor"] }.');
+  return (await executeBaseQuery(['base', ...args])).envelope;
+}
+
+async function fsRoute(body: JsonBody): Promise<unknown> {
+  const args = optionalStringArray(body, 'args');
+  if (!args?.length) throw new TransportError('INVALID_INPUT', 'Missing "args".', 'Send the `graphyn fs` arguments: { "args": ["ls", "/repo"] }.');
+  const result = await executeFsCommand(args, fsOptionsFromBody(body));
+  return result.envelope;
+}
+
+async function invokeRoute(body: JsonBody): Promise<unknown> {
+  const domain = optionalString(body, 'domain');
+  const method = optionalString(body, 'method') ?? 'POST';
+  if (!domain) throw new TransportError('INVALID_INPUT', 'Missing "domain".', 'Send a capability request: { "domain": "harness/gemini", "method": "POST", "path": "/", "body": { "question": "..." } }.');
+  if (!['GET', 'POST', 'PATCH', 'DELETE'].includes(method)) {
+    throw new TransportError('INVALID_INPUT', `Unsupported method "${method}".`, 'Use GET, POST, PATCH, or DELETE.');
+  }
+  const query = body.query;
+  const request: BackyardCapabilityRequest = {
+    domain,
+    method: method as BackyardCapabilityRequest['method'],
+    path: optionalString(body, 'path') ?? '/',
+    ...(body.body !== undefined ? { body: body.body } : {}),
+    ...(query && typeof query === 'object' && !Array.isArray(query) ? { query: query as Record<string, string> } : {}),
+  };
+  const router = getDefaultCapabilityRouter();
+  if (!router.registeredDomains().includes(domain.split('/')[0] ?? '')) {
+    throw new TransportError('NOT_FOUND', `No capability adapter for domain "${domain}".`, `Registered domains: ${router.registeredDomains().join(', ')}.`);
+  }
+  return withJunctionEnv(junctionOverrides(body), () => router.invoke(request), callerFromBody(body));
+}
+
+const ROUTES: Record<string, RouteHandler> = {
+  '/v1/consult': consultRoute,
+  '/v1/base': baseRoute,
+  '/v1/fs': fsRoute,
+  '/v1/invoke': invokeRoute,
+};
+
+// ─── HTTP plumbing ────────────────────────────────────────────────────────────
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+  if (res.headersSent || res.destroyed) return;
+  const body = JSON.stringify(payload);
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(body) });
+  res.end(body);
+}
+
+function sendTransportError(res: http.ServerResponse, err: TransportError): void {
+  sendJson(res, TRANSPORT_STATUS[err.code], {
+    ok: false,
+    error: { code: err.code, message: err.message, actionable: err.actionable },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<JsonBody> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new TransportError('PAYLOAD_TOO_LARGE', `Request body exceeds ${MAX_BODY_BYTES} bytes.`, 'Attach large files with "attach" instead of inlining them.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('error', reject);
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw.trim()) return resolve({});
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('not an object');
+        resolve(parsed as JsonBody);
+      } catch {
+        reject(new TransportError('INVALID_INPUT', 'Request body is not a JSON object.', 'Send Content-Type: application/json with a JSON object body.'));
+      }
+    });
+  });
+}
+
+/** Constant-time bearer check; hashing first keeps the comparison length-independent. */
+function hasBearerToken(req: http.IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (!match) return false;
+  const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/** Remove a socket file left by a crashed server; refuse if a live server still answers on it. */
+function claimSocketPath(socketPath: string): Promise<void> {
+  if (!fs.existsSync(socketPath)) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const probe = net.connect(socketPath);
+    probe.once('connect', () => {
+      probe.destroy();
+      reject(new Error(`another graphyn serve is already listening on ${socketPath}`));
+    });
+    probe.once('error', () => {
+      fs.rmSync(socketPath, { force: true });
+      resolve();
+    });
+  });
+}
+
+function listen(server: http.Server, target: string | number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    const done = (): void => {
+      server.off('error', reject);
+      resolve();
+    };
+    if (typeof target === 'string') server.listen(target, done);
+    else server.listen(target, '127.0.0.1', done);
+  });
+}
+
+/**
+ * Start the daemon. Resolves once every listener is bound; call `close()`
+ * (the CLI does on SIGINT/SIGTERM) for a graceful shutdown.
+ */
+export async function startJunctionServer(options: JunctionServerOptions = {}): Promise<JunctionServer> {
+  const socketPath = options.socketPath ?? defaultJunctionSocketPath();
+  const drainTimeoutMs = options.drainTimeoutMs ?? DEFAULT_DRAIN_TIMEOUT_MS;
+  const startedAt = new Date();
+  const inFlight = new Set<AbortController>();
+  let closing = false;
+  let httpPort: number | undefined;
+  let tokenFile: string | undefined;
+
+  let token: string | undefined;
+  if (options.httpPort !== undefined) {
+    token = options.token ?? process.env.GRAPHYN_SERVE_TOKEN;
+    if (!token) {
+      token = randomBytes(32).toString('base64url');
+      tokenFile = junctionTokenPath();
+      fs.mkdirSync(path.dirname(tokenFile), { recursive: true, mode: 0o700 });
+      fs.writeFileSync(tokenFile, `${token}\n`, { mode: 0o600 });
+    }
+  }
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse, requireToken: boolean): Promise<void> => {
+    const started = Date.now();
+    const route = (req.url ?? '/').split('?')[0];
+    res.on('finish', () => options.log?.(`${req.method} ${route} ${res.statusCode} ${Date.now() - started}ms`));
+    try {
+      if (requireToken && !hasBearerToken(req, token!)) {
+        throw new TransportError('UNAUTHORIZED', 'Missing or wrong bearer token.', 'Send Authorization: Bearer <token> (GRAPHYN_SERVE_TOKEN, or the token file graphyn serve printed).');
+      }
+      if (route === '/v1/health') {
+        if (req.method !== 'GET') throw new TransportError('METHOD_NOT_ALLOWED', `${req.method} ${route} is not supported.`, `Use GET ${route}.`);
+        sendJson(res, 200, {
+          ok: true,
+          service: 'graphyn-junction',
+          version: PACKAGE_VERSION,
+          pid: process.pid,
+          startedAt: startedAt.toISOString(),
+          uptimeMs: Date.now() - startedAt.getTime(),
+          inFlight: inFlight.size,
+          socketPath,
+          ...(httpPort !== undefined ? { httpPort } : {}),
+          routes: ['/v1/health', ...Object.keys(ROUTES)],
+        });
+        return;
+      }
+      const handler = ROUTES[route];
+      if (!handler) throw new TransportError('NOT_FOUND', `No route ${route}.`, `Routes: /v1/health, ${Object.keys(ROUTES).join(', ')}.`);
+      if (req.method !== 'POST') throw new TransportError('METHOD_NOT_ALLOWED', `${req.method} ${route} is not supported.`, `Use POST ${route} with a JSON body.`);
+      if (closing) throw new TransportError('SHUTTING_DOWN', 'The junction server is shutting down.', 'Retry once graphyn serve is running again.');
+
+      const body = await readJsonBody(req);
+      const controller = new AbortController();
+      inFlight.add(controller);
+      // A caller that hangs up cancels its own request.
+      res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+      });
+      try {
+        sendJson(res, 200, await handler(body, controller.signal));
+      } finally {
+        inFlight.delete(controller);
+      }
+    } catch (err) {
+      sendTransportError(
+        res,
+        err instanceof TransportError
+          ? err
+          : new TransportError('INTERNAL_ERROR', err instanceof Error ? err.message : String(err), 'See the graphyn serve log; the request was not completed.'),
+      );
+    }
+  };
+
+  fs.mkdirSync(path.dirname(socketPath), { recursive: true, mode: 0o700 });
+  await claimSocketPath(socketPath);
+  const socketServer = http.createServer((req, res) => void handle(req, res, false));
+  await listen(socketServer, socketPath);
+  fs.chmodSync(socketPath, 0o600);
+
+  let httpServer: http.Server | undefined;
+  if (options.httpPort !== undefined) {
+    httpServer = http.createServer((req, res) => void handle(req, res, true));
+    try {
+      await listen(httpServer, options.httpPort);
+    } catch (err) {
+      socketServer.close();
+      fs.rmSync(socketPath, { force: true });
+      throw err;
+    }
+    httpPort = (httpServer.address() as net.AddressInfo).port;
+  }
+
+  const servers = [socketServer, ...(httpServer ? [httpServer] : [])];
+  const waitForDrain = async (ms: number): Promise<void> => {
+    const deadline = Date.now() + ms;
+    while (inFlight.size > 0 && Date.now() < deadline) await new Promise(resolve => setTimeout(resolve, 50));
+  };
+  let closed: Promise<void> | undefined;
+
+  return {
+    socketPath,
+    ...(httpPort !== undefined ? { httpPort } : {}),
+    ...(tokenFile ? { tokenFile } : {}),
+    close(): Promise<void> {
+      closed ??= (async () => {
+        closing = true;
+        const stopped = servers.map(server => new Promise<void>(resolve => server.close(() => resolve())));
+        for (const server of servers) server.closeIdleConnections();
+        await waitForDrain(drainTimeoutMs);
+        for (const controller of inFlight) controller.abort();
+        await waitForDrain(CANCEL_GRACE_MS);
+        for (const server of servers) server.closeAllConnections();
+        await Promise.all(stopped);
+        fs.rmSync(socketPath, { force: true });
+        if (tokenFile) fs.rmSync(tokenFile, { force: true });
+      })();
+      return closed;
+    },
+  };
+}
@@ -4,6 +4,7 @@ import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
+import { runHarnessDoctor, type HarnessDoctorReport } from '../consult/harness-doctor.js';
 
 const execAsync = promisify(exec);
 
@@ -30,6 +31,8 @@ export interface DoctorResult {
   needsTmux: boolean;
   needsFigmaMCP: boolean;
   hasRepository: boolean;
+  /** Consult leaf readiness (see consult/harness-doctor.ts). */
+  harnesses: HarnessDoctorReport[];
 }
 
 /**
@@ -325,6 +328,43 @@ async function checkFigmaDesktop(): Promise<SystemCheck> {
   }
 }
 
+/**
+ * Check consult harness leaves (PATH, version, login)
+ */
+async function checkConsultHarnesses(): Promise<{ checks: SystemCheck[]; reports: HarnessDoctorReport[] }> {
+  try {
+    const reports = await runHarnessDoctor();
+    const checks = reports.map((report): SystemCheck => {
+      const version = report.version ? ` ${report.version}` : '';
+      if (report.readiness === 'ready') {
+        return {
+          name: `Consult: ${report.harness}`,
+          status: 'pass',
+          message: `✓ ${report.binary}${version} ready (${report.resolvedPath})`,
+          required: false
+        };
+      }
+      return {
+        name: `Consult: ${report.harness}`,
+        status: 'warning',
+        message: `⚠ ${report.issues.map(issue => `${issue.message} ${issue.actionable}`).join('\n  ')}`,
+        required: false
+      };
+    });
+    return { checks, reports };
+  } catch {
+    return {
+      checks: [{
+        name: 'Consult harnesses',
+        status: 'warning',
+        message: '⚠ Could not check consult harnesses',
+        required: false
+      }],
+      reports: []
+    };
+  }
+}
+
 /**
  * Run system doctor checks
  */
@@ -351,6 +391,9 @@ export async function runDoctor(): Promise<DoctorResult> {
   const figmaCheck = await checkFigmaDesktop();
   checks.push(figmaCheck);
   
+  const harnessChecks = await checkConsultHarnesses();
+  checks.push(...harnessChecks.checks);
+  
   // Display results
   console.log(colors.bold('System Check Results:\n'));
   
@@ -384,6 +427,7 @@ export async function runDoctor(): Promise<DoctorResult> {
     needsClaudeCode,
     needsTmux,
     needsFigmaMCP,
-    hasRepository
+    hasRepository,
+    harnesses: harnessChecks.reports
   };
 }
\ No newline at end of file
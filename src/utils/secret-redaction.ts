@@ -0,0 +1,226 @@
+/**
+ * Secret redaction engine — one rule set for every place that must not leak
+ * credentials.
+ *
+ * Rules are grouped into named packs (core, aws, gcp, stripe, jwt, pem,
+ * database-url, entropy). Consults redact the question with every pack
+ * before a leaf harness sees it (transform stage 4). The config registry
+ * refuses secret-looking values with the same rules, minus entropy, which
+ * would flag the opaque Stripe ids the registry is meant to hold.
+ *
+ * Each rule has a stable id (`<pack>.<name>`). Callers get back the ids that
+ * fired, never the matched text, so receipts can prove what was stripped
+ * without storing the secret.
+ *
+ * Org-specific shapes are added as custom rules (`custom.<id>`) through the
+ * `redaction` section of consult.json.
+ */
+
+export type RedactionPackName =
+  | 'core'
+  | 'aws'
+  | 'gcp'
+  | 'stripe'
+  | 'jwt'
+  | 'pem'
+  | 'database-url'
+  | 'entropy';
+
+export interface RedactionRule {
+  /** Stable id recorded in receipts, e.g. `pem.private-key`. */
+  id: string;
+  /** Must be global (`g`). */
+  pattern: RegExp;
+  /** Replacement for a match; defaults to `[REDACTED]`. */
+  replace?: (match: string, ...groups: string[]) => string;
+  /** Extra check on a candidate match (entropy scoring). */
+  accept?: (match: string) => boolean;
+}
+
+export interface CustomRedactionRule {
+  /** Recorded as `custom.<id>`. */
+  id: string;
+  /** JavaScript regular expression source. */
+  pattern: string;
+  /** Extra flags; `g` is always added. */
+  flags?: string;
+}
+
+export interface RedactionOptions {
+  /** Packs to apply. Defaults to every pack. */
+  packs?: RedactionPackName[];
+  /** Rule ids to skip (false positives in a given org). */
+  disabledRules?: string[];
+  customRules?: CustomRedactionRule[];
+}
+
+export interface RedactionResult {
+  text: string;
+  redacted: boolean;
+  /** Ids of the rules that fired, in rule order, without duplicates. */
+  ruleIds: string[];
+}
+
+export const REDACTED_PLACEHOLDER = '[REDACTED]';
+
+// ─── Entropy scoring ──────────────────────────────────────────────────────────
+
+const ENTROPY_MIN_LENGTH = 24;
+const ENTROPY_MIN_BITS_PER_CHAR = 4.0;
+/** Identifiers and paths split into words of ~4+ characters; random tokens into ~1.5. */
+const IDENTIFIER_MIN_CHARS_PER_WORD = 4;
+
+/** Shannon entropy of a string, in bits per character. */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * True when a token reads as camelCase / snake_case words or path segments
+ * (`runHarnessConsultWithFallback2`, `Users/Docs/ReportQ3Final2024Version`):
+ * split at case changes, digits, and punctuation, its words are long.
+ */
+function looksLikeIdentifierOrPath(token: string): boolean {
+  const words = token.match(/[A-Z]?[a-z]+|[A-Z]+(?![a-z])|[0-9]+/g) ?? [];
+  return words.length > 0 && token.length / words.length >= IDENTIFIER_MIN_CHARS_PER_WORD;
+}
+
+/**
+ * A token looks like a generated credential when it mixes upper case, lower
+ * case, and digits and is close to random. Hex digests, UUIDs, and lowercase
+ * paths fail the mixed-case test, which keeps hashes and trace ids readable;
+ * code identifiers and mixed-case paths are skipped by word shape.
+ */
+function looksLikeGeneratedSecret(token: string): boolean {
+  if (token.length < ENTROPY_MIN_LENGTH) return false;
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) return false;
+  if (looksLikeIdentifierOrPath(token)) return false;
+  return shannonEntropy(token) >= ENTROPY_MIN_BITS_PER_CHAR;
+}
+
+// ─── Rule packs ───────────────────────────────────────────────────────────────
+
+const PEM_BODY = String.raw`-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----(?:[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----|[A-Za-z0-9+/=\s\\]*)`;
+
+export const REDACTION_PACKS: Readonly<Record<RedactionPackName, readonly RedactionRule[]>> = {
+  core: [
+    { id: 'core.openai-key', pattern: /\bsk-[A-Za-z0-9_\-]{16,}\b/g },
+    { id: 'core.google-api-key', pattern: /\bAIza[0-9A-Za-z_\-]{30,}\b/g },
+    { id: 'core.github-token', pattern: /\bgh[pousr]_[A-Za-z0-9_]{20,}\b/g },
+    { id: 'core.slack-token', pattern: /\bxox[baprs]-[A-Za-z0-9-]{10,}\b/g },
+    {
+      id: 'core.keyword-assignment',
+      pattern: /\b(?:api[_-]?key|token|secret|password|passwd|bearer)\b\s*[:=]\s*['"]?[^\s'"]{6,}/gi,
+    },
+  ],
+  aws: [
+    { id: 'aws.access-key-id', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g },
+    {
+      id: 'aws.secret-access-key',
+      pattern: /\baws_?secret_?access_?key\b\s*[:=]\s*['"]?[A-Za-z0-9/+=]{40}/gi,
+    },
+  ],
+  gcp: [
+    // Service-account JSON: the key body is a JSON-escaped PEM block.
+    {
+      id: 'gcp.service-account-private-key',
+      pattern: /"private_key"\s*:\s*"-----BEGIN [A-Z ]*PRIVATE KEY-----[^"]*"/g,
+    },
+    { id: 'gcp.service-account-key-id', pattern: /"private_key_id"\s*:\s*"[0-9a-f]{40}"/g },
+  ],
+  stripe: [
+    { id: 'stripe.secret-key', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9_]+/g },
+    { id: 'stripe.publishable-key', pattern: /\bpk_(?:live|test)_[A-Za-z0-9_]+/g },
+    { id: 'stripe.webhook-secret', pattern: /\bwhsec_[A-Za-z0-9_]+/g },
+  ],
+  jwt: [
+    { id: 'jwt.token', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g },
+  ],
+  pem: [
+    // Also catches a truncated paste that never reaches the END line.
+    { id: 'pem.private-key', pattern: new RegExp(PEM_BODY, 'g') },
+  ],
+  'database-url': [
+    // Keep scheme, user, and host readable; only the password is replaced.
+    {
+      id: 'database-url.password',
+      pattern: /\b((?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver):\/\/[^\s:/@]+:)([^\s@]+)(@)/gi,
+      replace: (_match, prefix, _password, at) => `${prefix}${REDACTED_PLACEHOLDER}${at}`,
+    },
+  ],
+  entropy: [
+    { id: 'entropy.high-entropy-token', pattern: /[A-Za-z0-9+/_=-]{24,}/g, accept: looksLikeGeneratedSecret },
+  ],
+};
+
+/**
+ * Pack order is application order: specific shapes before the entropy
+ * catch-all, and service-account JSON before bare PEM blocks so the whole
+ * `"private_key"` value is replaced.
+ */
+export const DEFAULT_REDACTION_PACKS: readonly RedactionPackName[] = [
+  'gcp',
+  'pem',
+  'database-url',
+  'jwt',
+  'aws',
+  'stripe',
+  'core',
+  'entropy',
+];
+
+function compileCustomRules(customRules: CustomRedactionRule[] | undefined): RedactionRule[] {
+  const compiled: RedactionRule[] = [];
+  for (const rule of customRules ?? []) {
+    if (!rule || typeof rule.id !== 'string' || typeof rule.pattern !== 'string') continue;
+    try {
+      const flags = [...new Set(`${rule.flags ?? ''}g`)].join('');
+      compiled.push({ id: `custom.${rule.id}`, pattern: new RegExp(rule.pattern, flags) });
+    } catch {
+      // An invalid custom pattern is skipped; built-in packs still apply.
+    }
+  }
+  return compiled;
+}
+
+/** Resolve the ordered rule list for a set of options. */
+export function resolveRedactionRules(options: RedactionOptions = {}): RedactionRule[] {
+  const packs = options.packs ?? DEFAULT_REDACTION_PACKS;
+  const disabled = new Set(options.disabledRules ?? []);
+  const rules = [
+    ...compileCustomRules(options.customRules),
+    ...DEFAULT_REDACTION_PACKS.filter(pack => packs.includes(pack)).flatMap(pack => REDACTION_PACKS[pack]),
+  ];
+  return rules.filter(rule => !disabled.has(rule.id));
+}
+
+/** Replace every secret-shaped match with `[REDACTED]` and report which rules fired. */
+export function redactText(input: string, options: RedactionOptions = {}): RedactionResult {
+  const fired = new Set<string>();
+  let text = input;
+  for (const rule of resolveRedactionRules(options)) {
+    // Reset lastIndex so repeated calls with the same /g pattern work correctly.
+    rule.pattern.lastIndex = 0;
+    text = text.replace(rule.pattern, (match: string, ...rest: unknown[]) => {
+      if (match.includes(REDACTED_PLACEHOLDER)) return match;
+      if (rule.accept && !rule.accept(match)) return match;
+      fired.add(rule.id);
+      const groups = rest.filter((value): value is string => typeof value === 'string');
+      return rule.replace ? rule.replace(match, ...groups) : REDACTED_PLACEHOLDER;
+    });
+  }
+  return { text, redacted: fired.size > 0, ruleIds: [...fired] };
+}
+
+/** Ids of the rules that match `input`, without producing redacted text. */
+export function findSecretRuleIds(input: string, options: RedactionOptions = {}): string[] {
+  return redactText(input, options).ruleIds;
+}
@@ -88,7 +88,7 @@ function derivePromptOutcome(pathOutcomes: VfsPathOutcome[]): PromptOutcome {
   return pathOutcomes.some(outcome => outcome.decision === 'prompted') ? 'declined' : 'not_prompted';
 }
 
-function lastReceiptHash(receiptsDir: string): string | null {
+export function lastReceiptHash(receiptsDir: string): string | null {
   if (!fs.existsSync(receiptsDir)) return null;
   const files = fs.readdirSync(receiptsDir)
     .filter(file => file.endsWith('.jsonl'))
@@ -108,7 +108,7 @@ function lastReceiptHash(receiptsDir: string): string | null {
   return null;
 }
 
-function withReceiptLock<T>(receiptsDir: string, fn: () => T): T {
+export function withReceiptLock<T>(receiptsDir: string, fn: () => T): T {
   const lockDir = path.join(receiptsDir, '.lock');
   const started = Date.now();
   while (true) {
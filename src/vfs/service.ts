@@ -54,7 +54,7 @@ export async function executeFsCommand(args: string[], options: FsGlobalOptions)
     options,
     grant: loadedGrant.grant,
     grantMissingReason: loadedGrant.reasonCode,
-    mounts: defaultMounts(),
+    mounts: defaultMounts(options.cwd),
     rawArgs: args,
   };
 
@@ -117,6 +117,8 @@ export interface VfsEnvelope {
 
 export interface FsGlobalOptions {
   grantId?: string;
+  /** Directory mounted at /repo (and /docs). Defaults to process.cwd(). */
+  cwd?: string;
   workspaceId: string;
   threadId: string;
   sessionId: string;
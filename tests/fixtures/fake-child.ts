@@ -0,0 +1,122 @@
+/**
+ * In-process stand-ins for the ChildProcess that `spawn` returns, for unit
+ * tests that mock `node:child_process`:
+ *
+ *   vi.mock('node:child_process', () => ({ spawn: vi.fn() }));
+ *   spawnMock.mockImplementation(() => answeringChild('{"response":"ok"}'));
+ *
+ * Each child emits what a real one would, in the same order: stdout data,
+ * then 'close'. `missingChild` mirrors a binary that is not on PATH — no
+ * pid, an asynchronous 'error' (ENOENT), then 'close' — rather than a
+ * synchronous throw, which `spawn` never does for a missing binary.
+ */
+
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { vi, type Mock } from 'vitest';
+
+export interface FakeChild extends EventEmitter {
+  pid?: number;
+  stdin: PassThrough;
+  stdout: PassThrough;
+  stderr: PassThrough;
+  kill: Mock;
+  /** True once 'close' was emitted. */
+  exited: boolean;
+}
+
+/** One JSON-RPC message as a fake ACP agent reads it from stdin. */
+export interface AcpWireMessage {
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string };
+}
+
+/** A child with empty streams; `kill()` closes it (exit code null) on the next tick. */
+export function fakeChild(): FakeChild {
+  const child = new EventEmitter() as FakeChild;
+  child.stdin = new PassThrough();
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.exited = false;
+  child.once('close', () => { child.exited = true; });
+  child.kill = vi.fn(() => {
+    exitSoon(child, null);
+    return true;
+  });
+  return child;
+}
+
+/** Emit 'close' on the next tick unless the child has closed by then. */
+function exitSoon(child: FakeChild, code: number | null): void {
+  setImmediate(() => {
+    if (!child.exited) child.emit('close', code);
+  });
+}
+
+/** Writes `stdout` and exits with `code` on the next tick. */
+export function answeringChild(stdout: string, code = 0): FakeChild {
+  const child = fakeChild();
+  setImmediate(() => {
+    child.stdout.emit('data', Buffer.from(stdout));
+    child.emit('close', code);
+  });
+  return child;
+}
+
+/** Writes `stdout` and exits 0 after `delayMs`; with 'never', only exits when killed. */
+export function delayedChild(stdout: string, delayMs: number | 'never'): FakeChild {
+  const child = fakeChild();
+  if (delayMs !== 'never') {
+    setTimeout(() => {
+      child.stdout.emit('data', Buffer.from(stdout));
+      child.emit('close', 0);
+    }, delayMs);
+  }
+  return child;
+}
+
+/** Writes `chunks` one tick apart, then exits 0. */
+export function chunkedChild(chunks: string[]): FakeChild {
+  const child = fakeChild();
+  void (async () => {
+    for (const chunk of chunks) {
+      await new Promise(resolve => setImmediate(resolve));
+      child.stdout.emit('data', Buffer.from(chunk));
+    }
+    await new Promise(resolve => setImmediate(resolve));
+    child.emit('close', 0);
+  })();
+  return child;
+}
+
+/** A binary that is not on PATH, reported the way Node does: 'error', then 'close'. */
+export function missingChild(command = 'harness'): FakeChild {
+  const child = fakeChild();
+  setImmediate(() => {
+    child.emit('error', Object.assign(new Error(`spawn ${command} ENOENT`), { code: 'ENOENT', errno: -2, syscall: `spawn ${command}` }));
+    child.emit('close', -2);
+  });
+  return child;
+}
+
+/**
+ * A fake ACP agent: every JSON-RPC line the client writes goes to
+ * `onMessage`, which answers through `send` (the `jsonrpc` field is added).
+ * Ending stdin closes the child, as a real agent exits on EOF.
+ */
+export function acpChild(onMessage: (message: AcpWireMessage, send: (message: object) => void) => void): FakeChild {
+  const child = fakeChild();
+  const send = (message: object): void => {
+    child.stdout.push(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+  };
+  child.stdin.on('data', (chunk: Buffer) => {
+    for (const line of chunk.toString().split('\n').filter(Boolean)) {
+      onMessage(JSON.parse(line) as AcpWireMessage, send);
+    }
+  });
+  child.stdin.on('finish', () => exitSoon(child, 0));
+  return child;
+}
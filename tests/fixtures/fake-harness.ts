@@ -0,0 +1,44 @@
+/**
+ * Fake gemini/codex/claude binaries for tests that spawn real processes.
+ *
+ * src/consult/fake-harness.ts is transpiled to a standalone .mjs (it only
+ * imports node: builtins) and shims for each harness are written next to it.
+ * Put `binDir` first on PATH; `readRecords()` returns what each invocation
+ * received when GRAPHYN_FAKE_RECORD points at `recordFile`.
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { installFakeHarnesses, type FakeHarnessRecord } from '../../src/consult/fake-harness.js';
+
+export interface FakeHarnessFixture {
+  binDir: string;
+  recordFile: string;
+  readRecords(): FakeHarnessRecord[];
+}
+
+export function createFakeHarnessFixture(): FakeHarnessFixture {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-fake-harness-'));
+  const source = fs.readFileSync(fileURLToPath(new URL('../../src/consult/fake-harness.ts', import.meta.url)), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ES2022, target: ts.ScriptTarget.ES2022 },
+  });
+  const script = path.join(root, 'fake-harness.mjs');
+  fs.writeFileSync(script, outputText);
+
+  const binDir = path.join(root, 'bin');
+  installFakeHarnesses(binDir, { script });
+
+  const recordFile = path.join(root, 'invocations.jsonl');
+  return {
+    binDir,
+    recordFile,
+    readRecords: () =>
+      fs.existsSync(recordFile)
+        ? fs.readFileSync(recordFile, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line) as FakeHarnessRecord)
+        : [],
+  };
+}
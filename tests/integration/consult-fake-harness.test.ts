@@ -0,0 +1,183 @@
+/**
+ * Consults against real processes: the fake gemini/codex/claude binaries
+ * from tests/fixtures/fake-harness.ts are first on PATH, so argv building,
+ * env stripping, process handling and the output parsers all run for real.
+ * Offline and free; no harness CLI needs to be installed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runHarnessConsultWithFallback } from '../../src/consult/fallback.js';
+import { runHarnessConsult, type ConsultStreamEvent } from '../../src/consult/harness-adapter.js';
+import { listConsultReceipts } from '../../src/consult/receipt-log.js';
+import { hmacArg } from '../../src/vfs/hash.js';
+import { createFakeHarnessFixture, type FakeHarnessFixture } from '../fixtures/fake-harness.js';
+
+describe('consults against the fake harness binaries', () => {
+  let fixture: FakeHarnessFixture;
+  const savedEnv = { ...process.env };
+
+  beforeAll(() => {
+    fixture = createFakeHarnessFixture();
+    process.env.PATH = `${fixture.binDir}${path.delimiter}${process.env.PATH ?? ''}`;
+    process.env.GRAPHYN_FAKE_RECORD = fixture.recordFile;
+    process.env.OPENAI_API_KEY = 'sk-fake-parent-secret';
+  });
+
+  afterAll(() => {
+    process.env = savedEnv;
+  });
+
+  beforeEach(() => {
+    fs.rmSync(fixture.recordFile, { force: true });
+    delete process.env.GRAPHYN_FAKE_SCENARIO;
+    delete process.env.GRAPHYN_FAKE_RESPONSE;
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    delete process.env.GRAPHYN_CONSULT_TIER;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-fake-consult-'));
+  });
+
+  it('parses each harness format and passes read-only argv and a stripped env', async () => {
+    for (const toHarness of ['gemini', 'codex', 'claude'] as const) {
+      const result = await runHarnessConsult({ toHarness, question: 'Is the retry loop safe?', model: `${toHarness}-test-model` });
+      if (!result.ok) throw new Error(`${toHarness}: expected ok, got ${result.errorCode}: ${result.error}`);
+      expect(result.response).toBe(`Fake ${toHarness} answer.`);
+      if (toHarness !== 'codex') expect(result.answeredByModel).toBe(`${toHarness}-test-model`);
+    }
+
+    const [gemini, codex, claude] = fixture.readRecords();
+    expect(gemini.argv).toEqual(expect.arrayContaining(['--approval-mode', 'plan', '-o', 'json']));
+    expect(codex.argv.slice(0, 6)).toEqual(['exec', '--skip-git-repo-check', '--ignore-user-config', '-s', 'read-only', '--json']);
+    expect(claude.argv).toEqual(expect.arrayContaining(['--allowedTools', 'Read,Glob,Grep', '--permission-mode', 'default']));
+    for (const record of [gemini, codex, claude]) {
+      expect(record.prompt).toContain('Is the retry loop safe?');
+      expect(record.env.OPENAI_API_KEY).toBeUndefined();
+      expect(record.env.GRAPHYN_JUNCTION_DEPTH).toBe('1');
+    }
+  });
+
+  it('maps malformed output, nonzero exits, write stats and hangs to their error codes', async () => {
+    const cases = [
+      { toHarness: 'gemini', scenario: 'malformed', errorCode: 'HARNESS_UNPARSEABLE' },
+      { toHarness: 'codex', scenario: 'exit=3', errorCode: 'HARNESS_FAILED' },
+      { toHarness: 'gemini', scenario: 'writes', errorCode: 'HARNESS_UNSAFE_OUTPUT' },
+      { toHarness: 'claude', scenario: 'hang', errorCode: 'HARNESS_TIMEOUT' },
+    ] as const;
+    for (const { toHarness, scenario, errorCode } of cases) {
+      process.env.GRAPHYN_FAKE_SCENARIO = scenario;
+      const result = await runHarnessConsult({ toHarness, question: 'q', timeoutMs: 1_500 });
+      expect(result.ok, `${toHarness} ${scenario}`).toBe(false);
+      if (result.ok) throw new Error('expected failure');
+      expect(result.errorCode, `${toHarness} ${scenario}`).toBe(errorCode);
+    }
+  }, 20_000);
+
+  it('streams claude stream-json deltas and the model', async () => {
+    process.env.GRAPHYN_FAKE_RESPONSE = 'Streamed answer.';
+    const events: ConsultStreamEvent[] = [];
+    const result = await runHarnessConsult({ toHarness: 'claude', question: 'q', onStreamEvent: event => events.push(event) });
+
+    expect(result.ok && result.response).toBe('Streamed answer.');
+    expect(fixture.readRecords()[0].argv).toContain('stream-json');
+    expect(events.filter(event => event.type === 'delta').map(event => (event as { text: string }).text).join('')).toBe('Streamed answer.');
+    expect(events.some(event => event.type === 'model')).toBe(true);
+  });
+
+  it('completes the ACP handshake and refuses an ACP leaf that edits files', async () => {
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'What does the cache key cover?', tier: 'acp', timeoutMs: 5_000 });
+    if (!result.ok) throw new Error(`expected ok, got ${result.errorCode}: ${result.error}`);
+    expect(result.response).toBe('Fake gemini answer.');
+    expect(result.answeredByModel).toBe('fake-gemini');
+    const [record] = fixture.readRecords();
+    expect(record).toMatchObject({ harness: 'gemini', mode: 'acp', argv: ['--acp'] });
+    expect(record.prompt).toContain('What does the cache key cover?');
+
+    process.env.GRAPHYN_FAKE_SCENARIO = 'writes';
+    const unsafe = await runHarnessConsult({ toHarness: 'gemini', question: 'q', tier: 'acp', timeoutMs: 5_000 });
+    expect(unsafe.ok).toBe(false);
+    if (unsafe.ok) throw new Error('expected failure');
+    expect(unsafe.errorCode).toBe('HARNESS_UNSAFE_OUTPUT');
+  }, 20_000);
+
+  it('falls back from a harness that is not on PATH, on either tier', async () => {
+    // Only codex and claude are installed; gemini is a real ENOENT from spawn.
+    const partialBin = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-partial-bin-'));
+    for (const id of ['codex', 'claude']) fs.copyFileSync(path.join(fixture.binDir, id), path.join(partialBin, id));
+    const fullPath = process.env.PATH;
+    process.env.PATH = partialBin;
+    try {
+      for (const tier of ['acp', 'subprocess'] as const) {
+        const missing = await runHarnessConsult({ toHarness: 'gemini', question: 'q', tier, timeoutMs: 5_000 });
+        if (missing.ok) throw new Error('expected failure');
+        expect(missing.errorCode, tier).toBe('HARNESS_UNAVAILABLE');
+
+        const result = await runHarnessConsultWithFallback({ toHarness: 'gemini', question: 'q', tier, fallback: ['claude'], timeoutMs: 5_000 });
+        if (!result.ok) throw new Error(`${tier}: expected ok, got ${result.errorCode}: ${result.error}`);
+        expect(result.response).toBe('Fake claude answer.');
+        expect(result.attempts?.map(a => [a.toHarness, a.errorCode])).toEqual([['gemini', 'HARNESS_UNAVAILABLE'], ['claude', undefined]]);
+      }
+    } finally {
+      process.env.PATH = fullPath;
+    }
+  }, 20_000);
+
+  it('with verifyFs, fails any tier whose leaf silently changed the working tree', async () => {
+    const repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-verify-fs-')));
+    const git = (...args: string[]): string => execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@example.com', ...args], { cwd: repo, encoding: 'utf8' });
+    git('init', '-q');
+    // Drop git's sample hooks so the file count does not depend on the git version.
+    fs.rmSync(path.join(repo, '.git', 'hooks'), { recursive: true, force: true });
+    fs.mkdirSync(path.join(repo, '.git', 'hooks'));
+    fs.writeFileSync(path.join(repo, 'README.md'), 'hello\n');
+    fs.writeFileSync(path.join(repo, '.gitignore'), '*.log\n');
+    fs.writeFileSync(path.join(repo, 'debug.log'), 'ignored\n');
+    git('add', 'README.md', '.gitignore');
+    git('commit', '-q', '-m', 'init');
+    const previousCwd = process.cwd();
+    process.chdir(repo);
+    try {
+      // README.md, .gitignore, the ignored debug.log and .git/config.
+      const clean = await runHarnessConsult({ toHarness: 'codex', question: 'q', verifyFs: true });
+      if (!clean.ok) throw new Error(`expected ok, got ${clean.errorCode}: ${clean.error}`);
+      expect(clean.receipt.fsVerification).toEqual({ scope: 'git', fileCount: 4, changedPathHashes: [] });
+
+      const cases = [
+        { toHarness: 'codex', scenario: 'mutate=README.md', tier: 'subprocess', changed: 'README.md', gitStateChanged: true },
+        { toHarness: 'claude', scenario: 'mutate=notes.txt', tier: 'acp', changed: 'notes.txt', gitStateChanged: true },
+        { toHarness: 'codex', scenario: 'mutate=debug.log', tier: 'subprocess', changed: 'debug.log', gitStateChanged: false },
+        { toHarness: 'claude', scenario: 'mutate=.git/hooks/pre-commit', tier: 'acp', changed: '.git/hooks/pre-commit', gitStateChanged: false },
+      ] as const;
+      for (const { toHarness, scenario, tier, changed, gitStateChanged } of cases) {
+        git('reset', '-q', '--hard');
+        git('clean', '-qfd');
+        process.env.GRAPHYN_FAKE_SCENARIO = scenario;
+        const result = await runHarnessConsult({ toHarness, question: 'q', tier, verifyFs: true, timeoutMs: 5_000 });
+        expect(result.ok, `${toHarness} ${scenario}`).toBe(false);
+        if (result.ok) throw new Error('expected failure');
+        expect(result.errorCode).toBe('HARNESS_UNSAFE_OUTPUT');
+        expect(result.fsVerification).toEqual({
+          scope: 'git',
+          fileCount: 4,
+          changedPathHashes: [hmacArg(path.join(repo, changed))],
+          ...(gitStateChanged ? { gitStateChanged } : {}),
+        });
+        expect(listConsultReceipts().at(-1)!.fsVerification).toEqual(result.fsVerification);
+      }
+
+      // Outside a git work tree the whole directory is walked.
+      const plain = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-verify-fs-plain-')));
+      fs.writeFileSync(path.join(plain, 'a.txt'), 'a\n');
+      process.chdir(plain);
+      process.env.GRAPHYN_FAKE_SCENARIO = 'mutate=a.txt';
+      const walked = await runHarnessConsult({ toHarness: 'claude', question: 'q', verifyFs: true });
+      if (walked.ok) throw new Error('expected failure');
+      expect(walked.fsVerification).toEqual({ scope: 'tree', fileCount: 1, changedPathHashes: [hmacArg(path.join(plain, 'a.txt'))] });
+    } finally {
+      process.chdir(previousCwd);
+    }
+  }, 30_000);
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for ACP tool-call activity: `tool_call` / `tool_call_update`
+ * session updates land in the receipt's `toolActivity`, and write-capable
+ * kinds fail a read-only consult with HARNESS_UNSAFE_OUTPUT.
+ *
+ * child_process.spawn is mocked with a fake ACP agent that reports tool
+ * calls before answering.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { listConsultReceipts } from '../../../src/consult/receipt-log.js';
+import { hmacArg } from '../../../src/vfs/hash.js';
+import { acpChild, type FakeChild } from '../../fixtures/fake-child.js';
+
+/** A fake ACP agent that sends `updates` as session/update notifications, then answers. */
+function toolUsingAgent(updates: Array<Record<string, unknown>>): FakeChild {
+  return acpChild((req, send) => {
+    if (req.method === 'initialize') send({ id: req.id, result: { protocolVersion: 1 } });
+    if (req.method === 'session/new') send({ id: req.id, result: { sessionId: 'acp-tools' } });
+    if (req.method === 'session/prompt') {
+      for (const update of updates) send({ method: 'session/update', params: { sessionId: 'acp-tools', update } });
+      send({ method: 'session/update', params: { update: { sessionUpdate: 'agent_message_chunk', content: { text: 'answer' } } } });
+      send({ id: req.id, result: { stopReason: 'end_turn' } });
+    }
+  });
+}
+
+describe('ACP tool activity', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_CONSULT_TIER;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-acp-tools-'));
+  });
+
+  it('merges tool call updates into the receipt with hashed locations', async () => {
+    spawnMock.mockImplementation(() =>
+      toolUsingAgent([
+        { sessionUpdate: 'tool_call', toolCallId: 't1', title: 'Read auth.ts', kind: 'read', status: 'pending', locations: [{ path: '/w/src/auth.ts' }] },
+        { sessionUpdate: 'tool_call_update', toolCallId: 't1', status: 'completed', locations: [{ path: '/w/src/auth.ts', line: 12 }] },
+        { sessionUpdate: 'tool_call', toolCallId: 't2', title: 'Search "token"', kind: 'search', status: 'completed' },
+      ]),
+    );
+
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'review auth', tier: 'acp' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) throw new Error('expected ok');
+    expect(result.receipt.toolActivity).toEqual([
+      {
+        toolCallId: 't1',
+        kind: 'read',
+        title: 'Read auth.ts',
+        status: 'completed',
+        locations: [{ pathHash: hmacArg('/w/src/auth.ts') }, { pathHash: hmacArg('/w/src/auth.ts'), line: 12 }],
+      },
+      { toolCallId: 't2', kind: 'search', title: 'Search "token"', status: 'completed', locations: [] },
+    ]);
+    const [record] = listConsultReceipts();
+    expect(JSON.stringify(record.toolActivity)).not.toContain('/w/src/auth.ts');
+    expect(record.toolActivity?.[0].locationHashes).toHaveLength(2);
+  });
+
+  it('fails a read-only consult when the leaf runs a write-capable tool', async () => {
+    spawnMock.mockImplementation(() =>
+      toolUsingAgent([
+        { sessionUpdate: 'tool_call', toolCallId: 'w1', title: 'Edit auth.ts', kind: 'edit', status: 'pending', locations: [{ path: '/w/src/auth.ts' }] },
+        { sessionUpdate: 'tool_call_update', toolCallId: 'w1', status: 'failed' },
+      ]),
+    );
+
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'review auth', tier: 'acp' });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('HARNESS_UNSAFE_OUTPUT');
+    expect(result.error).toContain('edit');
+  });
+});
@@ -13,8 +13,6 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { EventEmitter } from 'node:events';
-import { PassThrough } from 'node:stream';
 
 // We mock child_process before importing the module under test.
 vi.mock('node:child_process', () => {
@@ -23,24 +21,13 @@ vi.mock('node:child_process', () => {
 
 import { spawn } from 'node:child_process';
 import { runAcpTransport } from '../../../src/consult/acp-transport.js';
+import { fakeChild, missingChild, type FakeChild } from '../../fixtures/fake-child.js';
 
 // ─── Fake child-process factory ───────────────────────────────────────────────
 
-interface FakeChild extends EventEmitter {
-  stdin: PassThrough;
-  stdout: PassThrough;
-  stderr: PassThrough;
-  kill: ReturnType<typeof vi.fn>;
-}
-
 /** Create a fake child that captures what the SUT writes to stdin. */
 function makeFakeChild(): { child: FakeChild; capturedRequests: () => string[] } {
-  const child = new EventEmitter() as FakeChild;
-  child.stdin = new PassThrough();
-  child.stdout = new PassThrough();
-  child.stderr = new PassThrough();
-  child.kill = vi.fn();
-
+  const child = fakeChild();
   const captured: string[] = [];
   child.stdin.on('data', (chunk: Buffer) => {
     for (const line of chunk.toString().split('\n')) {
@@ -257,6 +244,17 @@ describe('runAcpTransport', () => {
     expect(result.errorCode).toBe('ACP_SPAWN_ERROR');
   });
 
+  it('returns ACP_SPAWN_ERROR when the binary is missing from PATH', async () => {
+    // The real failure mode: no throw, an asynchronous 'error' event, then 'close'.
+    spawnMock.mockReturnValue(missingChild('gemini'));
+
+    const result = await runAcpTransport({ harnessBin: 'gemini', prompt: 'x', timeoutMs: 1000 });
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('ACP_SPAWN_ERROR');
+    expect(result.error).toContain('ENOENT');
+  });
+
   // ── Empty answer ───────────────────────────────────────────────────────────
 
   it('returns ACP_EMPTY_ANSWER when harness streams no text', async () => {
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for per-trace junction budgets.
+ *
+ * child_process.spawn is mocked with leaves that report token usage;
+ * GRAPHYN_HOME points at a fresh temp dir so each test starts with an empty ledger.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { priceLeafUsage, resolveBudgetUsd, traceSpendUsd } from '../../../src/consult/budget.js';
+import { answeringChild } from '../../fixtures/fake-child.js';
+
+const CLAUDE_ANSWER = JSON.stringify({
+  result: 'fine',
+  total_cost_usd: 0.6,
+  modelUsage: { 'claude-opus-4': { inputTokens: 1000, outputTokens: 200 } },
+});
+
+describe('junction budget', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    delete process.env.GRAPHYN_JUNCTION_BUDGET_USD;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-budget-'));
+  });
+
+  it('prices gemini and codex usage from the cost map', () => {
+    const gemini = priceLeafUsage('gemini', {
+      models: [{ model: 'gemini-2.5-pro-preview', inputTokens: 1_000_000, outputTokens: 100_000 }],
+    });
+    expect(gemini).toEqual({ inputTokens: 1_000_000, outputTokens: 100_000, costUsd: 2.25, costSource: 'estimated' });
+
+    // codex --json names no model: priced at the harness default.
+    const codex = priceLeafUsage('codex', { models: [{ inputTokens: 2_000_000, outputTokens: 0 }] });
+    expect(codex.costUsd).toBeCloseTo(2.5);
+  });
+
+  it('records spend per trace and refuses once the budget is reached', async () => {
+    spawnMock.mockImplementation(() => answeringChild(CLAUDE_ANSWER));
+
+    const first = await runHarnessConsult({ toHarness: 'claude', question: 'one', traceId: 'trace-b', budgetUsd: 1 });
+    expect(first.ok).toBe(true);
+    if (!first.ok) throw new Error('expected ok');
+    expect(first.usage).toMatchObject({ costUsd: 0.6, costSource: 'reported' });
+    expect(first.receipt.junctionSpendUsd).toBeCloseTo(0.6);
+
+    // The budget travels to the leaf so nested consults enforce it too.
+    const env = spawnMock.mock.calls[0][2].env as NodeJS.ProcessEnv;
+    expect(env.GRAPHYN_JUNCTION_BUDGET_USD).toBe('1');
+
+    const second = await runHarnessConsult({ toHarness: 'claude', question: 'two', traceId: 'trace-b', budgetUsd: 1 });
+    expect(second.ok).toBe(true);
+    expect(traceSpendUsd('trace-b')).toBeCloseTo(1.2);
+
+    const third = await runHarnessConsult({ toHarness: 'claude', question: 'three', traceId: 'trace-b', budgetUsd: 1 });
+    expect(third.ok).toBe(false);
+    if (third.ok) throw new Error('expected refusal');
+    expect(third.errorCode).toBe('JUNCTION_BUDGET_EXCEEDED');
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+
+    // Another trace has its own ledger.
+    const other = await runHarnessConsult({ toHarness: 'claude', question: 'four', traceId: 'trace-c', budgetUsd: 1 });
+    expect(other.ok).toBe(true);
+  });
+
+  it('inherits the budget from the parent junction env', async () => {
+    process.env.GRAPHYN_JUNCTION_BUDGET_USD = '0.5';
+    spawnMock.mockImplementation(() => answeringChild(CLAUDE_ANSWER));
+
+    await runHarnessConsult({ toHarness: 'claude', question: 'one', traceId: 'trace-d' });
+    const refused = await runHarnessConsult({ toHarness: 'claude', question: 'two', traceId: 'trace-d' });
+
+    expect(refused.ok).toBe(false);
+    if (refused.ok) throw new Error('expected refusal');
+    expect(refused.errorCode).toBe('JUNCTION_BUDGET_EXCEEDED');
+  });
+
+  it('never lets a nested consult raise the budget it inherited', async () => {
+    process.env.GRAPHYN_JUNCTION_BUDGET_USD = '0.5';
+    expect(resolveBudgetUsd(10)).toBe(0.5);
+    expect(resolveBudgetUsd(0.2)).toBe(0.2);
+    spawnMock.mockImplementation(() => answeringChild(CLAUDE_ANSWER));
+
+    await runHarnessConsult({ toHarness: 'claude', question: 'one', traceId: 'trace-e', budgetUsd: 10 });
+    const refused = await runHarnessConsult({ toHarness: 'claude', question: 'two', traceId: 'trace-e', budgetUsd: 10 });
+
+    expect(refused.ok).toBe(false);
+    if (refused.ok) throw new Error('expected refusal');
+    expect(refused.errorCode).toBe('JUNCTION_BUDGET_EXCEEDED');
+  });
+});
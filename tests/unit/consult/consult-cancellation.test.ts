@@ -0,0 +1,120 @@
+/**
+ * Unit tests for consult cancellation (Ctrl-C / `signal`) and graceful stops.
+ *
+ * child_process.spawn is mocked: the ACP leaf is a fake agent that streams a
+ * chunk and then waits; the subprocess leaf streams codex JSONL and waits.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { runAcpTransport } from '../../../src/consult/acp-transport.js';
+import { acpChild, fakeChild, type FakeChild } from '../../fixtures/fake-child.js';
+
+/**
+ * A fake ACP agent that streams one line on session/prompt and then waits.
+ * When `honoursCancel`, session/cancel ends the turn with stopReason "cancelled".
+ */
+function slowAgent(honoursCancel: boolean, seen: string[]): FakeChild {
+  let promptId: number | string | undefined;
+  return acpChild((msg, send) => {
+    if (msg.method) seen.push(msg.method);
+    if (msg.method === 'initialize') send({ id: msg.id, result: { protocolVersion: 1 } });
+    if (msg.method === 'session/new') send({ id: msg.id, result: { sessionId: 'slow-1' } });
+    if (msg.method === 'session/prompt') {
+      promptId = msg.id;
+      send({ method: 'session/update', params: { update: { sessionUpdate: 'agent_message_chunk', content: { text: 'partial line\n' } } } });
+    }
+    if (msg.method === 'session/cancel' && honoursCancel) send({ id: promptId, result: { stopReason: 'cancelled' } });
+  });
+}
+
+/** A subprocess leaf that streams one codex message and then hangs until killed. */
+function hangingCodex(): FakeChild {
+  const child = fakeChild();
+  setImmediate(() => {
+    child.stdout.emit('data', Buffer.from(`${JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: 'half an answer' } })}\n`));
+  });
+  return child;
+}
+
+describe('consult cancellation', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_CONSULT_TIER;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-cancel-'));
+  });
+
+  it('sends session/cancel and returns HARNESS_CANCELLED with the partial answer', async () => {
+    const seen: string[] = [];
+    const child = slowAgent(true, seen);
+    spawnMock.mockReturnValue(child);
+    const controller = new AbortController();
+
+    const pending = runHarnessConsult({
+      toHarness: 'gemini',
+      question: 'long question',
+      tier: 'acp',
+      signal: controller.signal,
+      onStreamEvent: event => {
+        if (event.type === 'delta') controller.abort();
+      },
+    });
+    const result = await pending;
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('HARNESS_CANCELLED');
+    expect(result.partialResponse).toBe('partial line\n');
+    expect(seen).toContain('session/cancel');
+    // The agent stopped on its own; the one-shot child is then shut down.
+    expect(child.kill).toHaveBeenCalledWith('SIGKILL');
+  });
+
+  it('hard-kills an agent that ignores session/cancel after the grace period', async () => {
+    const seen: string[] = [];
+    const child = slowAgent(false, seen);
+    spawnMock.mockReturnValue(child);
+
+    const result = await runAcpTransport({ harnessBin: 'gemini', prompt: 'q', timeoutMs: 100, cancelGraceMs: 20 });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('ACP_TIMEOUT');
+    expect(seen).toContain('session/cancel');
+    expect(child.kill).toHaveBeenCalledWith('SIGKILL');
+  });
+
+  it('SIGTERMs a subprocess leaf and keeps the streamed partial answer', async () => {
+    const child = hangingCodex();
+    spawnMock.mockReturnValue(child);
+    const controller = new AbortController();
+
+    const result = await runHarnessConsult({
+      toHarness: 'codex',
+      question: 'long question',
+      signal: controller.signal,
+      onStreamEvent: event => {
+        if (event.type === 'delta') controller.abort();
+      },
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('HARNESS_CANCELLED');
+    expect(result.partialResponse).toBe('half an answer');
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    expect(spawnMock.mock.calls[0][2]).toMatchObject({ detached: true });
+  });
+});
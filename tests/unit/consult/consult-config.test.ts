@@ -0,0 +1,102 @@
+/**
+ * Unit tests for consult.json loading: user and project files, and the
+ * settings a project file may only tighten.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { loadConsultConfig, type ConsultConfig } from '../../../src/consult/consult-config.js';
+
+describe('consult config', () => {
+  let projectDir: string;
+
+  const write = (user: ConsultConfig, project: ConsultConfig): void => {
+    fs.writeFileSync(path.join(process.env.GRAPHYN_HOME!, 'consult.json'), JSON.stringify(user));
+    fs.mkdirSync(path.join(projectDir, '.graphyn'), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, '.graphyn', 'consult.json'), JSON.stringify(project));
+  };
+
+  beforeEach(() => {
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-config-'));
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-config-project-'));
+  });
+
+  it('lets the project file win for ordinary settings', () => {
+    write({ sessions: { idleMinutes: 30 }, cache: { enabled: true, ttlMinutes: 60 } }, { cache: { ttlMinutes: 5 } });
+
+    expect(loadConsultConfig({ projectDir })).toMatchObject({ sessions: { idleMinutes: 30 }, cache: { enabled: true, ttlMinutes: 5 } });
+  });
+
+  it('ignores a project file that loosens guarded settings', () => {
+    write(
+      {
+        budget: { maxUsdPerTrace: 1 },
+        pricing: { 'gpt-5': { inputPerMTok: 2, outputPerMTok: 8 } },
+        redaction: { packs: ['core'] },
+        junction: { maxDepth: 2 },
+        outbound: { policy: 'block' },
+        readOnly: { verifyFs: true },
+        concurrency: { default: 1 },
+        fallback: { byHarness: { gemini: ['claude'] } },
+        cache: { ttlMinutes: 10 },
+      },
+      {
+        budget: { maxUsdPerTrace: 100 },
+        pricing: { 'gpt-5': { inputPerMTok: 0, outputPerMTok: 0 } },
+        redaction: { disabledRules: ['core.github-token'] },
+        junction: { maxDepth: 10 },
+        outbound: { policy: 'annotate', injectionCheck: false },
+        readOnly: { verifyFs: false },
+        concurrency: { default: 0, byHarness: { gemini: 8 } },
+        fallback: { default: ['codex'], byHarness: { gemini: ['other-vendor'] } },
+        cache: { enabled: true, ttlMinutes: 10_000 },
+      },
+    );
+
+    const config = loadConsultConfig({ projectDir });
+    expect(config.budget?.maxUsdPerTrace).toBe(1);
+    expect(config.pricing).toEqual({ 'gpt-5': { inputPerMTok: 2, outputPerMTok: 8 } });
+    expect(config.redaction?.packs).toEqual(['core']);
+    expect(config.redaction?.disabledRules).toBeUndefined();
+    expect(config.junction?.maxDepth).toBe(2);
+    expect(config.outbound).toEqual({ policy: 'block', injectionCheck: undefined });
+    expect(config.readOnly?.verifyFs).toBe(true);
+    expect(config.concurrency).toEqual({ default: 1 });
+    expect(config.fallback).toEqual({ byHarness: { gemini: ['claude'] } });
+    expect(config.cache).toEqual({ enabled: undefined, ttlMinutes: 10 });
+  });
+
+  it('takes a project value that tightens guarded settings', () => {
+    write(
+      {
+        junction: { maxDepth: 5 },
+        redaction: { packs: ['core'], disabledRules: ['core.keyword-assignment'] },
+        outbound: { injectionCheck: false },
+        cache: { enabled: true },
+      },
+      {
+        budget: { maxUsdPerTrace: 0.5 },
+        junction: { maxDepth: 1 },
+        redaction: { packs: ['pem'], customRules: [{ id: 'acme', pattern: 'acme_[a-z0-9]{12}' }] },
+        outbound: { policy: 'block', injectionCheck: true },
+        readOnly: { verifyFs: true },
+        cache: { enabled: false },
+      },
+    );
+
+    const config = loadConsultConfig({ projectDir });
+    expect(config.budget?.maxUsdPerTrace).toBe(0.5);
+    expect(config.junction?.maxDepth).toBe(1);
+    expect(config.redaction).toEqual({
+      packs: ['core', 'pem'],
+      disabledRules: ['core.keyword-assignment'],
+      customRules: [{ id: 'acme', pattern: 'acme_[a-z0-9]{12}' }],
+    });
+    expect(config.outbound).toEqual({ policy: 'block', injectionCheck: true });
+    expect(config.readOnly?.verifyFs).toBe(true);
+    expect(config.cache?.enabled).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for named multi-turn consults (`consult --session`).
+ *
+ * child_process.spawn is mocked: subprocess leaves answer with canned JSON,
+ * ACP leaves with a fake agent that answers JSON-RPC requests on stdin.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import {
+  closeAllPooledSessions,
+  closeConsultSession,
+  consultSessionsDir,
+  listConsultSessions,
+  loadConsultSession,
+} from '../../../src/consult/consult-sessions.js';
+import { acpChild, answeringChild, type FakeChild } from '../../fixtures/fake-child.js';
+
+/** A fake ACP agent that supports session/load and answers every prompt. */
+function acpAgent(requests: Array<{ method: string; params: Record<string, unknown> }>): FakeChild {
+  return acpChild((req, reply) => {
+    if (!req.method) return;
+    requests.push({ method: req.method, params: req.params ?? {} });
+    if (req.method === 'initialize') reply({ id: req.id, result: { protocolVersion: 1, agentCapabilities: { loadSession: true } } });
+    if (req.method === 'session/new') reply({ id: req.id, result: { sessionId: 'acp-sess-1' } });
+    if (req.method === 'session/load') {
+      // History replay must not leak into the next answer.
+      reply({ method: 'session/update', params: { update: { sessionUpdate: 'agent_message_chunk', content: { text: 'old answer' } } } });
+      reply({ id: req.id, result: {} });
+    }
+    if (req.method === 'session/prompt') {
+      const turn = requests.filter(entry => entry.method === 'session/prompt').length;
+      reply({ method: 'session/update', params: { update: { sessionUpdate: 'agent_message_chunk', content: { text: `answer ${turn}` } } } });
+      reply({ id: req.id, result: { stopReason: 'end_turn' } });
+    }
+  });
+}
+
+describe('consult sessions', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    await closeAllPooledSessions();
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_CONSULT_TIER;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-sessions-'));
+  });
+
+  it('resumes a subprocess leaf with the session id it reported', async () => {
+    spawnMock.mockImplementation(() =>
+      answeringChild(JSON.stringify({ result: 'first', session_id: 'claude-sess-9', modelUsage: {} })),
+    );
+
+    const first = await runHarnessConsult({ toHarness: 'claude', question: 'review auth', session: 'auth' });
+    const second = await runHarnessConsult({ toHarness: 'claude', question: 'now the edge case', session: 'auth' });
+
+    expect(spawnMock.mock.calls[0][1]).not.toContain('--resume');
+    const resumedArgv = spawnMock.mock.calls[1][1] as string[];
+    expect(resumedArgv.slice(resumedArgv.indexOf('--resume'), resumedArgv.indexOf('--resume') + 2)).toEqual(['--resume', 'claude-sess-9']);
+    if (!first.ok || !second.ok) throw new Error('expected ok');
+    expect(first.receipt.session).toEqual({ name: 'auth', harnessSessionId: 'claude-sess-9', turn: 1, resumed: false });
+    expect(second.receipt.session).toEqual({ name: 'auth', harnessSessionId: 'claude-sess-9', turn: 2, resumed: true });
+  });
+
+  it('keeps one ACP child per session and reattaches with session/load after release', async () => {
+    const requests: Array<{ method: string; params: Record<string, unknown> }> = [];
+    spawnMock.mockImplementation(() => acpAgent(requests));
+
+    const first = await runHarnessConsult({ toHarness: 'gemini', question: 'q1', tier: 'acp', session: 'review' });
+    const second = await runHarnessConsult({ toHarness: 'gemini', question: 'q2', tier: 'acp', session: 'review' });
+    expect(spawnMock).toHaveBeenCalledTimes(1);
+    if (!first.ok || !second.ok) throw new Error('expected ok');
+    expect(second.response).toBe('answer 2');
+    expect(second.receipt.session).toMatchObject({ harnessSessionId: 'acp-sess-1', turn: 2, resumed: true });
+
+    // A new CLI process: the pool is empty, the record is on disk.
+    await closeAllPooledSessions();
+    const third = await runHarnessConsult({ toHarness: 'gemini', question: 'q3', tier: 'acp', session: 'review' });
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+    if (!third.ok) throw new Error('expected ok');
+    expect(third.response).toBe('answer 3');
+    expect(requests.find(entry => entry.method === 'session/load')?.params.sessionId).toBe('acp-sess-1');
+    expect(third.receipt.session).toMatchObject({ turn: 3, resumed: true });
+    await closeAllPooledSessions();
+  });
+
+  it('runs concurrent turns on one ACP session one after the other', async () => {
+    const requests: Array<{ method: string; params: Record<string, unknown> }> = [];
+    let answering = false;
+    spawnMock.mockImplementation(() => acpChild((req, reply) => {
+      if (!req.method) return;
+      requests.push({ method: req.method, params: req.params ?? {} });
+      if (req.method === 'initialize') reply({ id: req.id, result: { protocolVersion: 1 } });
+      if (req.method === 'session/new') reply({ id: req.id, result: { sessionId: 'acp-sess-1' } });
+      if (req.method === 'session/prompt') {
+        if (answering) return reply({ id: req.id, error: { code: -32000, message: 'prompt already in flight' } });
+        answering = true;
+        const turn = requests.filter(entry => entry.method === 'session/prompt').length;
+        setTimeout(() => {
+          answering = false;
+          reply({ method: 'session/update', params: { update: { sessionUpdate: 'agent_message_chunk', content: { text: `answer ${turn}` } } } });
+          reply({ id: req.id, result: { stopReason: 'end_turn' } });
+        }, 20);
+      }
+    }));
+
+    const [first, second] = await Promise.all([
+      runHarnessConsult({ toHarness: 'gemini', question: 'q1', tier: 'acp', session: 'pair' }),
+      runHarnessConsult({ toHarness: 'gemini', question: 'q2', tier: 'acp', session: 'pair' }),
+    ]);
+
+    if (!first.ok || !second.ok) throw new Error('expected both turns to answer');
+    expect([first.response, second.response]).toEqual(['answer 1', 'answer 2']);
+    expect(spawnMock).toHaveBeenCalledTimes(1);
+    expect(listConsultSessions()).toMatchObject([{ name: 'pair', turns: 2, live: true }]);
+    await closeAllPooledSessions();
+  });
+
+  it('expires idle sessions and lists them as expired', async () => {
+    spawnMock.mockImplementation(() => answeringChild(JSON.stringify({ result: 'ok', session_id: 'old' })));
+    await runHarnessConsult({ toHarness: 'claude', question: 'q', session: 'stale' });
+
+    const recordPath = path.join(consultSessionsDir(), 'stale', 'claude.json');
+    const record = JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+    fs.writeFileSync(recordPath, JSON.stringify({ ...record, lastUsedAt: new Date(Date.now() - 31 * 60_000).toISOString() }));
+
+    expect(listConsultSessions()).toMatchObject([{ name: 'stale', toHarness: 'claude', expired: true }]);
+    expect(loadConsultSession('stale', 'claude')).toBeUndefined();
+    expect(fs.existsSync(recordPath)).toBe(false);
+  });
+
+  it('refuses to close a session name or harness that leaves the sessions directory', async () => {
+    const userConfig = path.join(process.env.GRAPHYN_HOME!, 'consult.json');
+    fs.mkdirSync(consultSessionsDir(), { recursive: true });
+    fs.writeFileSync(userConfig, '{}');
+
+    await expect(closeConsultSession('../..')).rejects.toThrow('Invalid session name');
+    await expect(closeConsultSession('review', '../../../consult')).rejects.toThrow('Invalid harness id');
+    expect(fs.existsSync(userConfig)).toBe(true);
+  });
+});
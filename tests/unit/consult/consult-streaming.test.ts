@@ -0,0 +1,94 @@
+/**
+ * Unit tests for streaming consults (`graphyn consult --stream`).
+ *
+ * child_process.spawn is mocked; each fake leaf writes its native output in
+ * several chunks so the NDJSON event sequence can be asserted.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult, type ConsultStreamEvent } from '../../../src/consult/harness-adapter.js';
+import { chunkedChild } from '../../fixtures/fake-child.js';
+
+describe('runHarnessConsult streaming', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    // Keep the consult audit log out of the real ~/.graphyn.
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-consult-'));
+  });
+
+  it('streams codex JSONL agent messages as deltas before the final envelope', async () => {
+    const lines = [
+      JSON.stringify({ type: 'thread.started', thread_id: 't-1' }),
+      JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: 'first thought' } }),
+      JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: 'final answer' } }),
+    ];
+    const full = lines.join('\n') + '\n';
+    spawnMock.mockReturnValue(chunkedChild([full.slice(0, 40), full.slice(40)]));
+
+    const events: ConsultStreamEvent[] = [];
+    const result = await runHarnessConsult({
+      toHarness: 'codex',
+      question: 'what changed?',
+      onStreamEvent: event => events.push(event),
+    });
+
+    expect(result.ok).toBe(true);
+    expect(events.map(event => event.type)).toEqual(['start', 'delta', 'delta', 'final']);
+    const deltas = events.filter(event => event.type === 'delta').map(event => (event as { text: string }).text);
+    expect(deltas).toEqual(['first thought', 'final answer']);
+    const final = events.at(-1) as Extract<ConsultStreamEvent, { type: 'final' }>;
+    expect(final.result).toBe(result);
+  });
+
+  it('switches claude to stream-json and reports the model from the init event', async () => {
+    const lines = [
+      JSON.stringify({ type: 'system', subtype: 'init', model: 'claude-sonnet-4' }),
+      JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: 'Looks fine.' }] } }),
+      JSON.stringify({ type: 'result', result: 'Looks fine.', modelUsage: { 'claude-sonnet-4': { inputTokens: 12 } } }),
+    ];
+    spawnMock.mockReturnValue(chunkedChild(lines.map(line => line + '\n')));
+
+    const events: ConsultStreamEvent[] = [];
+    const result = await runHarnessConsult({
+      toHarness: 'claude',
+      question: 'review',
+      onStreamEvent: event => events.push(event),
+    });
+
+    const argv = spawnMock.mock.calls[0][1] as string[];
+    expect(argv).toContain('stream-json');
+    expect(argv).toContain('--verbose');
+    expect(argv.join(' ')).toContain('--allowedTools Read,Glob,Grep');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) throw new Error('expected ok');
+    expect(result.response).toBe('Looks fine.');
+    expect(events.map(event => event.type)).toEqual(['start', 'model', 'delta', 'final']);
+  });
+
+  it('emits the buffered gemini answer as a single delta', async () => {
+    const payload = JSON.stringify({ response: 'all good', stats: { models: { 'gemini-2.5-pro': {} } } });
+    spawnMock.mockReturnValue(chunkedChild([payload]));
+
+    const events: ConsultStreamEvent[] = [];
+    await runHarnessConsult({
+      toHarness: 'gemini',
+      question: 'status?',
+      onStreamEvent: event => events.push(event),
+    });
+
+    expect(events.map(event => event.type)).toEqual(['start', 'model', 'delta', 'final']);
+  });
+});
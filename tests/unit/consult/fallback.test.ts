@@ -0,0 +1,102 @@
+/**
+ * Unit tests for harness fallback chains (`--fallback`, consult.json `fallback`).
+ *
+ * child_process.spawn is mocked per binary: gemini is missing from PATH,
+ * codex prints garbage, claude answers.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsultWithFallback } from '../../../src/consult/fallback.js';
+import { listConsultReceipts } from '../../../src/consult/receipt-log.js';
+import type { ConsultStreamEvent } from '../../../src/consult/harness-adapter.js';
+import { answeringChild, missingChild } from '../../fixtures/fake-child.js';
+
+const CLAUDE_ANSWER = JSON.stringify({ type: 'result', result: 'claude answered', modelUsage: { 'claude-sonnet-4': {} } });
+
+describe('runHarnessConsultWithFallback', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    process.env.GRAPHYN_JUNCTION_DEPTH = '1';
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-fallback-'));
+    spawnMock.mockImplementation((command: string) => {
+      if (command === 'gemini') return missingChild(command);
+      if (command === 'codex') return answeringChild('not json at all');
+      return answeringChild(CLAUDE_ANSWER);
+    });
+  });
+
+  it('walks the chain on the same trace and depth and lists every attempt', async () => {
+    const events: ConsultStreamEvent[] = [];
+    const result = await runHarnessConsultWithFallback({
+      toHarness: 'gemini',
+      question: 'review this',
+      model: 'gemini-2.5-pro',
+      fallback: ['codex', 'claude'],
+      onStreamEvent: event => events.push(event),
+    });
+
+    if (!result.ok) throw new Error(`expected ok, got ${result.errorCode}`);
+    expect(result.toHarness).toBe('claude');
+    expect(result.response).toBe('claude answered');
+    expect(result.attempts?.map(a => [a.toHarness, a.ok, a.errorCode])).toEqual([
+      ['gemini', false, 'HARNESS_UNAVAILABLE'],
+      ['codex', false, 'HARNESS_UNPARSEABLE'],
+      ['claude', true, undefined],
+    ]);
+    expect(result.attempts?.every(a => a.durationMs >= 0 && a.receiptId)).toBe(true);
+
+    const receipts = listConsultReceipts();
+    expect(receipts.map(r => r.toHarness)).toEqual(['gemini', 'codex', 'claude']);
+    expect(new Set(receipts.map(r => r.junctionTraceId)).size).toBe(1);
+    expect(receipts.every(r => r.junctionDepth === 1)).toBe(true);
+
+    // --model belongs to the primary harness only.
+    expect(spawnMock.mock.calls[0][1]).toContain('gemini-2.5-pro');
+    expect(spawnMock.mock.calls[2][1]).not.toContain('gemini-2.5-pro');
+
+    const types = events.map(event => event.type);
+    expect(types.filter(type => type === 'final')).toEqual(['final']);
+    expect(types[types.length - 1]).toBe('final');
+    expect(events.filter(event => event.type === 'fallback')).toEqual([
+      { type: 'fallback', fromHarness: 'gemini', toHarness: 'codex', errorCode: 'HARNESS_UNAVAILABLE' },
+      { type: 'fallback', fromHarness: 'codex', toHarness: 'claude', errorCode: 'HARNESS_UNPARSEABLE' },
+    ]);
+  });
+
+  it('uses the consult.json chain and stops on errors that are not about availability', async () => {
+    fs.writeFileSync(
+      path.join(process.env.GRAPHYN_HOME!, 'consult.json'),
+      JSON.stringify({ fallback: { default: ['claude'], byHarness: { gemini: ['codex', 'claude'] } } }),
+    );
+    spawnMock.mockImplementation((command: string) =>
+      command === 'gemini' ? answeringChild('', 2) : answeringChild(CLAUDE_ANSWER),
+    );
+
+    const failed = await runHarnessConsultWithFallback({ toHarness: 'gemini', question: 'q' });
+    expect(failed.ok).toBe(false);
+    if (failed.ok) throw new Error('expected failure');
+    expect(failed.errorCode).toBe('HARNESS_FAILED');
+    expect(failed.attempts).toHaveLength(1);
+
+    // codex has no chain of its own, so `default` applies (codex cannot parse claude's JSON).
+    const viaDefault = await runHarnessConsultWithFallback({ toHarness: 'codex', question: 'q' });
+    expect(viaDefault.ok).toBe(true);
+    expect(viaDefault.attempts?.map(a => a.toHarness)).toEqual(['codex', 'claude']);
+
+    // --no-fallback: a plain consult with no attempts list.
+    const plain = await runHarnessConsultWithFallback({ toHarness: 'gemini', question: 'q', fallback: [] });
+    expect(plain.attempts).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the multi-harness fan-out consult.
+ *
+ * child_process.spawn is mocked: each harness binary gets a scripted fake
+ * child so one leaf can answer while another is missing from PATH.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessFanOut } from '../../../src/consult/fan-out.js';
+import { answeringChild, missingChild } from '../../fixtures/fake-child.js';
+
+describe('runHarnessFanOut', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    // Keep the consult audit log out of the real ~/.graphyn.
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-consult-'));
+  });
+
+  it('reports every leaf under one shared trace id, tolerating partial failure', async () => {
+    spawnMock.mockImplementation((command: string) => {
+      if (command === 'gemini') {
+        return answeringChild(JSON.stringify({ response: 'gemini says hi', stats: { models: { 'gemini-2.5-pro': {} } } }));
+      }
+      if (command === 'claude') {
+        return answeringChild(JSON.stringify({ result: 'claude says hi', modelUsage: { 'claude-opus': { inputTokens: 10 } } }));
+      }
+      return missingChild();
+    });
+
+    const result = await runHarnessFanOut({
+      toHarnesses: ['gemini', 'codex', 'claude'],
+      question: 'review this design',
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.succeeded).toBe(2);
+    expect(result.failed).toBe(1);
+    expect(result.results.map(entry => entry.toHarness)).toEqual(['gemini', 'codex', 'claude']);
+
+    const [gemini, codex, claude] = result.results;
+    expect(gemini.result.ok && gemini.result.response).toBe('gemini says hi');
+    expect(claude.result.ok && claude.result.response).toBe('claude says hi');
+    expect(codex.result.ok).toBe(false);
+    if (codex.result.ok) throw new Error('expected codex failure');
+    expect(codex.result.errorCode).toBe('HARNESS_UNAVAILABLE');
+
+    for (const entry of [gemini, claude]) {
+      if (!entry.result.ok) throw new Error('expected success');
+      expect(entry.result.receipt.junctionTraceId).toBe(result.junctionTraceId);
+    }
+    for (const entry of result.results) {
+      expect(typeof entry.durationMs).toBe('number');
+    }
+  });
+
+  it('collapses duplicate targets and is not ok when every leaf fails', async () => {
+    spawnMock.mockImplementation(() => missingChild());
+
+    const result = await runHarnessFanOut({
+      toHarnesses: ['codex', 'codex', 'gemini'],
+      question: 'anyone there?',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.results).toHaveLength(2);
+    expect(result.failed).toBe(2);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the harness doctor (`graphyn consult doctor`).
+ *
+ * PATH and HOME are temp dirs with fake executables and credential files;
+ * child_process.spawn is mocked to answer `--version` and the canary consult.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessDoctor } from '../../../src/consult/harness-doctor.js';
+import { answeringChild } from '../../fixtures/fake-child.js';
+
+const VERSIONS: Record<string, string> = { gemini: '0.41.2\n', codex: 'codex-cli 0.50.1\n' };
+
+describe('harness doctor', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+  let binDir: string;
+  let homeDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.CODEX_HOME;
+    delete process.env.CLAUDE_CONFIG_DIR;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-doctor-'));
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-doctor-bin-'));
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-doctor-home-'));
+    for (const binary of ['gemini', 'codex']) {
+      fs.writeFileSync(path.join(binDir, binary), '#!/bin/sh\n', { mode: 0o755 });
+    }
+    fs.mkdirSync(path.join(homeDir, '.codex'));
+    fs.writeFileSync(path.join(homeDir, '.codex', 'auth.json'), '{"secret":"never read"}', { mode: 0o600 });
+
+    spawnMock.mockImplementation((command: string, argv: string[]) => {
+      if (argv[0] === '--version') return answeringChild(VERSIONS[path.basename(command)] ?? '');
+      return answeringChild(JSON.stringify({ response: 'OK', stats: { models: { 'gemini-2.5-flash': {} } } }));
+    });
+  });
+
+  it('reports PATH, version rules and login files per harness without reading credentials', async () => {
+    const readSpy = vi.spyOn(fs, 'readFileSync');
+    const reports = await runHarnessDoctor({ homeDir, pathEnv: binDir });
+    const credentialReads = readSpy.mock.calls.filter(([file]) => String(file).startsWith(homeDir));
+    readSpy.mockRestore();
+
+    expect(reports.map(report => [report.harness, report.readiness])).toEqual([
+      ['gemini', 'degraded'],
+      ['codex', 'ready'],
+      ['claude', 'unavailable'],
+    ]);
+
+    const [gemini, codex, claude] = reports;
+    expect(gemini.version).toBe('0.41.2');
+    expect(gemini.issues.map(issue => issue.message).join('\n')).toMatch(/0\.41\.2 < 0\.42\.0/);
+    expect(gemini.auth.status).toBe('missing');
+
+    expect(codex).toMatchObject({ version: '0.50.1', resolvedPath: path.join(binDir, 'codex'), issues: [] });
+    expect(codex.auth).toMatchObject({ status: 'files', found: [path.join(homeDir, '.codex', 'auth.json')] });
+    expect(credentialReads).toEqual([]);
+
+    expect(claude.resolvedPath).toBeUndefined();
+    expect(claude.issues[0].message).toMatch(/HARNESS_UNAVAILABLE/);
+    // Missing binaries are never spawned.
+    expect(spawnMock.mock.calls.map(call => path.basename(call[0]))).toEqual(['gemini', 'codex']);
+  });
+
+  it('runs the canary through the junction when asked', async () => {
+    const [gemini] = await runHarnessDoctor({ homeDir, pathEnv: binDir, harnesses: ['gemini'], canary: true });
+
+    expect(gemini.canary).toMatchObject({ ok: true });
+    expect(gemini.canary?.receiptId).toBeTruthy();
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+    expect(spawnMock.mock.calls[1][0]).toBe('gemini');
+    expect(spawnMock.mock.calls[1][1]).toEqual(expect.arrayContaining(['--approval-mode', 'plan']));
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for declarative harness definitions (harnesses.json).
+ *
+ * child_process.spawn is mocked; definitions are written to a temp
+ * GRAPHYN_HOME and a temp project directory.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { loadHarnessRegistry, validateHarnessDefinition } from '../../../src/consult/harness-registry.js';
+import { answeringChild } from '../../fixtures/fake-child.js';
+
+const OPENCODE = {
+  id: 'opencode',
+  binary: 'opencode',
+  argv: ['run', '--agent', 'plan', '--format', 'json', '{prompt}'],
+  modelArgv: ['-m', '{model}'],
+  readOnlyFlags: ['--agent', 'plan'],
+  output: { kind: 'jsonl-last', responsePath: 'part.text', modelPath: 'model' },
+};
+
+function writeDefinitions(dir: string, harnesses: unknown[]): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'harnesses.json'), JSON.stringify({ harnesses }));
+}
+
+describe('harness registry', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+  const originalCwd = process.cwd();
+  let projectDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-home-'));
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-project-'));
+    process.chdir(projectDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+  });
+
+  it('refuses definitions that drop read-only flags, add bypass flags, or shadow built-ins', () => {
+    const refusals = [
+      { ...OPENCODE, readOnlyFlags: [] },
+      { ...OPENCODE, argv: ['run', '--format', 'json', '{prompt}'] },
+      { ...OPENCODE, argv: [...OPENCODE.argv, '--dangerously-skip-permissions'] },
+      { ...OPENCODE, modelArgv: ['--yolo', '-m', '{model}'] },
+      { ...OPENCODE, id: 'codex' },
+      { ...OPENCODE, argv: ['run', '--agent', 'plan'] },
+      { ...OPENCODE, output: { kind: 'json' } },
+    ].map(raw => validateHarnessDefinition(raw, 'test'));
+
+    expect(refusals.every(result => !result.ok)).toBe(true);
+    expect(validateHarnessDefinition(OPENCODE, 'test').ok).toBe(true);
+  });
+
+  it('lets a project definition refine a user definition with the same id', () => {
+    writeDefinitions(process.env.GRAPHYN_HOME!, [OPENCODE]);
+    const refined = { ...OPENCODE, output: { kind: 'jsonl-last', responsePath: 'message.text' } };
+    writeDefinitions(path.join(projectDir, '.graphyn'), [refined]);
+
+    const registry = loadHarnessRegistry();
+    expect(registry.errors).toEqual([]);
+    expect(registry.definitions.get('opencode')?.output).toEqual(refined.output);
+  });
+
+  it('refuses project definitions that bring their own binary or read-only claim', () => {
+    writeDefinitions(process.env.GRAPHYN_HOME!, [OPENCODE]);
+    writeDefinitions(path.join(projectDir, '.graphyn'), [
+      { ...OPENCODE, id: 'helper', binary: './scripts/helper.sh' },
+      { ...OPENCODE, binary: '/tmp/opencode' },
+    ]);
+
+    let registry = loadHarnessRegistry();
+    expect(registry.errors.map(error => error.id)).toEqual(['helper', 'opencode']);
+    expect(registry.errors[0].error).toContain('declare "helper" there first');
+    expect(registry.definitions.size).toBe(0);
+
+    writeDefinitions(path.join(projectDir, '.graphyn'), [
+      { ...OPENCODE, argv: ['run', '--format', 'json', '--agent', 'build', '{prompt}'], readOnlyFlags: ['--agent', 'build'] },
+    ]);
+    registry = loadHarnessRegistry();
+    expect(registry.errors[0].error).toContain('readOnlyFlags differ');
+    expect(registry.definitions.has('opencode')).toBe(false);
+
+    // Keeping the read-only flags but overriding them later in argv is still a new command line.
+    writeDefinitions(path.join(projectDir, '.graphyn'), [
+      { ...OPENCODE, argv: ['run', '--agent', 'plan', '--format', 'json', '--agent', 'build', '{prompt}'] },
+      { ...OPENCODE, modelArgv: ['-m', '{model}', '--agent', 'build'] },
+    ]);
+    registry = loadHarnessRegistry();
+    expect(registry.errors.map(error => error.error)).toEqual([
+      expect.stringContaining('argv differs'),
+      expect.stringContaining('modelArgv differs'),
+    ]);
+    expect(registry.definitions.has('opencode')).toBe(false);
+  });
+
+  it('consults a declared leaf with its read-only argv and JSON paths', async () => {
+    writeDefinitions(process.env.GRAPHYN_HOME!, [OPENCODE]);
+    const events = [
+      JSON.stringify({ type: 'step_start', model: 'qwen3-coder' }),
+      'warming up…',
+      JSON.stringify({ type: 'text', part: { text: 'draft' } }),
+      JSON.stringify({ type: 'text', part: { text: 'final answer' } }),
+    ];
+    spawnMock.mockReturnValue(answeringChild(events.join('\n')));
+
+    const result = await runHarnessConsult({ toHarness: 'opencode', question: 'review', model: 'qwen3-coder' });
+
+    expect(spawnMock.mock.calls[0][0]).toBe('opencode');
+    const argv = spawnMock.mock.calls[0][1] as string[];
+    expect(argv.slice(0, 5)).toEqual(['run', '--agent', 'plan', '--format', 'json']);
+    expect(argv[5]).toMatch(/\n\nreview$/);
+    expect(argv.slice(6)).toEqual(['-m', 'qwen3-coder']);
+    expect(result.ok).toBe(true);
+    if (!result.ok) throw new Error('expected ok');
+    expect(result.response).toBe('final answer');
+    expect(result.answeredByModel).toBe('qwen3-coder');
+  });
+
+  it('reports why a refused definition cannot be consulted', async () => {
+    writeDefinitions(process.env.GRAPHYN_HOME!, [{ ...OPENCODE, argv: [...OPENCODE.argv, '--full-auto'] }]);
+
+    const result = await runHarnessConsult({ toHarness: 'opencode', question: 'review' });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('HARNESS_NOT_WIRED');
+    expect(result.error).toContain('permission-bypass');
+    expect(spawnMock).not.toHaveBeenCalled();
+  });
+});
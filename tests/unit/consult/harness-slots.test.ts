@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the machine-wide harness slot limiter.
+ *
+ * child_process.spawn is mocked with a gemini leaf that answers after a
+ * short delay; slots are real files under a temp GRAPHYN_HOME.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { acquireHarnessSlot, harnessSlotsDir } from '../../../src/consult/harness-slots.js';
+import { listConsultReceipts } from '../../../src/consult/receipt-log.js';
+import { delayedChild, type FakeChild } from '../../fixtures/fake-child.js';
+
+function slowChild(delayMs: number): FakeChild {
+  return delayedChild(JSON.stringify({ response: 'answer' }), delayMs);
+}
+
+function limitGemini(limit: number): void {
+  fs.writeFileSync(path.join(process.env.GRAPHYN_HOME!, 'consult.json'), JSON.stringify({ concurrency: { byHarness: { gemini: limit } } }));
+}
+
+describe('harness slots', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-slots-'));
+    spawnMock.mockImplementation(() => slowChild(150));
+  });
+
+  it('serializes consults past the limit and reports the queue wait', async () => {
+    limitGemini(1);
+    const [first, second] = await Promise.all([
+      runHarnessConsult({ toHarness: 'gemini', question: 'first' }),
+      runHarnessConsult({ toHarness: 'gemini', question: 'second' }),
+    ]);
+
+    if (!first.ok || !second.ok) throw new Error('expected both consults to answer');
+    expect(first.queueWaitMs).toBeLessThan(100);
+    expect(second.queueWaitMs).toBeGreaterThanOrEqual(100);
+    expect(listConsultReceipts().map(receipt => typeof receipt.queueWaitMs)).toEqual(['number', 'number']);
+    // Both tickets are gone once the consults settle.
+    expect(fs.readdirSync(path.join(harnessSlotsDir(), 'gemini')).filter(name => name.endsWith('.ticket'))).toEqual([]);
+  });
+
+  it('grants slots in arrival order', async () => {
+    const holder = await acquireHarnessSlot('codex', 1, { timeoutMs: 1_000 });
+    if (!holder.ok) throw new Error('expected a slot');
+    const granted: string[] = [];
+    const second = acquireHarnessSlot('codex', 1, { timeoutMs: 2_000 }).then(result => {
+      granted.push('second');
+      return result;
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const third = acquireHarnessSlot('codex', 1, { timeoutMs: 2_000 }).then(result => {
+      granted.push('third');
+      return result;
+    });
+
+    holder.slot.release();
+    const secondResult = await second;
+    if (!secondResult.ok) throw new Error('expected a slot');
+    secondResult.slot.release();
+    const thirdResult = await third;
+    if (thirdResult.ok) thirdResult.slot.release();
+    expect(granted).toEqual(['second', 'third']);
+  });
+
+  it('fails with HARNESS_QUEUE_TIMEOUT when no slot frees up, and recovers stale tickets', async () => {
+    limitGemini(1);
+    const holder = await acquireHarnessSlot('gemini', 1, { timeoutMs: 1_000 });
+    if (!holder.ok) throw new Error('expected a slot');
+
+    const queued = await runHarnessConsult({ toHarness: 'gemini', question: 'q', timeoutMs: 300 });
+    expect(queued.ok).toBe(false);
+    if (queued.ok) throw new Error('expected failure');
+    expect(queued.errorCode).toBe('HARNESS_QUEUE_TIMEOUT');
+    expect(queued.queueWaitMs).toBeGreaterThanOrEqual(300);
+    expect(spawnMock).not.toHaveBeenCalled();
+    holder.slot.release();
+
+    // A crashed holder (dead pid), a hung one (no heartbeat for a minute), and
+    // an empty ticket left by a crash before it was written do not block the queue.
+    const dir = path.join(harnessSlotsDir(), 'gemini');
+    fs.writeFileSync(path.join(dir, '000000000000.ticket'), JSON.stringify({ pid: 2 ** 31 - 2, createdAt: new Date().toISOString() }));
+    const hung = path.join(dir, '000000000001.ticket');
+    fs.writeFileSync(hung, JSON.stringify({ pid: process.pid, createdAt: new Date().toISOString() }));
+    const empty = path.join(dir, '000000000002.ticket');
+    fs.writeFileSync(empty, '');
+    const minuteAgo = new Date(Date.now() - 60_000);
+    fs.utimesSync(hung, minuteAgo, minuteAgo);
+    fs.utimesSync(empty, minuteAgo, minuteAgo);
+
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'q', timeoutMs: 1_000 });
+    expect(result.ok).toBe(true);
+    expect(fs.existsSync(hung)).toBe(false);
+    expect(fs.existsSync(empty)).toBe(false);
+  });
+
+  it('times out on a held slot lock without blocking the event loop or running unslotted', async () => {
+    limitGemini(1);
+    const dir = path.join(harnessSlotsDir(), 'gemini');
+    fs.mkdirSync(path.join(dir, '.lock'), { recursive: true });
+    let ticks = 0;
+    const ticker = setInterval(() => { ticks++; }, 10);
+
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'q', timeoutMs: 200 });
+    clearInterval(ticker);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('HARNESS_QUEUE_TIMEOUT');
+    expect(spawnMock).not.toHaveBeenCalled();
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  it('refuses to run unslotted when the slots directory cannot be used', async () => {
+    limitGemini(1);
+    fs.mkdirSync(path.dirname(harnessSlotsDir()), { recursive: true });
+    fs.writeFileSync(harnessSlotsDir(), 'not a directory');
+
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'q', timeoutMs: 200 });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('HARNESS_QUEUE_TIMEOUT');
+    expect(spawnMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for junction chain history (loop detection) and the
+ * per-workspace depth cap.
+ *
+ * child_process.spawn is mocked; the leaf environment it receives shows what
+ * a nested junction would inherit.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { junctionInputHash, parseJunctionChain, resolveMaxJunctionDepth } from '../../../src/consult/junction-chain.js';
+import { answeringChild, type FakeChild } from '../../fixtures/fake-child.js';
+
+function codexChild(text: string): FakeChild {
+  return answeringChild(`${JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text } })}\n`);
+}
+
+describe('junction chain', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_CHAIN;
+    delete process.env.GRAPHYN_JUNCTION_MAX_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-chain-'));
+    spawnMock.mockImplementation(() => codexChild('answer'));
+  });
+
+  it('refuses a ping-pong hop and passes the extended history to the leaf', async () => {
+    const hash = junctionInputHash('Is the retry loop safe?');
+    // claude asked codex, codex asked claude the same thing; now claude asks codex again.
+    process.env.GRAPHYN_JUNCTION_DEPTH = '2';
+    process.env.GRAPHYN_JUNCTION_CHAIN = `claude>codex:${hash};codex>claude:${hash}`;
+
+    const loop = await runHarnessConsult({ toHarness: 'codex', fromHarness: 'gemini', question: '  is the RETRY loop   safe? ' });
+    expect(loop.ok).toBe(false);
+    if (loop.ok) throw new Error('expected failure');
+    expect(loop.errorCode).toBe('JUNCTION_LOOP_DETECTED');
+    expect(loop.error).toContain('claude → codex');
+    expect(spawnMock).not.toHaveBeenCalled();
+
+    const fresh = await runHarnessConsult({ toHarness: 'codex', question: 'What about the backoff cap?' });
+    expect(fresh.ok).toBe(true);
+    const leafEnv = spawnMock.mock.calls[0][2].env as NodeJS.ProcessEnv;
+    expect(parseJunctionChain(leafEnv.GRAPHYN_JUNCTION_CHAIN)).toEqual([
+      { asker: 'claude', target: 'codex', inputHash: hash },
+      { asker: 'codex', target: 'claude', inputHash: hash },
+      { asker: 'claude', target: 'codex', inputHash: junctionInputHash('What about the backoff cap?') },
+    ]);
+    expect(leafEnv.GRAPHYN_JUNCTION_MAX_DEPTH).toBe('3');
+  });
+
+  it('reads the depth cap from consult.json, lets a parent cap win, and clamps it', async () => {
+    fs.writeFileSync(path.join(process.env.GRAPHYN_HOME!, 'consult.json'), JSON.stringify({ junction: { maxDepth: 2 } }));
+    process.env.GRAPHYN_JUNCTION_DEPTH = '2';
+
+    const capped = await runHarnessConsult({ toHarness: 'codex', question: 'q' });
+    expect(capped.ok).toBe(false);
+    if (capped.ok) throw new Error('expected failure');
+    expect(capped.errorCode).toBe('JUNCTION_DEPTH_EXCEEDED');
+    expect(capped.error).toContain('maximum of 2');
+
+    process.env.GRAPHYN_JUNCTION_MAX_DEPTH = '4';
+    expect(resolveMaxJunctionDepth()).toBe(4);
+    const allowed = await runHarnessConsult({ toHarness: 'codex', question: 'q' });
+    expect(allowed.ok).toBe(true);
+
+    process.env.GRAPHYN_JUNCTION_MAX_DEPTH = '50';
+    expect(resolveMaxJunctionDepth()).toBe(10);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for knowledge-context injection (`consult --with-knowledge`).
+ *
+ * GRAPHYN_BASE_BIN points at a fake base script that prints canned search
+ * results; the consult leaf itself is a mocked spawn.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', async importOriginal => {
+  const actual = await importOriginal<typeof import('node:child_process')>();
+  return { ...actual, spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { answeringChild } from '../../fixtures/fake-child.js';
+
+const ORIGINAL_PATH = process.env.PATH;
+
+const SEARCH_RESULTS = JSON.stringify([
+  { document: { title: 'auth', content: 'Sessions rotate every 24h. api_key=abcdef1234567890', metadata: { path: 'docs/auth.md' } }, score: 0.91 },
+  { document: { title: 'queue', content: 'Workers ack after commit.', metadata: { path: 'docs/queue.md' } }, score: 0.42 },
+]);
+
+describe('consult knowledge context', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+  let baseBin: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-knowledge-'));
+    process.env.GRAPHYN_HOME = dir;
+    baseBin = path.join(dir, 'graphyn-base');
+    fs.writeFileSync(baseBin, `#!/bin/sh\necho '${SEARCH_RESULTS}'\n`, { mode: 0o755 });
+    process.env.GRAPHYN_BASE_BIN = baseBin;
+
+    spawnMock.mockImplementation((command: string) =>
+      command === baseBin
+        ? answeringChild(SEARCH_RESULTS)
+        : answeringChild(JSON.stringify({ response: 'rotate daily', stats: { models: { 'gemini-2.5-pro': {} } } })),
+    );
+  });
+
+  it('attaches the top docs before redaction and records paths, scores, and a hash', async () => {
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'How long do sessions live?', withKnowledge: 1 });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) throw new Error('expected ok');
+    expect(result.receipt.transform.knowledge_context).toMatchObject({
+      status: 'injected',
+      docs: [{ path: 'docs/auth.md', score: 0.91 }],
+    });
+    expect(result.receipt.transform.knowledge_context?.hash).toMatch(/^[a-f0-9]{64}$/);
+    expect(result.receipt.redacted).toBe(true);
+
+    const leafCall = spawnMock.mock.calls.find(call => call[0] === 'gemini')!;
+    const prompt = (leafCall[1] as string[])[1];
+    expect(prompt).toContain('1. docs/auth.md (score 0.91)');
+    expect(prompt).not.toContain('docs/queue.md');
+    expect(prompt).not.toContain('abcdef1234567890');
+  });
+
+  it('degrades to no context when the base binary is unavailable', async () => {
+    process.env.GRAPHYN_BASE_BIN = path.join(os.tmpdir(), 'graphyn-missing-base-bin');
+    process.env.PATH = '';
+
+    try {
+      const result = await runHarnessConsult({ toHarness: 'gemini', question: 'How long do sessions live?', withKnowledge: 3 });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) throw new Error('expected ok');
+      expect(result.receipt.transform.knowledge_context).toMatchObject({ status: 'unavailable', docs: [] });
+      expect(result.receipt.transform.knowledge_context?.reason).toContain('BASE_BINARY_NOT_FOUND');
+    } finally {
+      process.env.PATH = ORIGINAL_PATH;
+    }
+  });
+});
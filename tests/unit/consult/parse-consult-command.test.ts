@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseArgs } from '../../../src/index.js';
+import { parseArgs, parseHarnessConsultArgs } from '../../../src/index.js';
 
 describe('parse consult flags', () => {
   it('parses --agent-uuid and --machine with query', () => {
@@ -27,4 +27,10 @@ describe('parse consult flags', () => {
     expect(options.machine).toBe('mbp');
     expect(query).toBe('summarize auth flow');
   });
+
+  it('normalizes --to to its first harness, so a stray comma is not a fan-out', () => {
+    expect(parseHarnessConsultArgs(['consult', '--to', 'gemini,', 'q'])).toMatchObject({ toHarness: 'gemini', toHarnesses: ['gemini'] });
+    expect(parseHarnessConsultArgs(['consult', '--to', ' codex , claude,codex', 'q'])).toMatchObject({ toHarness: 'codex', toHarnesses: ['codex', 'claude'] });
+    expect(parseHarnessConsultArgs(['consult', '--to', ',', 'q']).toHarness).toBeUndefined();
+  });
 });
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the hash-chained consult audit log.
+ *
+ * child_process.spawn is mocked so each consult answers (or fails) without a
+ * real leaf; GRAPHYN_HOME points at a fresh temp dir per test.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import {
+  consultReceiptsDir,
+  findConsultReceipt,
+  listConsultReceipts,
+  verifyConsultReceipts,
+} from '../../../src/consult/receipt-log.js';
+import { answeringChild } from '../../fixtures/fake-child.js';
+
+const GEMINI_ANSWER = JSON.stringify({ response: 'ship it', stats: { models: { 'gemini-2.5-pro': {} } } });
+const SECRET_QUESTION = 'is sk-abcdefghijklmnopqrstuvwxyz123456 safe to log?';
+
+describe('consult audit log', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    delete process.env.GRAPHYN_CONSULT_STORE_CONTENT;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-consult-'));
+    spawnMock.mockImplementation(() => answeringChild(GEMINI_ANSWER));
+  });
+
+  it('records hashes only by default and never the raw question', async () => {
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: SECRET_QUESTION });
+
+    expect(result.ok).toBe(true);
+    expect(result.receiptId).toMatch(/^crcpt_/);
+
+    const receipt = findConsultReceipt(result.receiptId!);
+    expect(receipt).toMatchObject({
+      ok: true,
+      fromHarness: 'claude',
+      toHarness: 'gemini',
+      answeredByModel: 'gemini-2.5-pro',
+      redacted: true,
+      previousReceiptHash: null,
+    });
+    expect(receipt!.questionHash).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(receipt!.content).toBeUndefined();
+
+    const raw = fs.readdirSync(consultReceiptsDir())
+      .map(file => fs.readFileSync(path.join(consultReceiptsDir(), file), 'utf8'))
+      .join('');
+    expect(raw).not.toContain('sk-abcdefghijklmnopqrstuvwxyz123456');
+    expect(raw).not.toContain('ship it');
+  });
+
+  it('stores the redacted question and answer when content storage is on', async () => {
+    process.env.GRAPHYN_CONSULT_STORE_CONTENT = '1';
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: SECRET_QUESTION });
+
+    const receipt = findConsultReceipt(result.receiptId!);
+    expect(receipt!.content?.answer).toBe('ship it');
+    expect(receipt!.content?.transformedInput).toContain('[REDACTED]');
+    expect(receipt!.content?.transformedInput).not.toContain('sk-abcdefghijklmnopqrstuvwxyz');
+  });
+
+  it('chains failures and successes and detects tampering', async () => {
+    await runHarnessConsult({ toHarness: 'gemini', question: 'first', traceId: 'trace-a' });
+    const failed = await runHarnessConsult({ toHarness: 'gemini', question: '   ', traceId: 'trace-a' });
+    await runHarnessConsult({ toHarness: 'gemini', question: 'third', traceId: 'trace-b' });
+
+    expect(failed.ok).toBe(false);
+    expect(findConsultReceipt(failed.receiptId!)).toMatchObject({ ok: false, errorCode: 'BAD_REQUEST' });
+    expect(listConsultReceipts({ traceId: 'trace-a' })).toHaveLength(2);
+    expect(verifyConsultReceipts()).toEqual({ ok: true, checked: 3 });
+
+    const [file] = fs.readdirSync(consultReceiptsDir());
+    const filePath = path.join(consultReceiptsDir(), file);
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    const tampered = JSON.parse(lines[1]);
+    tampered.toHarness = 'codex';
+    lines[1] = JSON.stringify(tampered);
+    fs.writeFileSync(filePath, `${lines.join('\n')}\n`);
+
+    const verification = verifyConsultReceipts();
+    expect(verification.ok).toBe(false);
+    expect(verification.checked).toBe(1);
+    expect(verification.broken).toMatchObject({ line: 2, reason: 'hash_mismatch' });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for `consult replay`: the stored input is re-sent verbatim and
+ * the two answers are diffed.
+ *
+ * child_process.spawn is mocked: gemini answers the original, codex the replay.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { answerSimilarity, replayConsult } from '../../../src/consult/replay.js';
+import { findConsultReceipt, listConsultReceipts } from '../../../src/consult/receipt-log.js';
+import { answeringChild } from '../../fixtures/fake-child.js';
+
+const GEMINI_ANSWER = 'Retry with exponential backoff and jitter, capped at 30 seconds.';
+const CODEX_ANSWER = 'Retry with exponential backoff, capped at 30 seconds.';
+
+describe('consult replay', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    delete process.env.GRAPHYN_CONSULT_STORE_CONTENT;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-replay-'));
+    spawnMock.mockImplementation((command: string) =>
+      command === 'gemini'
+        ? answeringChild(JSON.stringify({ response: GEMINI_ANSWER, stats: { models: { 'gemini-2.5-pro': { tokens: { prompt: 40, candidates: 12 } } } } }))
+        : answeringChild(`${JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: CODEX_ANSWER } })}\n`),
+    );
+  });
+
+  it('re-sends the byte-identical input to another harness and diffs the answers', async () => {
+    const first = await runHarnessConsult({ toHarness: 'gemini', question: 'How should the sync job retry?', mode: 'ask', storeContent: true });
+    if (!first.ok) throw new Error(`expected ok, got ${first.errorCode}`);
+    const original = findConsultReceipt(first.receiptId!)!;
+
+    const report = await replayConsult({ receiptId: original.id, toHarness: 'codex' });
+    if (!report.ok) throw new Error(report.error);
+
+    // The leaf got exactly what gemini got: same preamble (original trace id), contract, and question.
+    const replayPrompt = spawnMock.mock.calls[1][1].at(-1) as string;
+    expect(replayPrompt).toBe(original.content!.transformedInput);
+    expect(replayPrompt).toContain(original.junctionTraceId);
+    expect(report.inputHash).toBe(original.transformedInputHash);
+
+    expect(report.original).toMatchObject({ toHarness: 'gemini', model: 'gemini-2.5-pro', answerLength: GEMINI_ANSWER.length });
+    expect(report.replay).toMatchObject({ toHarness: 'codex', ok: true, answerLength: CODEX_ANSWER.length });
+    expect(report.diff.similarity).toBe(answerSimilarity(GEMINI_ANSWER, CODEX_ANSWER));
+    expect(report.diff.similarity).toBeGreaterThan(0.5);
+    expect(report.diff.lengthDelta).toBe(CODEX_ANSWER.length - GEMINI_ANSWER.length);
+    expect(typeof report.diff.latencyDeltaMs).toBe('number');
+    expect(report.diff).toMatchObject({ modelChanged: true, redactionParity: true });
+
+    const replayRecord = listConsultReceipts().at(-1)!;
+    expect(replayRecord).toMatchObject({ toHarness: 'codex', replayOfReceiptId: original.id, transformedInputHash: original.transformedInputHash });
+    expect(replayRecord.junctionTraceId).not.toBe(original.junctionTraceId);
+  });
+
+  it('refuses receipts without stored input and stored input that no longer matches its hash', async () => {
+    const hashesOnly = await runHarnessConsult({ toHarness: 'gemini', question: 'q' });
+    const noContent = await replayConsult({ receiptId: hashesOnly.receiptId! });
+    expect(noContent).toMatchObject({ ok: false });
+    if (noContent.ok) throw new Error('expected failure');
+    expect(noContent.actionable).toContain('--store-content');
+
+    const stored = await runHarnessConsult({ toHarness: 'gemini', question: 'q2', storeContent: true });
+    const receiptsDir = path.join(process.env.GRAPHYN_HOME!, 'consult', 'receipts');
+    for (const file of fs.readdirSync(receiptsDir).filter(name => name.endsWith('.jsonl'))) {
+      const full = path.join(receiptsDir, file);
+      fs.writeFileSync(full, fs.readFileSync(full, 'utf8').replace('q2', 'q3'));
+    }
+    const tampered = await replayConsult({ receiptId: stored.receiptId! });
+    expect(tampered.ok).toBe(false);
+    if (tampered.ok) throw new Error('expected failure');
+    expect(tampered.error).toContain('does not match');
+
+    expect((await replayConsult({ receiptId: 'crcpt_missing' })).ok).toBe(false);
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the consult response cache (`--cache`).
+ *
+ * child_process.spawn is mocked with a leaf that answers once per spawn, so
+ * the spawn count tells whether a consult reached the leaf.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { listConsultReceipts } from '../../../src/consult/receipt-log.js';
+import { consultCacheDir, consultCacheStats, pruneConsultCache } from '../../../src/consult/response-cache.js';
+import { answeringChild } from '../../fixtures/fake-child.js';
+
+describe('consult response cache', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-cache-'));
+    spawnMock.mockImplementation(() => answeringChild(JSON.stringify({ response: 'cached answer' })));
+  });
+
+  it('answers a repeat from the cache and names the original receipt', async () => {
+    const first = await runHarnessConsult({ toHarness: 'gemini', question: 'what is 2+2?', cache: true });
+    const second = await runHarnessConsult({ toHarness: 'gemini', question: 'what is 2+2?', cache: true });
+
+    expect(spawnMock).toHaveBeenCalledTimes(1);
+    if (!first.ok || !second.ok) throw new Error('expected ok');
+    expect(first.cache).toEqual({ status: 'miss' });
+    expect(second.cache).toMatchObject({ status: 'hit', originalReceiptId: first.receiptId });
+    expect(second.response).toBe('cached answer');
+    expect(second.receipt.invocationArgv).toEqual([]);
+
+    const records = listConsultReceipts();
+    expect(records.map(record => record.cache)).toEqual(['miss', 'hit']);
+    expect(records[1].cachedFromReceiptId).toBe(first.receiptId);
+
+    // A different mode (or harness, model, attachment) is a different key.
+    await runHarnessConsult({ toHarness: 'gemini', question: 'what is 2+2?', mode: 'plan-first', cache: true });
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not answer a stricter outbound policy from an answer cached under annotate', async () => {
+    const token = `ghp_${'a1B2c3D4e5'.repeat(3)}`;
+    spawnMock.mockImplementation(() => answeringChild(JSON.stringify({ response: `use ${token}` })));
+
+    const annotated = await runHarnessConsult({ toHarness: 'gemini', question: 'q', cache: true });
+    if (!annotated.ok) throw new Error('expected ok');
+    expect(annotated.response).not.toContain(token);
+
+    const blocked = await runHarnessConsult({ toHarness: 'gemini', question: 'q', cache: true, outboundPolicy: 'block' });
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+    expect(blocked).toMatchObject({ ok: false, errorCode: 'HARNESS_OUTPUT_BLOCKED' });
+  });
+
+  it('is off by default, follows consult.json, and yields to --no-cache', async () => {
+    await runHarnessConsult({ toHarness: 'gemini', question: 'q' });
+    expect(fs.existsSync(consultCacheDir())).toBe(false);
+
+    fs.writeFileSync(path.join(process.env.GRAPHYN_HOME!, 'consult.json'), JSON.stringify({ cache: { enabled: true } }));
+    await runHarnessConsult({ toHarness: 'gemini', question: 'q' });
+    await runHarnessConsult({ toHarness: 'gemini', question: 'q' });
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+
+    const bypass = await runHarnessConsult({ toHarness: 'gemini', question: 'q', cache: false });
+    expect(spawnMock).toHaveBeenCalledTimes(3);
+    if (!bypass.ok) throw new Error('expected ok');
+    expect(bypass.cache).toBeUndefined();
+  });
+
+  it('expires entries after the TTL and prunes them', async () => {
+    await runHarnessConsult({ toHarness: 'gemini', question: 'q', cache: true });
+    const [file] = fs.readdirSync(consultCacheDir());
+    const entryPath = path.join(consultCacheDir(), file);
+    const entry = JSON.parse(fs.readFileSync(entryPath, 'utf8'));
+    fs.writeFileSync(entryPath, JSON.stringify({ ...entry, expiresAt: new Date(Date.now() - 1000).toISOString() }));
+
+    expect(consultCacheStats()).toMatchObject({ entries: 1, expired: 1, hits: 0 });
+    expect(pruneConsultCache()).toEqual({ removed: 1, kept: 0 });
+
+    await runHarnessConsult({ toHarness: 'gemini', question: 'q', cache: true });
+    await runHarnessConsult({ toHarness: 'gemini', question: 'q', cache: true });
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+    expect(consultCacheStats()).toMatchObject({ entries: 1, expired: 0, hits: 1 });
+    expect(pruneConsultCache({ all: true })).toEqual({ removed: 1, kept: 0 });
+  });
+});
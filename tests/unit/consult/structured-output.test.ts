@@ -0,0 +1,95 @@
+/**
+ * Unit tests for structured-output consults (`--schema`).
+ *
+ * child_process.spawn is mocked with a gemini leaf that answers from a
+ * queue, so the first and the retry answer can differ.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { runHarnessConsult } from '../../../src/consult/harness-adapter.js';
+import { listConsultReceipts } from '../../../src/consult/receipt-log.js';
+import { answeringChild, type FakeChild } from '../../fixtures/fake-child.js';
+
+function geminiChild(response: string): FakeChild {
+  return answeringChild(JSON.stringify({ response }));
+}
+
+const REVIEW_SCHEMA = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['approve', 'request-changes'] },
+    issues: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['verdict', 'issues'],
+  additionalProperties: false,
+};
+
+describe('structured-output consults', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+  let answers: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-schema-'));
+    answers = [];
+    spawnMock.mockImplementation(() => geminiChild(answers.shift() ?? ''));
+  });
+
+  const prompts = (): string[] => spawnMock.mock.calls.map(call => call[1][call[1].indexOf('-p') + 1] as string);
+
+  it('returns the parsed object as data when the first answer validates', async () => {
+    answers = ['Here you go:\n```json\n{"verdict": "approve", "issues": []}\n```'];
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'review the diff', schema: REVIEW_SCHEMA });
+
+    if (!result.ok) throw new Error(`expected ok, got ${result.errorCode}`);
+    expect(result.data).toEqual({ verdict: 'approve', issues: [] });
+    expect(spawnMock).toHaveBeenCalledTimes(1);
+    expect(prompts()[0]).toContain('"request-changes"');
+    expect(listConsultReceipts()[0].schemaValid).toBe(true);
+  });
+
+  it('retries once with the validation errors and the previous answer', async () => {
+    answers = ['{"verdict": "maybe"}', '{"verdict": "request-changes", "issues": ["missing test"]}'];
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'review the diff', schema: REVIEW_SCHEMA });
+
+    if (!result.ok) throw new Error(`expected ok, got ${result.errorCode}`);
+    expect(result.data).toEqual({ verdict: 'request-changes', issues: ['missing test'] });
+    const retryPrompt = prompts()[1];
+    expect(retryPrompt).toContain('did not validate');
+    expect(retryPrompt).toMatch(/- verdict: /);
+    expect(retryPrompt).toContain('{"verdict": "maybe"}');
+
+    const receipts = listConsultReceipts();
+    expect(receipts.map(r => r.schemaValid)).toEqual([false, true]);
+    expect(receipts[0].junctionTraceId).toBe(receipts[1].junctionTraceId);
+  });
+
+  it('fails with HARNESS_SCHEMA_MISMATCH after the retry, and rejects unusable schemas', async () => {
+    answers = ['I think it looks fine.', 'Still fine, honestly.'];
+    const result = await runHarnessConsult({ toHarness: 'gemini', question: 'review the diff', schema: REVIEW_SCHEMA });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) throw new Error('expected failure');
+    expect(result.errorCode).toBe('HARNESS_SCHEMA_MISMATCH');
+    expect(result.partialResponse).toBe('Still fine, honestly.');
+    expect(result.schemaErrors).toEqual(['(root): the answer contains no JSON object']);
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+
+    const bad = await runHarnessConsult({ toHarness: 'gemini', question: 'q', schema: [] as never });
+    expect(bad.ok).toBe(false);
+    if (bad.ok) throw new Error('expected failure');
+    expect(bad.errorCode).toBe('BAD_REQUEST');
+    expect(spawnMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for `graphyn serve`: routes, junction env forwarding, the
+ * token-gated HTTP listener, and graceful shutdown.
+ *
+ * child_process.spawn is mocked with a gemini leaf; requests go over a real
+ * Unix socket and a real 127.0.0.1 port.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+
+vi.mock('node:child_process', () => {
+  return { spawn: vi.fn() };
+});
+
+import { spawn } from 'node:child_process';
+import { fsOptionsFromEnv } from '../../../src/commands/fs.js';
+import { startJunctionServer, type JunctionServer } from '../../../src/serve/junction-server.js';
+import { defaultMounts } from '../../../src/vfs/mounts.js';
+import { runtimeGrantPath } from '../../../src/vfs/paths.js';
+import { mountBindingHandle } from '../../../src/vfs/policy.js';
+import { delayedChild, missingChild, type FakeChild } from '../../fixtures/fake-child.js';
+
+/** A gemini leaf that answers after `delayMs`, or only exits when killed. */
+function geminiChild(delayMs: number | 'never'): FakeChild {
+  return delayedChild(JSON.stringify({ response: 'served answer' }), delayMs);
+}
+
+/** A runtime grant letting the env's default identity `cat` anything under `projectDir` mounted at /repo. */
+function writeProjectGrant(id: string, projectDir: string): void {
+  const options = fsOptionsFromEnv();
+  const repo = defaultMounts(projectDir).find(mount => mount.id === 'repo')!;
+  const grant = {
+    schemaVersion: 'w235.v1',
+    id,
+    threadId: options.threadId,
+    sessionId: options.sessionId,
+    agentId: options.agentId,
+    workspaceId: options.workspaceId,
+    subjectHash: options.subjectHash,
+    grantSource: 'operator',
+    aclRuleIds: [],
+    effectiveMatrix: { 'repo:cat:**': 'allow' },
+    capabilityHandles: [mountBindingHandle(repo)],
+    policyHash: 'test',
+    issuedAt: new Date().toISOString(),
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+  };
+  fs.mkdirSync(path.dirname(runtimeGrantPath(id)), { recursive: true });
+  fs.writeFileSync(runtimeGrantPath(id), JSON.stringify(grant));
+}
+
+interface Reply {
+  status: number;
+  body: Record<string, any>;
+}
+
+function request(
+  target: { socketPath: string } | { port: number },
+  method: string,
+  route: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { ...('port' in target ? { host: '127.0.0.1', port: target.port } : { socketPath: target.socketPath }), method, path: route, headers },
+      res => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) }));
+      },
+    );
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body));
+  });
+}
+
+describe('graphyn serve', () => {
+  const spawnMock = spawn as ReturnType<typeof vi.fn>;
+  let server: JunctionServer | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.GRAPHYN_JUNCTION_DEPTH;
+    delete process.env.GRAPHYN_JUNCTION_TRACE_ID;
+    delete process.env.GRAPHYN_SERVE_TOKEN;
+    process.env.GRAPHYN_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-serve-'));
+    spawnMock.mockImplementation(() => geminiChild(20));
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('answers health and consults on the Unix socket with the CLI envelope', async () => {
+    server = await startJunctionServer();
+    const socket = { socketPath: server.socketPath };
+    expect(server.socketPath).toBe(path.join(process.env.GRAPHYN_HOME!, 'serve', 'junction.sock'));
+    expect(fs.statSync(server.socketPath).mode & 0o777).toBe(0o600);
+
+    const health = await request(socket, 'GET', '/v1/health');
+    expect(health.status).toBe(200);
+    expect(health.body).toMatchObject({ ok: true, service: 'graphyn-junction', pid: process.pid, inFlight: 0 });
+
+    const consult = await request(socket, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'Is the retry safe?' });
+    expect(consult.status).toBe(200);
+    expect(consult.body).toMatchObject({ ok: true, toHarness: 'gemini', response: 'served answer' });
+    expect(consult.body.receiptId).toMatch(/^crcpt_/);
+    expect(consult.body.receipt.junctionDepth).toBe(0);
+
+    // A caller inside a leaf forwards its junction env: depth and trace carry on.
+    const nested = await request(socket, 'POST', '/v1/consult', {
+      toHarness: 'gemini',
+      question: 'nested question',
+      env: { GRAPHYN_JUNCTION_DEPTH: '1', GRAPHYN_JUNCTION_TRACE_ID: 'trace-from-leaf', HOME: '/ignored' },
+    });
+    expect(nested.body.receipt).toMatchObject({ junctionDepth: 1, junctionTraceId: 'trace-from-leaf' });
+    expect(spawnMock.mock.calls.at(-1)![2].env).toMatchObject({ GRAPHYN_JUNCTION_DEPTH: '2', GRAPHYN_JUNCTION_TRACE_ID: 'trace-from-leaf' });
+    expect(spawnMock.mock.calls.at(-1)![2].env.HOME).toBe(process.env.HOME);
+    const capped = await request(socket, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'q', env: { GRAPHYN_JUNCTION_DEPTH: '3' } });
+    expect(capped.body).toMatchObject({ ok: false, errorCode: 'JUNCTION_DEPTH_EXCEEDED' });
+    // The override is per request; the server's own env is untouched.
+    expect(process.env.GRAPHYN_JUNCTION_DEPTH).toBeUndefined();
+
+    // A harness missing from PATH fails its own consult, not the daemon.
+    spawnMock.mockImplementationOnce((command: string) => missingChild(command));
+    const missing = await request(socket, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'q', tier: 'acp', fallback: [] });
+    expect(missing.body).toMatchObject({ ok: false, errorCode: 'HARNESS_UNAVAILABLE' });
+    expect((await request(socket, 'GET', '/v1/health')).body.ok).toBe(true);
+
+    const fsReply = await request(socket, 'POST', '/v1/fs', { args: ['ls', '/'] });
+    expect(fsReply.status).toBe(200);
+    expect(fsReply.body).toMatchObject({ status: expect.any(String), receiptId: expect.any(String) });
+
+    // /v1/base args are argv: the quoted task keeps its spaces and is not re-read as flags.
+    const base = await request(socket, 'POST', '/v1/base', { args: ['--docs-only', 'what does --agents-only skip'] });
+    expect(base.body.error?.code).not.toBe('INVALID_INPUT');
+    expect((await request(socket, 'POST', '/v1/base', { args: ['--docs-only', '--agents-only', 'q'] })).body.error.code).toBe('INVALID_INPUT');
+
+    expect((await request(socket, 'POST', '/v1/consult', { question: 'no target' })).body.error.code).toBe('INVALID_INPUT');
+    expect((await request(socket, 'POST', '/v1/consult', '{not json')).status).toBe(400);
+    expect((await request(socket, 'GET', '/v1/consult')).status).toBe(405);
+    expect((await request(socket, 'POST', '/v1/nope', {})).status).toBe(404);
+    expect((await request(socket, 'POST', '/v1/invoke', { domain: 'nowhere/x' })).status).toBe(404);
+  });
+
+  it("consults in the caller's directory and VFS identity, not the daemon's", async () => {
+    server = await startJunctionServer();
+    const socket = { socketPath: server.socketPath };
+    const project = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'graphyn-serve-caller-')));
+    fs.mkdirSync(path.join(project, '.graphyn'));
+    fs.writeFileSync(path.join(project, '.graphyn', 'consult.json'), JSON.stringify({ junction: { maxDepth: 1 } }));
+    fs.mkdirSync(path.join(project, 'src'));
+    fs.writeFileSync(path.join(project, 'src', 'retry.ts'), 'export const attempts = 3;\n');
+    writeProjectGrant('grant_caller', project);
+
+    const plain = await request(socket, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'q', cwd: project });
+    expect(plain.body).toMatchObject({ ok: true });
+    expect(spawnMock.mock.calls.at(-1)![2]).toMatchObject({ cwd: project });
+    // The project's consult.json applies, not one next to the daemon.
+    const nested = await request(socket, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'q', cwd: project, env: { GRAPHYN_JUNCTION_DEPTH: '1' } });
+    expect(nested.body).toMatchObject({ ok: false, errorCode: 'JUNCTION_DEPTH_EXCEEDED' });
+
+    // /repo is the caller's directory, read under the caller's grant.
+    const attach = { toHarness: 'gemini', question: 'review', cwd: project, attach: ['/repo/src/retry.ts'] };
+    const attached = await request(socket, 'POST', '/v1/consult', { ...attach, grantId: 'grant_caller' });
+    expect(attached.body).toMatchObject({ ok: true });
+    expect((spawnMock.mock.calls.at(-1)![1] as string[])[1]).toContain('export const attempts = 3;');
+    expect((await request(socket, 'POST', '/v1/consult', attach)).body).toMatchObject({ ok: false, errorCode: 'ATTACHMENT_DENIED' });
+
+    expect((await request(socket, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'q', cwd: 'relative/dir' })).body.error.code).toBe('INVALID_INPUT');
+  });
+
+  it('requires the bearer token on every HTTP route', async () => {
+    server = await startJunctionServer({ httpPort: 0 });
+    const port = { port: server.httpPort! };
+    const token = fs.readFileSync(server.tokenFile!, 'utf8').trim();
+    expect(fs.statSync(server.tokenFile!).mode & 0o777).toBe(0o600);
+
+    expect((await request(port, 'GET', '/v1/health')).status).toBe(401);
+    expect((await request(port, 'GET', '/v1/health', undefined, { Authorization: 'Bearer wrong' })).body.error.code).toBe('UNAUTHORIZED');
+    expect((await request(port, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'q' })).status).toBe(401);
+    expect(spawnMock).not.toHaveBeenCalled();
+
+    const auth = { Authorization: `Bearer ${token}` };
+    expect((await request(port, 'GET', '/v1/health', undefined, auth)).body).toMatchObject({ ok: true, httpPort: port.port });
+    const invoked = await request(port, 'POST', '/v1/invoke', { domain: 'harness/gemini', body: { question: 'via the router' } }, auth);
+    expect(invoked.body).toMatchObject({ ok: true, data: { response: 'served answer' } });
+
+    const tokenFile = server.tokenFile!;
+    await server.close();
+    server = undefined;
+    expect(fs.existsSync(tokenFile)).toBe(false);
+  });
+
+  it('drains in-flight requests on close, then cancels what is left', async () => {
+    server = await startJunctionServer({ drainTimeoutMs: 2_000 });
+    const socket = { socketPath: server.socketPath };
+    spawnMock.mockImplementation(() => geminiChild(200));
+    const slow = request(socket, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'slow' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await server.close();
+    expect((await slow).body).toMatchObject({ ok: true, response: 'served answer' });
+    expect(fs.existsSync(socket.socketPath)).toBe(false);
+    await expect(request(socket, 'GET', '/v1/health')).rejects.toThrow();
+
+    server = await startJunctionServer({ drainTimeoutMs: 50 });
+    spawnMock.mockImplementation(() => geminiChild('never'));
+    const stuck = request({ socketPath: server.socketPath }, 'POST', '/v1/consult', { toHarness: 'gemini', question: 'stuck' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await server.close();
+    server = undefined;
+    expect((await stuck).body).toMatchObject({ ok: false, errorCode: 'HARNESS_CANCELLED' });
+  });
+});